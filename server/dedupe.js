@@ -0,0 +1,16 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import connectDB from './src/config/database.js';
+import { removeDuplicateReadings } from './src/utils/readingDedupe.js';
+
+dotenv.config();
+
+const dedupe = async () => {
+  await connectDB();
+  const removed = await removeDuplicateReadings();
+  console.log(`✅ Removed ${removed} duplicate readings`);
+  mongoose.connection.close();
+  process.exit(0);
+};
+
+dedupe();
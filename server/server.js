@@ -15,8 +15,18 @@ import energyRoutes from './src/routes/energy.routes.js';
 import analyticsRoutes from './src/routes/analytics.routes.js';
 import billingRoutes from './src/routes/billing.routes.js';
 import sustainabilityRoutes from './src/routes/sustainability.routes.js';
+import tariffRoutes from './src/routes/tariff.routes.js';
+import scheduleRoutes from './src/routes/schedule.routes.js';
+import automationRoutes from './src/routes/automation.routes.js';
+import sceneRoutes from './src/routes/scene.routes.js';
+import alertRoutes from './src/routes/alert.routes.js';
+import notificationRoutes from './src/routes/notification.routes.js';
+import ingestKeyRoutes from './src/routes/ingestKey.routes.js';
+import ingestRoutes from './src/routes/ingest.routes.js';
 import { errorHandler } from './src/middleware/errorHandler.js';
 import { setupSocketHandlers } from './src/socket/handlers.js';
+import { startScheduler } from './src/jobs/scheduler.js';
+import { startMqttBridge } from './src/mqtt/bridge.js';
 
 dotenv.config();
 
@@ -43,10 +53,21 @@ app.use(cors({
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later'
+  message: 'Too many requests from this IP, please try again later',
+  // Meters report often; ingestion has its own limits below
+  skip: (req) => req.path.startsWith('/ingest/')
 });
 app.use('/api/', limiter);
 
+// Ingestion is also limited per IP, before the key is checked; the ingest
+// routes add a per-key limit once the key is known
+const ingestLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 600, // a gateway may relay several meters
+  message: 'Too many readings from this IP, please slow down'
+});
+app.use('/api/ingest/', ingestLimiter);
+
 // Stricter rate limit for auth endpoints
 const authLimiter = rateLimit({
   windowMs: 15 * 60 * 1000,
@@ -73,6 +94,14 @@ app.use('/api/energy', energyRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/billing', billingRoutes);
 app.use('/api/sustainability', sustainabilityRoutes);
+app.use('/api/tariffs', tariffRoutes);
+app.use('/api/schedules', scheduleRoutes);
+app.use('/api/automations', automationRoutes);
+app.use('/api/scenes', sceneRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/ingest-keys', ingestKeyRoutes);
+app.use('/api/ingest', ingestRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -88,6 +117,12 @@ setupSocketHandlers(io);
 // Make io accessible globally
 app.set('io', io);
 
+// Background jobs (monthly bills, overdue bills, payment reminders)
+startScheduler(io);
+
+// Readings from meters and plugs over MQTT, when MQTT_URL is set
+startMqttBridge(io);
+
 const PORT = process.env.PORT || 5000;
 httpServer.listen(PORT, () => {
   console.log(`🚀 UrjaSync Server running on port ${PORT}`);
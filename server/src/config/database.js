@@ -2,6 +2,15 @@ import mongoose from 'mongoose';
 
 const connectDB = async () => {
   try {
+    // Indexes are built in the background once connected. Report a failure
+    // (such as a unique index over existing duplicates) instead of letting it
+    // surface as an unhandled error.
+    Object.values(mongoose.models).forEach((model) => {
+      model.init().catch((error) => {
+        console.error(`❌ ${model.modelName} index build failed:`, error.message);
+      });
+    });
+
     const conn = await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/urjasync');
     console.log(`✅ MongoDB Connected: ${conn.connection.host}`);
   } catch (error) {
@@ -0,0 +1,90 @@
+import Alert from '../models/Alert.model.js';
+
+export const getAlerts = async (req, res, next) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 50, 100);
+    const filter = { userId: req.user._id };
+    if (req.query.unacknowledged === 'true') filter.acknowledgedAt = null;
+
+    const [alerts, unacknowledged] = await Promise.all([
+      Alert.find(filter).sort({ createdAt: -1 }).limit(limit),
+      Alert.countDocuments({ userId: req.user._id, acknowledgedAt: null })
+    ]);
+
+    res.json({
+      success: true,
+      count: alerts.length,
+      data: { alerts, unacknowledged }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const acknowledgeAlert = async (req, res, next) => {
+  try {
+    const alert = await Alert.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!alert) {
+      return res.status(404).json({
+        success: false,
+        message: 'Alert not found'
+      });
+    }
+
+    if (!alert.acknowledgedAt) {
+      alert.acknowledgedAt = new Date();
+      await alert.save();
+    }
+
+    res.json({
+      success: true,
+      data: { alert }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const acknowledgeAllAlerts = async (req, res, next) => {
+  try {
+    const result = await Alert.updateMany(
+      { userId: req.user._id, acknowledgedAt: null },
+      { acknowledgedAt: new Date() }
+    );
+
+    res.json({
+      success: true,
+      message: 'All alerts acknowledged',
+      data: { acknowledged: result.modifiedCount }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteAlert = async (req, res, next) => {
+  try {
+    const alert = await Alert.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!alert) {
+      return res.status(404).json({
+        success: false,
+        message: 'Alert not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Alert deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
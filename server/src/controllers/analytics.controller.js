@@ -1,14 +1,19 @@
 import mongoose from 'mongoose';
 import EnergyReading from '../models/EnergyReading.model.js';
 import Device from '../models/Device.model.js';
+import { getPeriodUsage } from '../utils/billing.js';
+import { disaggregate } from '../utils/disaggregation.js';
+import { getBillingPeriod, getPeriodOptions } from '../utils/billingPeriod.js';
+import { DAY_MS, getUserTimezone, startOfZonedDay, zonedTimeToUtc } from '../utils/time.js';
 
 export const getUsageTrend = async (req, res, next) => {
   try {
     const userId = req.user._id;
     const { days = 7 } = req.query;
-    
-    const fromDate = new Date();
-    fromDate.setDate(fromDate.getDate() - parseInt(days));
+    const timeZone = getUserTimezone(req.user);
+
+    // The last `days` local days, including today
+    const fromDate = startOfZonedDay(new Date(), timeZone, 1 - parseInt(days));
 
     const trends = await EnergyReading.aggregate([
       {
@@ -20,7 +25,7 @@ export const getUsageTrend = async (req, res, next) => {
       },
       {
         $group: {
-          _id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp' } },
+          _id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp', timezone: timeZone } },
           usage: { $sum: '$usage' },
           cost: { $sum: '$cost' }
         }
@@ -40,8 +45,8 @@ export const getUsageTrend = async (req, res, next) => {
 export const getCostAnalysis = async (req, res, next) => {
   try {
     const userId = req.user._id;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const timeZone = getUserTimezone(req.user);
+    const today = startOfZonedDay(new Date(), timeZone);
 
     const hourlyCosts = await EnergyReading.aggregate([
       {
@@ -53,7 +58,7 @@ export const getCostAnalysis = async (req, res, next) => {
       },
       {
         $group: {
-          _id: { $hour: '$timestamp' },
+          _id: { $hour: { date: '$timestamp', timezone: timeZone } },
           cost: { $sum: '$cost' },
           usage: { $sum: '$usage' }
         }
@@ -76,52 +81,180 @@ export const getCostAnalysis = async (req, res, next) => {
   }
 };
 
+// Upper bound on whole-home readings fed to the disaggregator in one request
+const MAX_DISAGGREGATION_READINGS = 20000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_CUSTOM_DAYS = 366;
+const INVALID_PERIOD_MESSAGE = 'Period must be day, week, month or custom with from/to dates (YYYY-MM-DD, at most 366 days)';
+
+// Range a breakdown or disaggregation covers: today, the last 7 local days,
+// the current billing period, or custom local dates (`to` inclusive).
+// Null when the query is invalid.
+export const getPeriodRange = ({ period = 'week', from, to }, now, user) => {
+  const timeZone = getUserTimezone(user);
+
+  switch (period) {
+    case 'day':
+      return { period, from: startOfZonedDay(now, timeZone), to: now };
+    case 'week':
+      return { period, from: startOfZonedDay(now, timeZone, -6), to: now };
+    case 'month': {
+      const billingPeriod = getBillingPeriod(now, getPeriodOptions(user));
+      return { period, from: billingPeriod.start, to: now };
+    }
+    case 'custom': {
+      if (!DATE_PATTERN.test(from || '') || !DATE_PATTERN.test(to || '')) return null;
+      const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+      const [toYear, toMonth, toDay] = to.split('-').map(Number);
+      const start = zonedTimeToUtc(fromYear, fromMonth - 1, fromDay, 0, 0, timeZone);
+      const end = zonedTimeToUtc(toYear, toMonth - 1, toDay + 1, 0, 0, timeZone);
+      if (end <= start || end - start > MAX_CUSTOM_DAYS * DAY_MS) return null;
+      return { period, from: start, to: end };
+    }
+    default:
+      return null;
+  }
+};
+
+const percentageOf = (value, total) => (total > 0 ? ((value / total) * 100).toFixed(1) : '0.0');
+
+// Per-device usage and cost reconciled against the whole-home meter: whatever
+// the meter recorded beyond the devices' own readings is reported as an
+// "Unattributed / Other" slice. Costs are the sums of each reading's stored
+// cost, which was priced with the tariff in effect at its timestamp.
 export const getDeviceBreakdown = async (req, res, next) => {
   try {
     const userId = req.user._id;
-    const weekAgo = new Date();
-    weekAgo.setDate(weekAgo.getDate() - 7);
+    const range = getPeriodRange(req.query, new Date(), req.user);
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        message: INVALID_PERIOD_MESSAGE
+      });
+    }
 
-    const breakdown = await EnergyReading.aggregate([
-      {
-        $match: {
-          userId: new mongoose.Types.ObjectId(userId),
-          deviceId: { $ne: null },
-          timestamp: { $gte: weekAgo }
-        }
-      },
-      {
-        $group: {
-          _id: '$deviceId',
-          usage: { $sum: '$usage' }
+    const [byDevice, wholeHome] = await Promise.all([
+      EnergyReading.aggregate([
+        {
+          $match: {
+            userId: new mongoose.Types.ObjectId(userId),
+            deviceId: { $ne: null },
+            timestamp: { $gte: range.from, $lt: range.to }
+          }
+        },
+        {
+          $group: {
+            _id: '$deviceId',
+            usage: { $sum: '$usage' },
+            cost: { $sum: '$cost' },
+            estimated: { $max: { $eq: ['$source', 'estimated'] } }
+          }
         }
-      }
+      ]),
+      getPeriodUsage(userId, range.from, range.to)
     ]);
 
-    // Get device details
-    const deviceIds = breakdown.map(b => b._id.toString());
-    const devices = await Device.find({
-      _id: { $in: deviceIds },
-      userId
-    });
+    // Deleted devices keep their share of the history
+    const devices = await Device.find({ _id: { $in: byDevice.map(b => b._id) }, userId })
+      .setOptions({ withDeleted: true });
 
-    const totalUsage = breakdown.reduce((sum, b) => sum + b.usage, 0);
-    
-    const deviceData = breakdown.map(b => {
+    const deviceUsage = byDevice.reduce((sum, b) => sum + b.usage, 0);
+    const deviceCost = byDevice.reduce((sum, b) => sum + b.cost, 0);
+    const unattributed = {
+      usage: Math.max(wholeHome.units - deviceUsage, 0),
+      cost: Math.max(wholeHome.cost - deviceCost, 0)
+    };
+    const totalUsage = deviceUsage + unattributed.usage;
+    const totalCost = deviceCost + unattributed.cost;
+
+    const deviceData = byDevice.map(b => {
       const device = devices.find(d => d._id.toString() === b._id.toString());
       return {
+        deviceId: b._id,
         name: device?.name || 'Unknown',
         type: device?.type || 'Other',
         usage: b.usage,
-        percentage: totalUsage > 0 ? ((b.usage / totalUsage) * 100).toFixed(1) : 0
+        cost: b.cost,
+        estimated: b.estimated,
+        percentage: percentageOf(b.usage, totalUsage)
       };
     }).sort((a, b) => b.usage - a.usage);
 
+    if (unattributed.usage > 0) {
+      deviceData.push({
+        deviceId: null,
+        name: 'Unattributed / Other',
+        type: 'Other',
+        ...unattributed,
+        estimated: false,
+        percentage: percentageOf(unattributed.usage, totalUsage)
+      });
+    }
+
     res.json({
       success: true,
-      data: { 
+      data: {
+        period: range,
         breakdown: deviceData,
-        totalUsage
+        totalUsage,
+        totalCost,
+        wholeHome: { usage: wholeHome.units, cost: wholeHome.cost },
+        unattributed
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Appliance runs inferred from the whole-home meter for devices without
+// their own meter, with a confidence score for each
+export const getDisaggregation = async (req, res, next) => {
+  try {
+    const userId = req.user._id;
+    const range = getPeriodRange({ period: 'day', ...req.query }, new Date(), req.user);
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        message: INVALID_PERIOD_MESSAGE
+      });
+    }
+
+    const [readings, devices] = await Promise.all([
+      EnergyReading.find({ userId, deviceId: null, timestamp: { $gte: range.from, $lt: range.to } })
+        .select('timestamp usage')
+        .sort({ timestamp: 1 })
+        .limit(MAX_DISAGGREGATION_READINGS),
+      Device.find({ userId, metered: false })
+    ]);
+
+    const events = disaggregate(readings, devices);
+
+    const byDevice = new Map();
+    events.forEach(event => {
+      const key = event.deviceId.toString();
+      const summary = byDevice.get(key) || {
+        deviceId: event.deviceId, name: event.name, type: event.type, events: 0, energy: 0, confidence: 0
+      };
+      summary.events += 1;
+      summary.energy += event.energy;
+      summary.confidence += event.confidence;
+      byDevice.set(key, summary);
+    });
+
+    const devicesSummary = [...byDevice.values()]
+      .map(d => ({ ...d, energy: Number(d.energy.toFixed(3)), confidence: Number((d.confidence / d.events).toFixed(2)) }))
+      .sort((a, b) => b.energy - a.energy);
+
+    res.json({
+      success: true,
+      count: events.length,
+      data: {
+        period: range,
+        readings: readings.length,
+        events,
+        devices: devicesSummary
       }
     });
   } catch (error) {
@@ -132,6 +265,7 @@ export const getDeviceBreakdown = async (req, res, next) => {
 export const getCarbonTrend = async (req, res, next) => {
   try {
     const userId = req.user._id;
+    const timeZone = getUserTimezone(req.user);
     const sixMonthsAgo = new Date();
     sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
 
@@ -145,7 +279,7 @@ export const getCarbonTrend = async (req, res, next) => {
       },
       {
         $group: {
-          _id: { $dateToString: { format: '%Y-%m', date: '$timestamp' } },
+          _id: { $dateToString: { format: '%Y-%m', date: '$timestamp', timezone: timeZone } },
           usage: { $sum: '$usage' }
         }
       },
@@ -172,13 +306,13 @@ export const getDashboardStats = async (req, res, next) => {
   try {
     const userId = req.user._id;
     const now = new Date();
+    const timeZone = getUserTimezone(req.user);
     
-    // Today stats
-    const today = new Date(now);
-    today.setHours(0, 0, 0, 0);
-    
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
+    // Today stats, measured from local midnight in the user's timezone
+    const today = startOfZonedDay(now, timeZone);
+    const yesterday = startOfZonedDay(now, timeZone, -1);
+
+    const period = getBillingPeriod(now, getPeriodOptions(req.user));
 
     const [todayStats, yesterdayStats, monthStats, activeDevices] = await Promise.all([
       EnergyReading.aggregate([
@@ -194,7 +328,7 @@ export const getDashboardStats = async (req, res, next) => {
           $match: { 
             userId: new mongoose.Types.ObjectId(userId), 
             deviceId: null, 
-            timestamp: { $gte: new Date(now.getFullYear(), now.getMonth(), 1) } 
+            timestamp: { $gte: period.start, $lt: period.end } 
           } 
         },
         { $group: { _id: null, cost: { $sum: '$cost' } } }
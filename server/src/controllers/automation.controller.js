@@ -0,0 +1,199 @@
+import AutomationRule from '../models/AutomationRule.model.js';
+import AutomationRun from '../models/AutomationRun.model.js';
+import Device from '../models/Device.model.js';
+import { runRule } from '../utils/automation.js';
+import { createAutomationSchema, updateAutomationSchema } from '../validators/automation.validator.js';
+
+const MAX_RUNS = 100;
+
+// Every device a rule refers to must belong to the user
+const ownsReferencedDevices = async (userId, { trigger, conditions = [], actions = [] }) => {
+  const ids = [trigger, ...conditions, ...actions]
+    .map(part => part?.deviceId)
+    .filter(Boolean);
+  const unique = [...new Set(ids.map(String))];
+  if (!unique.length) return true;
+
+  const count = await Device.countDocuments({ _id: { $in: unique }, userId });
+  return count === unique.length;
+};
+
+const runLimit = (limit) => Math.min(parseInt(limit) || 50, MAX_RUNS);
+
+export const getAutomations = async (req, res, next) => {
+  try {
+    const rules = await AutomationRule.find({ userId: req.user._id }).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: rules.length,
+      data: { rules }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAutomation = async (req, res, next) => {
+  try {
+    const rule = await AutomationRule.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Automation not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { rule }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createAutomation = async (req, res, next) => {
+  try {
+    // Only the rule's own fields; run state is kept by the server
+    const fields = createAutomationSchema.parse(req.body);
+
+    if (!(await ownsReferencedDevices(req.user._id, fields))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found'
+      });
+    }
+
+    const rule = await AutomationRule.create({
+      ...fields,
+      userId: req.user._id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Automation created successfully',
+      data: { rule }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateAutomation = async (req, res, next) => {
+  try {
+    const rule = await AutomationRule.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Automation not found'
+      });
+    }
+
+    const changes = updateAutomationSchema.parse(req.body);
+    const merged = {
+      trigger: changes.trigger || rule.trigger,
+      conditions: changes.conditions || rule.conditions,
+      actions: changes.actions || rule.actions
+    };
+    if (!(await ownsReferencedDevices(req.user._id, merged))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found'
+      });
+    }
+
+    rule.set(changes);
+    // A changed or re-enabled rule starts over, so a trigger that already
+    // holds fires on the next evaluation
+    if (changes.trigger || changes.isEnabled) rule.triggerMatched = false;
+    await rule.save();
+
+    res.json({
+      success: true,
+      message: 'Automation updated successfully',
+      data: { rule }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteAutomation = async (req, res, next) => {
+  try {
+    const rule = await AutomationRule.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Automation not found'
+      });
+    }
+
+    await AutomationRun.deleteMany({ ruleId: rule._id });
+
+    res.json({
+      success: true,
+      message: 'Automation deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Run a rule's actions immediately, ignoring its trigger and conditions
+export const runAutomation = async (req, res, next) => {
+  try {
+    const rule = await AutomationRule.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Automation not found'
+      });
+    }
+
+    const run = await runRule(req.app.get('io'), rule, { triggeredBy: 'manual' });
+
+    res.json({
+      success: true,
+      message: run.status === 'success' ? 'Automation ran successfully' : `Automation run ${run.status}`,
+      data: { run, rule }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAutomationRuns = async (req, res, next) => {
+  try {
+    const filter = { userId: req.user._id };
+    if (req.params.id) filter.ruleId = req.params.id;
+
+    const runs = await AutomationRun.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(runLimit(req.query.limit));
+
+    res.json({
+      success: true,
+      count: runs.length,
+      data: { runs }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
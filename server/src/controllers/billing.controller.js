@@ -1,71 +1,51 @@
-import mongoose from 'mongoose';
 import Bill from '../models/Bill.model.js';
-import EnergyReading from '../models/EnergyReading.model.js';
 import User from '../models/User.model.js';
-
-const monthNames = [
-  'January', 'February', 'March', 'April', 'May', 'June',
-  'July', 'August', 'September', 'October', 'November', 'December'
-];
+import { buildBill, createMonthlyBill, getDueDate, getPeriodUsage } from '../utils/billing.js';
+import { DEFAULT_BUDGET, getBudgetSummary, getBudgetThresholds, getCrossedThresholds } from '../utils/budget.js';
+import {
+  monthNames,
+  getBillingPeriod,
+  getPeriodOptions,
+  shiftPeriod,
+  toPeriodSummary
+} from '../utils/billingPeriod.js';
+import { recordPaymentSchema } from '../validators/billing.validator.js';
 
 export const getCurrentBill = async (req, res, next) => {
   try {
     const userId = req.user._id;
-    const now = new Date();
-    const currentMonth = monthNames[now.getMonth()];
-    const currentYear = now.getFullYear();
+    const period = getBillingPeriod(new Date(), getPeriodOptions(req.user));
 
     let bill = await Bill.findOne({
       userId,
-      month: currentMonth,
-      year: currentYear
+      month: period.month,
+      year: period.year
     });
 
     // If no bill exists, calculate from readings
     if (!bill) {
-      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      
-      const stats = await EnergyReading.aggregate([
-        {
-          $match: {
-            userId: new mongoose.Types.ObjectId(userId),
-            deviceId: null,
-            timestamp: { $gte: monthStart }
-          }
-        },
-        {
-          $group: {
-            _id: null,
-            units: { $sum: '$usage' },
-            cost: { $sum: '$cost' },
-            solar: { $sum: '$solarGeneration' }
-          }
-        }
-      ]);
+      const charges = await buildBill(userId, period.start, period.end);
 
-      const dueDate = new Date(now.getFullYear(), now.getMonth() + 1, 15);
-      
       bill = {
-        month: currentMonth,
-        year: currentYear,
-        amount: stats[0]?.cost || 0,
-        unitsConsumed: stats[0]?.units || 0,
-        solarCredits: stats[0]?.solar || 0,
+        month: period.month,
+        year: period.year,
+        periodStart: period.start,
+        periodEnd: period.end,
+        ...charges,
         status: 'pending',
-        dueDate,
+        dueDate: getDueDate(period),
         savings: 0
       };
     }
 
-    // Get user's monthly budget
-    const user = await User.findById(userId);
-    const budget = user?.settings?.monthlyBudget || 5000;
+    const budget = req.user.settings?.monthlyBudget ?? DEFAULT_BUDGET;
     const percentage = budget > 0 ? Math.min((bill.amount / budget) * 100, 100) : 0;
 
     res.json({
       success: true,
       data: {
         bill,
+        period: toPeriodSummary(period),
         budget: {
           limit: budget,
           used: bill.amount,
@@ -84,9 +64,15 @@ export const getBillHistory = async (req, res, next) => {
     const userId = req.user._id;
     const { limit = 12 } = req.query;
 
-    const bills = await Bill.find({ userId })
-      .sort({ year: -1, month: -1 })
-      .limit(parseInt(limit));
+    // Months are stored by name, so sort on their calendar position instead
+    const docs = await Bill.aggregate([
+      { $match: { userId } },
+      { $addFields: { monthIndex: { $indexOfArray: [monthNames, '$month'] } } },
+      { $sort: { year: -1, monthIndex: -1 } },
+      { $limit: parseInt(limit) },
+      { $project: { monthIndex: 0 } }
+    ]);
+    const bills = docs.map(doc => Bill.hydrate(doc));
 
     res.json({
       success: true,
@@ -98,49 +84,60 @@ export const getBillHistory = async (req, res, next) => {
   }
 };
 
+export const getBill = async (req, res, next) => {
+  try {
+    const bill = await Bill.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!bill) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bill not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { bill }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getBudgetStatus = async (req, res, next) => {
   try {
     const userId = req.user._id;
     const user = await User.findById(userId);
-    const budget = user?.settings?.monthlyBudget || 5000;
+    const budget = user?.settings?.monthlyBudget || DEFAULT_BUDGET;
     const threshold = user?.settings?.alertThreshold || 80;
+    const thresholds = getBudgetThresholds(user);
 
     const now = new Date();
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-
-    const stats = await EnergyReading.aggregate([
-      {
-        $match: {
-          userId: new mongoose.Types.ObjectId(userId),
-          deviceId: null,
-          timestamp: { $gte: monthStart }
-        }
-      },
-      {
-        $group: {
-          _id: null,
-          spent: { $sum: '$cost' }
-        }
-      }
-    ]);
+    const period = getBillingPeriod(now, getPeriodOptions(user));
+    const { cost: spent } = await getPeriodUsage(userId, period.start, period.end);
 
-    const spent = stats[0]?.spent || 0;
-    const percentage = budget > 0 ? (spent / budget) * 100 : 0;
-    const remaining = Math.max(0, budget - spent);
-    const projectedMonthly = (spent / now.getDate()) * 30;
+    // Project the spend rate so far across the actual length of the period
+    const summary = getBudgetSummary({ budget, spent, period, now });
 
     res.json({
       success: true,
       data: {
         budget,
         spent: spent.toFixed(2),
-        remaining: remaining.toFixed(2),
-        percentage: percentage.toFixed(1),
+        remaining: summary.remaining.toFixed(2),
+        percentage: summary.percentage.toFixed(1),
         threshold,
-        alertTriggered: percentage >= threshold,
-        projectedMonthly: projectedMonthly.toFixed(2),
-        daysElapsed: now.getDate(),
-        daysInMonth: new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate()
+        alertTriggered: summary.percentage >= threshold,
+        thresholds,
+        crossedThresholds: getCrossedThresholds(summary.percentage, thresholds),
+        projectedMonthly: summary.projected.toFixed(2),
+        projectedOverspend: summary.projectedOverspend.toFixed(2),
+        daysElapsed: Math.ceil(summary.elapsed),
+        daysInMonth: period.days,
+        period: toPeriodSummary(period)
       }
     });
   } catch (error) {
@@ -151,26 +148,18 @@ export const getBudgetStatus = async (req, res, next) => {
 export const getSavings = async (req, res, next) => {
   try {
     const userId = req.user._id;
-    const now = new Date();
-    
-    // Get current and previous month data
-    const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-    const prevMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-    const prevMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
+
+    // Compare the current billing period with the whole of the previous one
+    const period = getBillingPeriod(new Date(), getPeriodOptions(req.user));
+    const prevPeriod = shiftPeriod(period, -1);
 
     const [currentStats, prevStats] = await Promise.all([
-      EnergyReading.aggregate([
-        { $match: { userId: new mongoose.Types.ObjectId(userId), deviceId: null, timestamp: { $gte: currentMonthStart } } },
-        { $group: { _id: null, cost: { $sum: '$cost' }, usage: { $sum: '$usage' } } }
-      ]),
-      EnergyReading.aggregate([
-        { $match: { userId: new mongoose.Types.ObjectId(userId), deviceId: null, timestamp: { $gte: prevMonthStart, $lt: prevMonthEnd } } },
-        { $group: { _id: null, cost: { $sum: '$cost' }, usage: { $sum: '$usage' } } }
-      ])
+      getPeriodUsage(userId, period.start, period.end),
+      getPeriodUsage(userId, prevPeriod.start, prevPeriod.end)
     ]);
 
-    const currentCost = currentStats[0]?.cost || 0;
-    const prevCost = prevStats[0]?.cost || 0;
+    const currentCost = currentStats.cost;
+    const prevCost = prevStats.cost;
     
     const savings = prevCost - currentCost;
     const savingsPercentage = prevCost > 0 ? ((savings / prevCost) * 100).toFixed(1) : 0;
@@ -180,15 +169,17 @@ export const getSavings = async (req, res, next) => {
       data: {
         currentMonth: {
           cost: currentCost.toFixed(2),
-          usage: (currentStats[0]?.usage || 0).toFixed(2)
+          usage: currentStats.units.toFixed(2)
         },
         previousMonth: {
           cost: prevCost.toFixed(2),
-          usage: (prevStats[0]?.usage || 0).toFixed(2)
+          usage: prevStats.units.toFixed(2)
         },
         savings: savings.toFixed(2),
         savingsPercentage: parseFloat(savingsPercentage),
-        isSaving: savings > 0
+        isSaving: savings > 0,
+        period: toPeriodSummary(period),
+        previousPeriod: toPeriodSummary(prevPeriod)
       }
     });
   } catch (error) {
@@ -201,74 +192,113 @@ export const generateBill = async (req, res, next) => {
     const { month, year } = req.body;
     const userId = req.user._id;
 
-    // Check if bill already exists
-    const existing = await Bill.findOne({ userId, month, year });
-    if (existing) {
+    const monthIndex = monthNames.indexOf(month);
+    if (monthIndex === -1 || !Number.isInteger(year)) {
       return res.status(400).json({
         success: false,
-        message: 'Bill already exists for this month'
+        message: 'Valid month name and year are required'
       });
     }
 
-    const monthIndex = monthNames.indexOf(month);
-    const monthStart = new Date(year, monthIndex, 1);
-    const monthEnd = new Date(year, monthIndex + 1, 0);
-
-    const stats = await EnergyReading.aggregate([
-      {
-        $match: {
-          userId: new mongoose.Types.ObjectId(userId),
-          deviceId: null,
-          timestamp: { $gte: monthStart, $lte: monthEnd }
-        }
-      },
-      {
-        $group: {
-          _id: null,
-          units: { $sum: '$usage' },
-          cost: { $sum: '$cost' },
-          solar: { $sum: '$solarGeneration' }
-        }
-      }
-    ]);
+    const { status, bill } = await createMonthlyBill(userId, year, monthIndex, {
+      periodOptions: getPeriodOptions(req.user)
+    });
+    if (status === 'exists') {
+      return res.status(400).json({
+        success: false,
+        message: 'Bill already exists for this month'
+      });
+    }
 
-    // Calculate previous month for savings comparison
-    const prevMonthStart = new Date(year, monthIndex - 1, 1);
-    const prevMonthEnd = new Date(year, monthIndex, 0);
-    
-    const prevStats = await EnergyReading.aggregate([
-      {
-        $match: {
-          userId: new mongoose.Types.ObjectId(userId),
-          deviceId: null,
-          timestamp: { $gte: prevMonthStart, $lt: prevMonthEnd }
-        }
-      },
-      { $group: { _id: null, cost: { $sum: '$cost' } } }
-    ]);
+    res.status(201).json({
+      success: true,
+      message: 'Bill generated successfully',
+      data: { bill }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    const amount = stats[0]?.cost || 0;
-    const prevAmount = prevStats[0]?.cost || 0;
-    const savings = prevAmount - amount;
+export const recordPayment = async (req, res, next) => {
+  try {
+    const { amount, method, reference, paidAt } = recordPaymentSchema.parse(req.body);
 
-    const bill = await Bill.create({
-      userId,
-      month,
-      year,
-      amount,
-      unitsConsumed: stats[0]?.units || 0,
-      solarCredits: stats[0]?.solar || 0,
-      status: 'pending',
-      dueDate: new Date(year, monthIndex + 1, 15),
-      savings: savings > 0 ? savings : 0
+    const bill = await Bill.findOne({
+      _id: req.params.id,
+      userId: req.user._id
     });
 
+    if (!bill) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bill not found'
+      });
+    }
+
+    if (bill.status === 'paid') {
+      return res.status(400).json({
+        success: false,
+        message: 'Bill is already paid'
+      });
+    }
+
+    // Allow for paise rounding, as when settling below
+    const balance = bill.amount - bill.amountPaid;
+    if (amount > balance + 0.01) {
+      return res.status(400).json({
+        success: false,
+        message: `Payment exceeds the outstanding balance of ₹${balance.toFixed(2)}`
+      });
+    }
+
+    const paymentDate = paidAt ? new Date(paidAt) : new Date();
+    bill.payments.push({ amount, method, reference: reference || null, paidAt: paymentDate });
+
+    // Settle the bill once payments cover the amount (allowing for paise rounding)
+    if (bill.amountPaid >= bill.amount - 0.01) {
+      bill.status = 'paid';
+      bill.paidDate = paymentDate;
+    }
+
+    await bill.save();
+
     res.status(201).json({
       success: true,
-      message: 'Bill generated successfully',
+      message: bill.status === 'paid' ? 'Bill paid in full' : 'Partial payment recorded',
       data: { bill }
     });
   } catch (error) {
     next(error);
   }
 };
+
+export const getPayments = async (req, res, next) => {
+  try {
+    const bill = await Bill.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!bill) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bill not found'
+      });
+    }
+
+    const payments = [...bill.payments].sort((a, b) => b.paidAt - a.paidAt);
+
+    res.json({
+      success: true,
+      count: payments.length,
+      data: {
+        payments,
+        amountPaid: bill.amountPaid,
+        balance: Math.max(0, bill.amount - bill.amountPaid)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,5 +1,11 @@
+import { isValidObjectId } from 'mongoose';
 import Device from '../models/Device.model.js';
-import EnergyReading from '../models/EnergyReading.model.js';
+import { applyDeviceState } from '../utils/deviceControl.js';
+import { triggerAutomations } from '../utils/automation.js';
+import { getDeviceUsageStats } from '../utils/deviceStats.js';
+import { recordHeartbeat } from '../utils/deviceConnectivity.js';
+import { getUserTimezone, startOfZonedDay, startOfZonedHour } from '../utils/time.js';
+import { updateDeviceSchema } from '../validators/device.validator.js';
 
 export const getDevices = async (req, res, next) => {
   try {
@@ -70,9 +76,22 @@ export const createDevice = async (req, res, next) => {
 
 export const updateDevice = async (req, res, next) => {
   try {
+    // Only the editable fields; deletion, connectivity and estimation state
+    // are managed by the server
+    const changes = updateDeviceSchema.parse(req.body);
+
+    // Estimates for a device that loses its meter start from the current hour,
+    // so they never overlap its metered readings
+    if (changes.metered === false) {
+      await Device.updateOne(
+        { _id: req.params.id, userId: req.user._id, metered: true },
+        { estimatedThrough: startOfZonedHour(new Date(), getUserTimezone(req.user)) }
+      );
+    }
+
     const device = await Device.findOneAndUpdate(
       { _id: req.params.id, userId: req.user._id },
-      req.body,
+      changes,
       { new: true, runValidators: true }
     );
 
@@ -95,10 +114,12 @@ export const updateDevice = async (req, res, next) => {
 
 export const deleteDevice = async (req, res, next) => {
   try {
-    const device = await Device.findOneAndDelete({
-      _id: req.params.id,
-      userId: req.user._id
-    });
+    // Deletion is soft so it can be undone; the purge job removes it later
+    const device = await Device.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user._id },
+      { deletedAt: new Date() },
+      { new: true }
+    );
 
     if (!device) {
       return res.status(404).json({
@@ -109,26 +130,45 @@ export const deleteDevice = async (req, res, next) => {
 
     res.json({
       success: true,
-      message: 'Device deleted successfully'
+      message: 'Device deleted successfully',
+      data: { device }
     });
   } catch (error) {
     next(error);
   }
 };
 
-export const toggleDevice = async (req, res, next) => {
+export const restoreDevice = async (req, res, next) => {
   try {
-    const { status } = req.body;
-
     const device = await Device.findOneAndUpdate(
-      { _id: req.params.id, userId: req.user._id },
-      { 
-        status,
-        lastUsed: status ? new Date() : null
-      },
+      { _id: req.params.id, userId: req.user._id, deletedAt: { $ne: null } },
+      { deletedAt: null },
       { new: true }
     );
 
+    if (!device) {
+      return res.status(404).json({
+        success: false,
+        message: 'Deleted device not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Device restored',
+      data: { device }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const toggleDevice = async (req, res, next) => {
+  try {
+    const { status } = req.body;
+
+    const device = await Device.findOne({ _id: req.params.id, userId: req.user._id });
+
     if (!device) {
       return res.status(404).json({
         success: false,
@@ -136,13 +176,10 @@ export const toggleDevice = async (req, res, next) => {
       });
     }
 
-    // Emit socket event for real-time update
+    // Save, emit the real-time update and let automations react
     const io = req.app.get('io');
-    io.to(req.user._id.toString()).emit('device:status', {
-      deviceId: device._id,
-      status: device.status,
-      timestamp: new Date()
-    });
+    await applyDeviceState(io, device, { status });
+    triggerAutomations(io, req.user._id, { type: 'device', device });
 
     res.json({
       success: true,
@@ -158,11 +195,7 @@ export const setIntensity = async (req, res, next) => {
   try {
     const { intensity } = req.body;
 
-    const device = await Device.findOneAndUpdate(
-      { _id: req.params.id, userId: req.user._id },
-      { intensity },
-      { new: true }
-    );
+    const device = await Device.findOne({ _id: req.params.id, userId: req.user._id });
 
     if (!device) {
       return res.status(404).json({
@@ -171,6 +204,8 @@ export const setIntensity = async (req, res, next) => {
       });
     }
 
+    await applyDeviceState(req.app.get('io'), device, { intensity });
+
     res.json({
       success: true,
       message: 'Intensity updated',
@@ -181,6 +216,31 @@ export const setIntensity = async (req, res, next) => {
   }
 };
 
+// Called by a smart device (or its hub) to report that it is alive
+export const recordDeviceHeartbeat = async (req, res, next) => {
+  try {
+    const device = await recordHeartbeat(req.app.get('io'), req.user._id, req.params.id);
+
+    if (!device) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        deviceId: device._id,
+        lastSeenAt: device.lastSeenAt,
+        connectivity: device.connectivity
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getRooms = async (req, res, next) => {
   try {
     const rooms = await Device.distinct('room', { userId: req.user._id });
@@ -197,35 +257,162 @@ export const getRooms = async (req, res, next) => {
 export const getDeviceStats = async (req, res, next) => {
   try {
     const { id } = req.params;
-    const { days = 7 } = req.query;
+    const days = Math.min(Math.max(parseInt(req.query.days) || 7, 1), 90);
 
-    const fromDate = new Date();
-    fromDate.setDate(fromDate.getDate() - parseInt(days));
+    const device = await Device.findOne({ _id: id, userId: req.user._id });
+    if (!device) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found'
+      });
+    }
 
-    const stats = await EnergyReading.aggregate([
-      {
-        $match: {
-          userId: req.user._id,
-          deviceId: new mongoose.Types.ObjectId(id),
-          timestamp: { $gte: fromDate }
-        }
-      },
-      {
-        $group: {
-          _id: null,
-          totalUsage: { $sum: '$usage' },
-          totalCost: { $sum: '$cost' },
-          avgDaily: { $avg: '$usage' },
-          readings: { $sum: 1 }
-        }
-      }
-    ]);
+    // `days` local days ending now: 1 is today so far, 7 is today plus the six before it
+    const timeZone = getUserTimezone(req.user);
+    const to = new Date();
+    const from = startOfZonedDay(to, timeZone, -(days - 1));
+    const usage = await getDeviceUsageStats(req.user._id, device._id, { from, to, timeZone });
 
     res.json({
       success: true,
-      data: { stats: stats[0] || { totalUsage: 0, totalCost: 0, avgDaily: 0, readings: 0 } }
+      data: {
+        stats: {
+          deviceId: device._id,
+          days,
+          from,
+          to,
+          ...usage,
+          avgDailyUsage: usage.totalUsage / days,
+          avgDailyCost: usage.totalCost / days
+        }
+      }
     });
   } catch (error) {
     next(error);
   }
 };
+
+// Devices a bulk request targets: the listed ids or every device in a room.
+// Ids that don't match one of the user's devices are reported as missing.
+// With `deleted`, only soft-deleted devices are matched.
+const getBulkTargets = async (userId, { ids, room }, { deleted = false } = {}) => {
+  const filter = { userId, deletedAt: deleted ? { $ne: null } : null };
+  if (room) {
+    return { devices: await Device.find({ ...filter, room }), missing: [] };
+  }
+
+  const uniqueIds = [...new Set(ids)];
+  const devices = await Device.find({ ...filter, _id: { $in: uniqueIds.filter(id => isValidObjectId(id)) } });
+  const found = new Set(devices.map(d => d._id.toString()));
+  return { devices, missing: uniqueIds.filter(id => !found.has(id)) };
+};
+
+// Run an operation on each targeted device, recording how each one went
+const runBulk = async (userId, body, operation, options) => {
+  const { devices, missing } = await getBulkTargets(userId, body, options);
+
+  const results = missing.map(id => ({ deviceId: id, name: null, success: false, message: 'Device not found' }));
+  for (const device of devices) {
+    try {
+      await operation(device);
+      results.push({ deviceId: device._id, name: device.name, success: true });
+    } catch (error) {
+      results.push({ deviceId: device._id, name: device.name, success: false, message: error.message });
+    }
+  }
+  return results;
+};
+
+// Responds 207 when only some devices succeed and 400 when none do
+const sendBulkResults = (res, results, describe) => {
+  if (!results.length) {
+    return res.status(404).json({
+      success: false,
+      message: 'No devices found'
+    });
+  }
+
+  const succeeded = results.filter(r => r.success).length;
+  const failed = results.length - succeeded;
+  let status = 200;
+  if (failed) status = succeeded ? 207 : 400;
+
+  res.status(status).json({
+    success: failed === 0,
+    message: failed ? `${describe(succeeded)}; ${failed} failed` : describe(succeeded),
+    data: { results, succeeded, failed }
+  });
+};
+
+const deviceCount = (count) => `${count} device${count === 1 ? '' : 's'}`;
+
+export const bulkToggle = async (req, res, next) => {
+  try {
+    const { status } = req.body;
+    const io = req.app.get('io');
+
+    const results = await runBulk(req.user._id, req.body, async (device) => {
+      await applyDeviceState(io, device, { status });
+      triggerAutomations(io, req.user._id, { type: 'device', device });
+    });
+
+    sendBulkResults(res, results, count => `${deviceCount(count)} turned ${status ? 'on' : 'off'}`);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const bulkSetIntensity = async (req, res, next) => {
+  try {
+    const { intensity } = req.body;
+    const io = req.app.get('io');
+
+    const results = await runBulk(req.user._id, req.body, device => applyDeviceState(io, device, { intensity }));
+
+    sendBulkResults(res, results, count => `Intensity set to ${intensity}% on ${deviceCount(count)}`);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const bulkDelete = async (req, res, next) => {
+  try {
+    const deletedAt = new Date();
+    const results = await runBulk(req.user._id, req.body, (device) => {
+      device.deletedAt = deletedAt;
+      return device.save();
+    });
+
+    sendBulkResults(res, results, count => `${deviceCount(count)} deleted`);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const bulkMove = async (req, res, next) => {
+  try {
+    const targetRoom = req.body.targetRoom.trim();
+
+    const results = await runBulk(req.user._id, req.body, (device) => {
+      device.room = targetRoom;
+      return device.save();
+    });
+
+    sendBulkResults(res, results, count => `${deviceCount(count)} moved to ${targetRoom}`);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const bulkRestore = async (req, res, next) => {
+  try {
+    const results = await runBulk(req.user._id, req.body, (device) => {
+      device.deletedAt = null;
+      return device.save();
+    }, { deleted: true });
+
+    sendBulkResults(res, results, count => `${deviceCount(count)} restored`);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,6 +1,9 @@
 import mongoose from 'mongoose';
 import EnergyReading from '../models/EnergyReading.model.js';
 import Device from '../models/Device.model.js';
+import { getActiveTariff, getRateAt } from '../utils/tariff.js';
+import { getUserTimezone, getZonedParts, startOfZonedDay } from '../utils/time.js';
+import { ingestReading, ingestReadingBatch } from '../utils/ingest.js';
 
 export const getRealtimeUsage = async (req, res, next) => {
   try {
@@ -23,12 +26,14 @@ export const getRealtimeUsage = async (req, res, next) => {
     
     const totalPower = activeDevices.reduce((sum, d) => sum + d.powerRating, 0);
 
+    const tariff = await getActiveTariff(userId);
+
     res.json({
       success: true,
       data: {
         currentUsage: latestReading?.usage || 0,
         currentCost: latestReading?.cost || 0,
-        rate: latestReading?.rate || 6,
+        rate: latestReading?.rate ?? getRateAt(tariff, new Date(), 0, getUserTimezone(req.user)),
         activeDevices: activeDevices.length,
         totalPower,
         timestamp: latestReading?.timestamp || new Date()
@@ -42,8 +47,9 @@ export const getRealtimeUsage = async (req, res, next) => {
 export const getTodayUsage = async (req, res, next) => {
   try {
     const userId = req.user._id;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const timeZone = getUserTimezone(req.user);
+    const now = new Date();
+    const today = startOfZonedDay(now, timeZone);
 
     const readings = await EnergyReading.aggregate([
       {
@@ -55,7 +61,7 @@ export const getTodayUsage = async (req, res, next) => {
       },
       {
         $group: {
-          _id: { $hour: '$timestamp' },
+          _id: { $hour: { date: '$timestamp', timezone: timeZone } },
           usage: { $sum: '$usage' },
           cost: { $sum: '$cost' }
         }
@@ -63,9 +69,10 @@ export const getTodayUsage = async (req, res, next) => {
       { $sort: { _id: 1 } }
     ]);
 
-    // Format for chart (fill missing hours)
+    // Format for chart (fill missing hours up to the user's current local hour)
     const hourlyData = [];
-    for (let i = 0; i <= new Date().getHours(); i++) {
+    const currentHour = getZonedParts(now, timeZone).hour;
+    for (let i = 0; i <= currentHour; i++) {
       const reading = readings.find(r => r._id === i);
       hourlyData.push({
         time: `${i.toString().padStart(2, '0')}:00`,
@@ -86,8 +93,9 @@ export const getTodayUsage = async (req, res, next) => {
 export const getWeeklyUsage = async (req, res, next) => {
   try {
     const userId = req.user._id;
-    const weekAgo = new Date();
-    weekAgo.setDate(weekAgo.getDate() - 7);
+    const timeZone = getUserTimezone(req.user);
+    // Today plus the six local days before it
+    const weekAgo = startOfZonedDay(new Date(), timeZone, -6);
 
     const readings = await EnergyReading.aggregate([
       {
@@ -99,7 +107,7 @@ export const getWeeklyUsage = async (req, res, next) => {
       },
       {
         $group: {
-          _id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp' } },
+          _id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp', timezone: timeZone } },
           usage: { $sum: '$usage' },
           cost: { $sum: '$cost' },
           solar: { $sum: '$solarGeneration' }
@@ -110,7 +118,7 @@ export const getWeeklyUsage = async (req, res, next) => {
 
     const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
     const weeklyData = readings.map(r => ({
-      day: days[new Date(r._id).getDay()],
+      day: days[new Date(`${r._id}T00:00:00Z`).getUTCDay()],
       date: r._id,
       usage: r.usage,
       cost: r.cost,
@@ -129,6 +137,7 @@ export const getWeeklyUsage = async (req, res, next) => {
 export const getMonthlyUsage = async (req, res, next) => {
   try {
     const userId = req.user._id;
+    const timeZone = getUserTimezone(req.user);
     const yearAgo = new Date();
     yearAgo.setFullYear(yearAgo.getFullYear() - 1);
 
@@ -142,7 +151,7 @@ export const getMonthlyUsage = async (req, res, next) => {
       },
       {
         $group: {
-          _id: { $dateToString: { format: '%Y-%m', date: '$timestamp' } },
+          _id: { $dateToString: { format: '%Y-%m', date: '$timestamp', timezone: timeZone } },
           usage: { $sum: '$usage' },
           cost: { $sum: '$cost' },
           solar: { $sum: '$solarGeneration' }
@@ -198,26 +207,8 @@ export const getRangeData = async (req, res, next) => {
 
 export const addReading = async (req, res, next) => {
   try {
-    const { deviceId, usage, cost, rate, solarGeneration } = req.body;
-    const userId = req.user._id;
-
-    const reading = await EnergyReading.create({
-      userId,
-      deviceId: deviceId || null,
-      usage,
-      cost,
-      rate,
-      solarGeneration: solarGeneration || 0
-    });
-
-    // Emit real-time update
-    const io = req.app.get('io');
-    io.to(userId.toString()).emit('energy:update', {
-      usage,
-      cost,
-      timestamp: reading.timestamp,
-      deviceId
-    });
+    const { deviceId, usage, register, solarGeneration } = req.body;
+    const reading = await ingestReading(req.app.get('io'), req.user, { deviceId, usage, register, solarGeneration });
 
     res.status(201).json({
       success: true,
@@ -227,3 +218,31 @@ export const addReading = async (req, res, next) => {
     next(error);
   }
 };
+
+const sendBatchResult = (res, result) => {
+  if (!result.accepted) {
+    return res.status(400).json({
+      success: false,
+      message: 'No valid readings',
+      data: result
+    });
+  }
+
+  res.json({
+    success: true,
+    message: `${result.accepted} readings stored${result.rejected ? `, ${result.rejected} rejected` : ''}`,
+    data: result
+  });
+};
+
+// Many readings with their own timestamps, e.g. uploaded by a gateway. Also
+// serves the ingest route, where the API key decides the device.
+export const addReadingBatch = async (req, res, next) => {
+  try {
+    const options = req.ingestKey ? { deviceId: req.ingestKey.deviceId } : {};
+    const result = await ingestReadingBatch(req.app.get('io'), req.user, req.body.readings, options);
+    sendBatchResult(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
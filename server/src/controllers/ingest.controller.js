@@ -0,0 +1,21 @@
+import { ingestReading } from '../utils/ingest.js';
+
+// A reading from a meter or gateway authenticated by its ingest key
+export const addIngestReading = async (req, res, next) => {
+  try {
+    const { usage, register, solarGeneration } = req.body;
+    const reading = await ingestReading(req.app.get('io'), req.user, {
+      deviceId: req.ingestKey.deviceId,
+      usage,
+      register,
+      solarGeneration
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { reading }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
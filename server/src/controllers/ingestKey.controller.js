@@ -0,0 +1,100 @@
+import IngestKey from '../models/IngestKey.model.js';
+import Device from '../models/Device.model.js';
+import { generateIngestKey } from '../utils/ingestKeys.js';
+
+export const getIngestKeys = async (req, res, next) => {
+  try {
+    const keys = await IngestKey.find({ userId: req.user._id, revokedAt: null }).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: keys.length,
+      data: { keys }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// The key itself is only returned here; afterwards just its prefix is known
+export const createIngestKey = async (req, res, next) => {
+  try {
+    const { name, deviceId } = req.body;
+
+    if (deviceId && !(await Device.exists({ _id: deviceId, userId: req.user._id }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found'
+      });
+    }
+
+    const { key, keyHash, prefix } = generateIngestKey();
+    const ingestKey = await IngestKey.create({
+      userId: req.user._id,
+      deviceId: deviceId || null,
+      name,
+      keyHash,
+      prefix
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Ingest key created. Copy it now; it will not be shown again.',
+      data: { key, ingestKey }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the key's secret, keeping its id (and so its MQTT topic). The old
+// key stops working at once; the new one is only returned here.
+export const rotateIngestKey = async (req, res, next) => {
+  try {
+    const { key, keyHash, prefix } = generateIngestKey();
+    const ingestKey = await IngestKey.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user._id, revokedAt: null },
+      { keyHash, prefix },
+      { new: true }
+    );
+
+    if (!ingestKey) {
+      return res.status(404).json({
+        success: false,
+        message: 'Ingest key not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Ingest key rotated. Copy it now; it will not be shown again.',
+      data: { key, ingestKey }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeIngestKey = async (req, res, next) => {
+  try {
+    const ingestKey = await IngestKey.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user._id, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true }
+    );
+
+    if (!ingestKey) {
+      return res.status(404).json({
+        success: false,
+        message: 'Ingest key not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Ingest key revoked'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,214 @@
+import Scene from '../models/Scene.model.js';
+import Device from '../models/Device.model.js';
+import { applyDeviceStates } from '../utils/deviceControl.js';
+import { triggerAutomations } from '../utils/automation.js';
+import { updateSceneSchema } from '../validators/scene.validator.js';
+
+// Every device in a scene must belong to the user
+const ownsDevices = async (userId, devices) => {
+  const count = await Device.countDocuments({
+    _id: { $in: devices.map(d => d.deviceId) },
+    userId
+  });
+  return count === devices.length;
+};
+
+const sceneExists = (userId, name, excludeId) =>
+  Scene.exists({ userId, name, ...(excludeId && { _id: { $ne: excludeId } }) });
+
+export const getScenes = async (req, res, next) => {
+  try {
+    const scenes = await Scene.find({ userId: req.user._id }).sort({ createdAt: 1 });
+
+    res.json({
+      success: true,
+      count: scenes.length,
+      data: { scenes }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getScene = async (req, res, next) => {
+  try {
+    const scene = await Scene.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!scene) {
+      return res.status(404).json({
+        success: false,
+        message: 'Scene not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { scene }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createScene = async (req, res, next) => {
+  try {
+    const { name, icon, devices } = req.body;
+
+    if (await sceneExists(req.user._id, name)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A scene with this name already exists'
+      });
+    }
+
+    if (!(await ownsDevices(req.user._id, devices))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found'
+      });
+    }
+
+    const scene = await Scene.create({
+      userId: req.user._id,
+      name,
+      icon,
+      devices
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Scene created successfully',
+      data: { scene }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateScene = async (req, res, next) => {
+  try {
+    const scene = await Scene.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!scene) {
+      return res.status(404).json({
+        success: false,
+        message: 'Scene not found'
+      });
+    }
+
+    const changes = updateSceneSchema.parse(req.body);
+    const { name, devices } = changes;
+
+    if (name && await sceneExists(req.user._id, name, scene._id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A scene with this name already exists'
+      });
+    }
+
+    if (devices && !(await ownsDevices(req.user._id, devices))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found'
+      });
+    }
+
+    scene.set(changes);
+    await scene.save();
+
+    res.json({
+      success: true,
+      message: 'Scene updated successfully',
+      data: { scene }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteScene = async (req, res, next) => {
+  try {
+    const scene = await Scene.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!scene) {
+      return res.status(404).json({
+        success: false,
+        message: 'Scene not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Scene deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Put every device in the scene into its target state. All devices are
+// checked before anything is written, so a scene with a missing device
+// changes nothing. The changes go out in one bulk write, which is not a
+// transaction: a database failure partway can leave some applied.
+export const activateScene = async (req, res, next) => {
+  try {
+    const scene = await Scene.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!scene) {
+      return res.status(404).json({
+        success: false,
+        message: 'Scene not found'
+      });
+    }
+
+    const devices = await Device.find({
+      _id: { $in: scene.devices.map(d => d.deviceId) },
+      userId: req.user._id
+    }).setOptions({ withDeleted: true });
+    const byId = new Map(devices.map(d => [d._id.toString(), d]));
+
+    if (byId.size !== scene.devices.length) {
+      return res.status(409).json({
+        success: false,
+        message: 'Some devices in this scene no longer exist'
+      });
+    }
+
+    // Devices waiting to be purged keep their place in the scene in case
+    // they are restored, but are left alone
+    const io = req.app.get('io');
+    const changed = await applyDeviceStates(io, scene.devices
+      .map(target => ({
+        device: byId.get(target.deviceId.toString()),
+        status: target.status,
+        intensity: target.intensity ?? undefined
+      }))
+      .filter(({ device }) => !device.deletedAt), 'scene');
+
+    scene.lastActivatedAt = new Date();
+    await scene.save();
+
+    changed.forEach(device => triggerAutomations(io, req.user._id, { type: 'device', device }));
+
+    res.json({
+      success: true,
+      message: `${scene.name} activated`,
+      count: changed.length,
+      data: { scene, devices: changed }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
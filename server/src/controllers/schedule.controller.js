@@ -0,0 +1,296 @@
+import Schedule from '../models/Schedule.model.js';
+import Device from '../models/Device.model.js';
+import { getNextTransition } from '../utils/schedule.js';
+import { getActiveTariff } from '../utils/tariff.js';
+import { getPeriodUsage } from '../utils/billing.js';
+import { getBillingPeriod, getPeriodOptions } from '../utils/billingPeriod.js';
+import { findCheapestWindow, getSolarSurplusProfile } from '../utils/smartRun.js';
+import { getUserTimezone } from '../utils/time.js';
+import { updateScheduleSchema } from '../validators/schedule.validator.js';
+
+const MINUTE_MS = 60 * 1000;
+
+// How far ahead the cheapest-run planner will look for a window
+const MAX_PLAN_HOURS = 48;
+
+// Schedules are returned with their next on/off transition for display
+const withNextRun = (schedule, user, now = new Date()) => {
+  const next = getNextTransition(schedule, now, getUserTimezone(user));
+  return {
+    ...schedule.toObject(),
+    nextRunAt: next?.at || null,
+    nextAction: next?.action || null
+  };
+};
+
+export const getSchedules = async (req, res, next) => {
+  try {
+    const { deviceId } = req.query;
+
+    const filter = { userId: req.user._id };
+    if (deviceId) filter.deviceId = deviceId;
+
+    const schedules = await Schedule.find(filter).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: schedules.length,
+      data: { schedules: schedules.map(s => withNextRun(s, req.user)) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSchedule = async (req, res, next) => {
+  try {
+    const schedule = await Schedule.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Schedule not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { schedule: withNextRun(schedule, req.user) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createSchedule = async (req, res, next) => {
+  try {
+    const { deviceId, name, type, intensity, isActive } = req.body;
+    const now = new Date();
+
+    const device = await Device.findOne({ _id: deviceId, userId: req.user._id });
+    if (!device) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found'
+      });
+    }
+
+    const fields = {
+      userId: req.user._id,
+      deviceId,
+      name: name || null,
+      type,
+      intensity: intensity ?? device.intensity,
+      isActive: isActive !== undefined ? isActive : true,
+      lastTriggeredAt: now
+    };
+
+    if (type === 'recurring') {
+      const { daysOfWeek, startTime, endTime } = req.body;
+      Object.assign(fields, { daysOfWeek, startTime, endTime: endTime || null });
+    } else {
+      const { action, runAt, delayMinutes } = req.body;
+      const runTime = runAt ? new Date(runAt) : new Date(now.getTime() + delayMinutes * MINUTE_MS);
+
+      if (runTime <= now) {
+        return res.status(400).json({
+          success: false,
+          message: 'Timer must be set for a future time'
+        });
+      }
+      Object.assign(fields, { action, runAt: runTime });
+    }
+
+    const schedule = await Schedule.create(fields);
+
+    res.status(201).json({
+      success: true,
+      message: 'Schedule created successfully',
+      data: { schedule: withNextRun(schedule, req.user, now) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateSchedule = async (req, res, next) => {
+  try {
+    const schedule = await Schedule.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Schedule not found'
+      });
+    }
+
+    const now = new Date();
+    // Only the editable fields; the owner, device and type never change
+    const { runAt, ...changes } = updateScheduleSchema.parse(req.body);
+
+    if (schedule.type === 'timer') {
+      if (runAt) {
+        if (new Date(runAt) <= now) {
+          return res.status(400).json({
+            success: false,
+            message: 'Timer must be set for a future time'
+          });
+        }
+        schedule.runAt = new Date(runAt);
+        schedule.completedAt = null;
+      } else if (changes.isActive && schedule.completedAt) {
+        return res.status(400).json({
+          success: false,
+          message: 'Timer has already run; set a new time to reuse it'
+        });
+      }
+    }
+
+    schedule.set(changes);
+    // Edits take effect from now on rather than replaying earlier transitions
+    schedule.lastTriggeredAt = now;
+    await schedule.save();
+
+    res.json({
+      success: true,
+      message: 'Schedule updated successfully',
+      data: { schedule: withNextRun(schedule, req.user, now) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteSchedule = async (req, res, next) => {
+  try {
+    const schedule = await Schedule.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Schedule not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Schedule deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Work out the cheapest window for a run request. Returns { error } with a
+// status and message when the request cannot be planned.
+const planRun = async (req, now = new Date()) => {
+  const { deviceId, durationMinutes, deadline, intensity } = req.body;
+  const deadlineDate = new Date(deadline);
+
+  if (deadlineDate - now > MAX_PLAN_HOURS * 60 * MINUTE_MS) {
+    return { error: { status: 400, message: `Deadline must be within ${MAX_PLAN_HOURS} hours` } };
+  }
+
+  const device = await Device.findOne({ _id: deviceId, userId: req.user._id });
+  if (!device) {
+    return { error: { status: 404, message: 'Device not found' } };
+  }
+
+  const timeZone = getUserTimezone(req.user);
+  const tariff = await getActiveTariff(req.user._id);
+
+  // Block tariffs price by units already used this billing period
+  let unitsSoFar = 0;
+  if (tariff?.type === 'block') {
+    const period = getBillingPeriod(now, getPeriodOptions(req.user));
+    unitsSoFar = (await getPeriodUsage(req.user._id, period.start, period.end)).units;
+  }
+
+  const runIntensity = intensity ?? 100;
+  const plan = findCheapestWindow({
+    tariff,
+    loadKw: device.powerRating * runIntensity / 100,
+    durationMinutes,
+    deadline: deadlineDate,
+    now,
+    timeZone,
+    solarProfile: await getSolarSurplusProfile(req.user._id, timeZone, now),
+    unitsSoFar
+  });
+
+  if (!plan) {
+    return { error: { status: 400, message: 'Deadline is too soon to fit the run' } };
+  }
+
+  return { device, plan: { ...plan, deviceId: device._id, intensity: runIntensity, tariffName: tariff?.name || null } };
+};
+
+export const previewCheapestRun = async (req, res, next) => {
+  try {
+    const { error, plan } = await planRun(req);
+    if (error) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { plan }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const scheduleCheapestRun = async (req, res, next) => {
+  try {
+    const now = new Date();
+    const { error, device, plan } = await planRun(req, now);
+    if (error) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    const schedule = await Schedule.create({
+      userId: req.user._id,
+      deviceId: device._id,
+      name: req.body.name || `Cheapest run: ${device.name}`,
+      type: 'window',
+      runAt: plan.start,
+      endAt: plan.end,
+      intensity: plan.intensity,
+      plan: {
+        cost: plan.cost,
+        costNow: plan.costNow,
+        saving: plan.saving,
+        solarUnits: plan.solarUnits
+      },
+      // A window starting right now must still be picked up by the executor
+      lastTriggeredAt: null
+    });
+
+    res.status(201).json({
+      success: true,
+      message: plan.saving > 0
+        ? `Scheduled to save ₹${plan.saving.toFixed(2)}`
+        : 'Running now is already the cheapest option',
+      data: { schedule: withNextRun(schedule, req.user, now), plan }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
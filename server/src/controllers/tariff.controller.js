@@ -0,0 +1,175 @@
+import TariffSchedule from '../models/TariffSchedule.model.js';
+import { getActiveTariff, findSlab, setTariffActive } from '../utils/tariff.js';
+import { getUserTimezone } from '../utils/time.js';
+import { createTariffSchema, updateTariffSchema } from '../validators/tariff.validator.js';
+
+// Only one of a user's own schedules can be active at a time
+const deactivateOthers = async (userId, exceptId, now) => {
+  const others = await TariffSchedule.find({ userId, _id: { $ne: exceptId }, isActive: true });
+  await Promise.all(others.map(tariff => setTariffActive(tariff, false, now)));
+};
+
+export const getTariffs = async (req, res, next) => {
+  try {
+    const tariffs = await TariffSchedule.find({
+      $or: [{ userId: req.user._id }, { userId: null }]
+    }).sort({ userId: -1, createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: tariffs.length,
+      data: { tariffs }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getActive = async (req, res, next) => {
+  try {
+    const tariff = await getActiveTariff(req.user._id);
+
+    res.json({
+      success: true,
+      data: {
+        tariff,
+        currentSlab: findSlab(tariff, new Date(), getUserTimezone(req.user))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTariff = async (req, res, next) => {
+  try {
+    const tariff = await TariffSchedule.findOne({
+      _id: req.params.id,
+      $or: [{ userId: req.user._id }, { userId: null }]
+    });
+
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tariff not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { tariff }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createTariff = async (req, res, next) => {
+  try {
+    const { isActive = true, ...fields } = createTariffSchema.parse(req.body);
+    const now = new Date();
+
+    const tariff = await TariffSchedule.create({
+      ...fields,
+      userId: req.user._id,
+      isActive,
+      activePeriods: isActive ? [{ from: now }] : []
+    });
+
+    if (tariff.isActive) {
+      await deactivateOthers(req.user._id, tariff._id, now);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Tariff created successfully',
+      data: { tariff }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateTariff = async (req, res, next) => {
+  try {
+    // Only the tariff's own fields; it can't be moved to another owner
+    const { isActive, ...fields } = updateTariffSchema.parse(req.body);
+    const now = new Date();
+
+    let tariff = await TariffSchedule.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user._id },
+      fields,
+      { new: true, runValidators: true }
+    );
+
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tariff not found'
+      });
+    }
+
+    if (isActive !== undefined) {
+      tariff = await setTariffActive(tariff, isActive, now);
+    }
+    if (tariff.isActive) {
+      await deactivateOthers(req.user._id, tariff._id, now);
+    }
+
+    res.json({
+      success: true,
+      message: 'Tariff updated successfully',
+      data: { tariff }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const activateTariff = async (req, res, next) => {
+  try {
+    const now = new Date();
+    let tariff = await TariffSchedule.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tariff not found'
+      });
+    }
+
+    tariff = await setTariffActive(tariff, true, now);
+    await deactivateOthers(req.user._id, tariff._id, now);
+
+    res.json({
+      success: true,
+      message: 'Tariff activated',
+      data: { tariff }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteTariff = async (req, res, next) => {
+  try {
+    const tariff = await TariffSchedule.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tariff not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Tariff deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
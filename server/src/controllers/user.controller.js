@@ -13,11 +13,16 @@ export const getSettings = async (req, res, next) => {
 
 export const updateSettings = async (req, res, next) => {
   try {
-    const { monthlyBudget, alertThreshold, notifications } = req.body;
+    const { monthlyBudget, alertThreshold, budgetThresholds, meterReadDay, timezone, notifications } = req.body;
     const user = req.user;
 
     if (monthlyBudget !== undefined) user.settings.monthlyBudget = monthlyBudget;
     if (alertThreshold !== undefined) user.settings.alertThreshold = alertThreshold;
+    if (budgetThresholds !== undefined) {
+      user.settings.budgetThresholds = [...new Set(budgetThresholds)].sort((a, b) => a - b);
+    }
+    if (meterReadDay !== undefined) user.settings.meterReadDay = meterReadDay;
+    if (timezone !== undefined) user.settings.timezone = timezone;
     if (notifications) {
       Object.assign(user.settings.notifications, notifications);
     }
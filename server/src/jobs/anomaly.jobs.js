@@ -0,0 +1,20 @@
+import User from '../models/User.model.js';
+import { detectBaseloadCreep, detectOvernightDevices } from '../utils/anomaly.js';
+
+// Look for baseload creep and devices left on overnight for every user.
+// Spikes are checked as readings arrive instead.
+export const runAnomalyChecks = async (io, now = new Date()) => {
+  const users = await User.find({}, 'settings');
+
+  let raised = 0;
+  for (const user of users) {
+    try {
+      if (await detectBaseloadCreep(io, user, now)) raised += 1;
+      raised += (await detectOvernightDevices(io, user, now)).length;
+    } catch (error) {
+      console.error(`❌ Anomaly checks for ${user._id} failed:`, error.message);
+    }
+  }
+
+  return raised;
+};
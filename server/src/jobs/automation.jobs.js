@@ -0,0 +1,18 @@
+import AutomationRule from '../models/AutomationRule.model.js';
+import { evaluateAutomations } from '../utils/automation.js';
+
+// Evaluate time-triggered automations for every user that has one
+export const runTimeAutomations = async (io, now = new Date()) => {
+  const userIds = await AutomationRule.distinct('userId', { isEnabled: true, 'trigger.type': 'time' });
+
+  let ran = 0;
+  for (const userId of userIds) {
+    try {
+      ran += (await evaluateAutomations(io, userId, { type: 'tick' }, now)).length;
+    } catch (error) {
+      console.error(`❌ Automations for ${userId} failed:`, error.message);
+    }
+  }
+
+  return ran;
+};
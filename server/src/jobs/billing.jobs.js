@@ -0,0 +1,118 @@
+import Bill from '../models/Bill.model.js';
+import User from '../models/User.model.js';
+import EnergyReading from '../models/EnergyReading.model.js';
+import { createMonthlyBill } from '../utils/billing.js';
+import { getClosedPeriods, getPeriodOptions } from '../utils/billingPeriod.js';
+import { DAY_MS } from '../utils/time.js';
+import { notify } from '../utils/notifications.js';
+
+// Days before the due date at which a payment reminder is sent
+const REMINDER_DAYS = 3;
+
+// How many closed periods are checked for missing bills on each run
+const BACKFILL_MONTHS = 12;
+
+const formatBalance = (bill) => `₹${Math.max(0, bill.amount - bill.amountPaid).toFixed(2)}`;
+
+// Flip pending bills to overdue once their due date has fully passed
+export const markOverdueBills = async (io, now = new Date()) => {
+  const bills = await Bill.find({
+    status: 'pending',
+    dueDate: { $lt: new Date(now.getTime() - DAY_MS) }
+  });
+
+  for (const bill of bills) {
+    bill.status = 'overdue';
+    await bill.save();
+
+    await notify(io, bill.userId, {
+      type: 'bill_overdue',
+      message: `Your ${bill.month} ${bill.year} bill is overdue. Outstanding: ${formatBalance(bill)}`,
+      data: { billId: bill._id }
+    });
+  }
+
+  return bills.length;
+};
+
+// Remind users once about pending bills that fall due soon
+export const sendDueReminders = async (io, now = new Date()) => {
+  const bills = await Bill.find({
+    status: 'pending',
+    reminderSentAt: null,
+    dueDate: { $gte: now, $lte: new Date(now.getTime() + REMINDER_DAYS * DAY_MS) }
+  });
+
+  for (const bill of bills) {
+    bill.reminderSentAt = now;
+    await bill.save();
+
+    await notify(io, bill.userId, {
+      type: 'bill_reminder',
+      message: `Your ${bill.month} ${bill.year} bill of ${formatBalance(bill)} is due on ${bill.dueDate.toDateString()}`,
+      data: { billId: bill._id }
+    });
+  }
+
+  return bills.length;
+};
+
+// Close every finished billing period for every user. Periods that already
+// have a bill are left alone, so missed runs are backfilled on the next one.
+// Periods before the user joined or before their first reading are never
+// billed, so they aren't checked.
+export const generateMonthlyBills = async (io, now = new Date(), backfillMonths = BACKFILL_MONTHS) => {
+  const report = { users: 0, created: 0, skipped: 0, failed: 0, errors: [] };
+
+  const users = await User.find({}, '_id createdAt settings');
+
+  for (const user of users) {
+    report.users += 1;
+
+    const firstReading = await EnergyReading.findOne(
+      { userId: user._id, deviceId: null },
+      'timestamp',
+      { sort: { timestamp: 1 } }
+    );
+    if (!firstReading) continue;
+
+    // Periods follow each user's meter read day and timezone
+    const options = getPeriodOptions(user);
+    const from = firstReading.timestamp > user.createdAt ? firstReading.timestamp : user.createdAt;
+
+    for (const period of getClosedPeriods(from, now, options, backfillMonths)) {
+      try {
+        const { status, bill } = await createMonthlyBill(user._id, period.year, period.monthIndex, {
+          now,
+          skipEmpty: true,
+          periodOptions: options
+        });
+
+        if (status === 'created') {
+          report.created += 1;
+          await notify(io, user, {
+            type: 'bill_generated',
+            message: `Your ${bill.month} ${bill.year} bill of ₹${bill.amount.toFixed(2)} is ready`,
+            data: { billId: bill._id }
+          });
+        } else {
+          report.skipped += 1;
+        }
+      } catch (error) {
+        report.failed += 1;
+        report.errors.push({
+          userId: user._id.toString(),
+          year: period.year,
+          month: period.monthIndex + 1,
+          message: error.message
+        });
+      }
+    }
+  }
+
+  if (report.created || report.failed) {
+    console.log(`🧾 Monthly bills: ${report.created} created, ${report.skipped} skipped, ${report.failed} failed for ${report.users} users`);
+  }
+
+  return report;
+};
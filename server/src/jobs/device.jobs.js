@@ -0,0 +1,164 @@
+import Device from '../models/Device.model.js';
+import DeviceStateChange from '../models/DeviceStateChange.model.js';
+import EnergyReading from '../models/EnergyReading.model.js';
+import Schedule from '../models/Schedule.model.js';
+import Scene from '../models/Scene.model.js';
+import User from '../models/User.model.js';
+import { getActiveTariff, priceUsage } from '../utils/tariff.js';
+import { getPeriodUsage } from '../utils/billing.js';
+import { getBillingPeriod, getPeriodOptions } from '../utils/billingPeriod.js';
+import { getRuntimeSegments, estimateHourlyUsage } from '../utils/deviceRuntime.js';
+import { DAY_MS, getUserTimezone, startOfZonedHour } from '../utils/time.js';
+import { getConnectivity } from '../utils/deviceConnectivity.js';
+import { raiseAlert } from '../utils/anomaly.js';
+import { broadcastDeviceConnectivity } from '../socket/handlers.js';
+
+const MINUTE_MS = 60 * 1000;
+
+// How long a deleted device can still be restored
+export const DELETED_DEVICE_RETENTION_DAYS = 7;
+
+// Permanently remove devices deleted longer ago than the retention period,
+// along with their schedules and scene entries. Readings are kept for history.
+export const purgeDeletedDevices = async (now = new Date()) => {
+  const devices = await Device.find(
+    { deletedAt: { $ne: null, $lt: new Date(now.getTime() - DELETED_DEVICE_RETENTION_DAYS * DAY_MS) } },
+    '_id'
+  );
+  if (!devices.length) return 0;
+
+  const ids = devices.map(d => d._id);
+  await Schedule.deleteMany({ deviceId: { $in: ids } });
+  await Scene.updateMany(
+    { 'devices.deviceId': { $in: ids } },
+    { $pull: { devices: { deviceId: { $in: ids } } } }
+  );
+  await Device.deleteMany({ _id: { $in: ids } });
+
+  return ids.length;
+};
+
+// How far back a device that has never been estimated is picked up from
+export const ESTIMATE_BACKFILL_HOURS = 24;
+
+// The device's state at an instant: the last logged change before it, else
+// the state the first later change replaced, else its current state
+const getStateAt = async (device, at, firstChange) => {
+  const before = await DeviceStateChange.findOne({ deviceId: device._id, timestamp: { $lt: at } })
+    .sort({ timestamp: -1 });
+  if (before) return { status: before.status, intensity: before.intensity };
+  if (firstChange) return { status: firstChange.previousStatus, intensity: firstChange.previousIntensity };
+  return { status: device.status, intensity: device.intensity };
+};
+
+// Pricing context per user: active tariff, timezone and, for block tariffs,
+// the units already used this billing period
+const getPricing = async (userId, now) => {
+  const user = await User.findById(userId, 'settings');
+  const timeZone = getUserTimezone(user);
+  const tariff = await getActiveTariff(userId);
+
+  let unitsSoFar = 0;
+  if (tariff?.type === 'block') {
+    const period = getBillingPeriod(now, getPeriodOptions(user));
+    unitsSoFar = (await getPeriodUsage(userId, period.start, period.end)).units;
+  }
+  return { timeZone, tariff, unitsSoFar };
+};
+
+// Write synthetic hourly readings for devices without their own meter,
+// from their logged on/off and intensity changes, up to the start of the
+// current local hour. Re-running over the same hours overwrites them.
+export const estimateDeviceUsage = async (now = new Date()) => {
+  const devices = await Device.find({ metered: false });
+  if (!devices.length) return 0;
+
+  const pricing = new Map();
+  let written = 0;
+
+  for (const device of devices) {
+    try {
+      const userKey = device.userId.toString();
+      if (!pricing.has(userKey)) pricing.set(userKey, await getPricing(device.userId, now));
+      const { timeZone, tariff, unitsSoFar } = pricing.get(userKey);
+
+      const to = startOfZonedHour(now, timeZone);
+      const backfillFrom = new Date(to.getTime() - ESTIMATE_BACKFILL_HOURS * 60 * 60 * 1000);
+      const from = device.estimatedThrough
+        || startOfZonedHour(new Date(Math.max(device.createdAt.getTime(), backfillFrom.getTime())), timeZone);
+      if (from >= to) continue;
+
+      const changes = await DeviceStateChange.find({ deviceId: device._id, timestamp: { $gte: from, $lt: to } })
+        .sort({ timestamp: 1 });
+      const initial = await getStateAt(device, from, changes[0]);
+      const hours = estimateHourlyUsage(device.powerRating, getRuntimeSegments(initial, changes, from, to), from);
+
+      if (hours.length) {
+        await EnergyReading.bulkWrite(hours.map(({ timestamp, usage }) => {
+          const { rate, cost } = priceUsage(tariff, usage, timestamp, unitsSoFar, timeZone);
+          return {
+            updateOne: {
+              filter: { userId: device.userId, deviceId: device._id, timestamp, source: 'estimated' },
+              update: { $set: { usage, cost, rate } },
+              upsert: true
+            }
+          };
+        }));
+        written += hours.length;
+      }
+
+      device.estimatedThrough = to;
+      await device.save();
+    } catch (error) {
+      console.error(`❌ Usage estimate for device ${device._id} failed:`, error.message);
+    }
+  }
+
+  return written;
+};
+
+// Mark smart devices that have gone silent for longer than their window as
+// offline and alert their owners, once per silence
+export const detectOfflineDevices = async (io, now = new Date()) => {
+  const candidates = await Device.find({
+    isSmart: true,
+    connectivity: 'online',
+    lastSeenAt: { $lt: new Date(now.getTime() - MINUTE_MS) }
+  });
+  const silent = candidates.filter(d => getConnectivity(d, now) === 'offline');
+  if (!silent.length) return [];
+
+  const users = new Map(
+    (await User.find({ _id: { $in: silent.map(d => d.userId) } }, 'settings')).map(u => [u._id.toString(), u])
+  );
+
+  const offline = [];
+  for (const device of silent) {
+    try {
+      // A heartbeat that arrived since the query wins
+      const result = await Device.updateOne(
+        { _id: device._id, connectivity: 'online', lastSeenAt: device.lastSeenAt },
+        { connectivity: 'offline' }
+      );
+      if (!result.modifiedCount) continue;
+
+      device.connectivity = 'offline';
+      broadcastDeviceConnectivity(io, device.userId.toString(), device);
+      offline.push(device);
+
+      const user = users.get(device.userId.toString());
+      if (!user) continue;
+      const minutes = Math.round((now - device.lastSeenAt) / MINUTE_MS);
+      await raiseAlert(io, user, {
+        type: 'offline',
+        severity: 'warning',
+        message: `${device.name} in ${device.room} has gone offline: nothing heard from it for ${minutes} minutes`,
+        deviceId: device._id,
+        key: `offline:${device._id}:${device.lastSeenAt.getTime()}`
+      }, 'device_offline');
+    } catch (error) {
+      console.error(`❌ Offline check for device ${device._id} failed:`, error.message);
+    }
+  }
+  return offline;
+};
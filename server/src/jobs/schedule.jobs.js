@@ -0,0 +1,56 @@
+import Schedule from '../models/Schedule.model.js';
+import Device from '../models/Device.model.js';
+import User from '../models/User.model.js';
+import { getDueTransition } from '../utils/schedule.js';
+import { applyDeviceState } from '../utils/deviceControl.js';
+import { triggerAutomations } from '../utils/automation.js';
+import { getUserTimezone } from '../utils/time.js';
+
+// Apply every schedule transition that has come due. Recurring rules are
+// evaluated in their owner's timezone; timers and run windows happen once
+// and are then retired.
+export const runDueSchedules = async (io, now = new Date()) => {
+  const schedules = await Schedule.find({
+    isActive: true,
+    $or: [{ type: 'recurring' }, { type: { $in: ['timer', 'window'] }, runAt: { $lte: now } }]
+  });
+  if (!schedules.length) return 0;
+
+  const userIds = [...new Set(schedules.map(s => s.userId.toString()))];
+  const users = await User.find({ _id: { $in: userIds } }, 'settings');
+  const timeZones = new Map(users.map(u => [u._id.toString(), getUserTimezone(u)]));
+
+  let applied = 0;
+
+  for (const schedule of schedules) {
+    try {
+      // A malformed schedule must not stop the others from running
+      const due = getDueTransition(schedule, now, timeZones.get(schedule.userId.toString()));
+      if (!due) continue;
+
+      const device = await Device.findOne({ _id: schedule.deviceId, userId: schedule.userId });
+      if (device) {
+        await applyDeviceState(
+          io,
+          device,
+          due.action === 'on' ? { status: true, intensity: due.intensity } : { status: false },
+          'schedule'
+        );
+        triggerAutomations(io, schedule.userId, { type: 'device', device });
+      }
+
+      schedule.lastTriggeredAt = due.at;
+      schedule.lastAction = due.action;
+      if (schedule.type === 'timer' || (schedule.type === 'window' && due.action === 'off')) {
+        schedule.isActive = false;
+        schedule.completedAt = now;
+      }
+      await schedule.save();
+      applied += 1;
+    } catch (error) {
+      console.error(`❌ Schedule ${schedule._id} failed:`, error.message);
+    }
+  }
+
+  return applied;
+};
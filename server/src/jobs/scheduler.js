@@ -0,0 +1,41 @@
+import { markOverdueBills, sendDueReminders, generateMonthlyBills } from './billing.jobs.js';
+import { runDueSchedules } from './schedule.jobs.js';
+import { runTimeAutomations } from './automation.jobs.js';
+import { purgeDeletedDevices, estimateDeviceUsage, detectOfflineDevices } from './device.jobs.js';
+import { runAnomalyChecks } from './anomaly.jobs.js';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const runJob = async (name, run) => {
+  try {
+    await run();
+  } catch (error) {
+    console.error(`❌ Job ${name} failed:`, error.message);
+  }
+};
+
+// Start recurring background jobs; returns a function that stops them.
+// The clock is injectable so jobs can be driven from a fixed date offline.
+export const startScheduler = (io, { clock = () => new Date() } = {}) => {
+  const jobs = [
+    { name: 'monthly-bills', interval: HOUR_MS, run: () => generateMonthlyBills(io, clock()) },
+    { name: 'overdue-bills', interval: HOUR_MS, run: () => markOverdueBills(io, clock()) },
+    { name: 'bill-reminders', interval: HOUR_MS, run: () => sendDueReminders(io, clock()) },
+    { name: 'device-schedules', interval: MINUTE_MS, run: () => runDueSchedules(io, clock()) },
+    { name: 'time-automations', interval: MINUTE_MS, run: () => runTimeAutomations(io, clock()) },
+    { name: 'purge-deleted-devices', interval: HOUR_MS, run: () => purgeDeletedDevices(clock()) },
+    { name: 'device-usage-estimates', interval: 15 * MINUTE_MS, run: () => estimateDeviceUsage(clock()) },
+    { name: 'anomaly-checks', interval: HOUR_MS, run: () => runAnomalyChecks(io, clock()) },
+    { name: 'device-offline-checks', interval: MINUTE_MS, run: () => detectOfflineDevices(io, clock()) }
+  ];
+
+  const timers = jobs.map(job => {
+    runJob(job.name, job.run);
+    return setInterval(() => runJob(job.name, job.run), job.interval);
+  });
+
+  console.log(`⏰ Scheduler started with ${jobs.length} jobs`);
+
+  return () => timers.forEach(clearInterval);
+};
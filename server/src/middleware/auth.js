@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.model.js';
+import { resolveIngestKey, touchIngestKey } from '../utils/ingestKeys.js';
 
 export const authenticate = async (req, res, next) => {
   try {
@@ -43,6 +44,40 @@ export const authenticate = async (req, res, next) => {
   }
 };
 
+// For meters and gateways: accepts an ingest key (not a user token) from the
+// X-Api-Key header or as a Bearer token. Only mounted on the ingest routes,
+// so a key can send readings and nothing else.
+export const authenticateIngestKey = async (req, res, next) => {
+  try {
+    let key = req.headers['x-api-key'];
+    if (!key && req.headers.authorization?.startsWith('Bearer')) {
+      key = req.headers.authorization.split(' ')[1];
+    }
+
+    if (!key) {
+      return res.status(401).json({
+        success: false,
+        message: 'API key required'
+      });
+    }
+
+    const { ingestKey, user, error } = await resolveIngestKey(key);
+    if (error) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid API key'
+      });
+    }
+
+    await touchIngestKey(ingestKey);
+    req.user = user;
+    req.ingestKey = ingestKey;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const generateTokens = (userId) => {
   const accessToken = jwt.sign(
     { id: userId },
@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import IdempotencyRecord from '../models/IdempotencyRecord.model.js';
+
+const MAX_KEY_LENGTH = 255;
+
+const hashRequest = (body) => crypto.createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+
+// Replays the stored response when a request repeats an Idempotency-Key, so
+// a client retrying after a timeout gets the original result. The key is
+// reserved before the request is handled, so a retry that arrives while the
+// original is still running is refused instead of running twice. Successful
+// responses are stored; on errors the key is released, so a fixed request
+// can reuse it. Must run after authentication.
+export const idempotent = async (req, res, next) => {
+  const key = req.headers['idempotency-key'];
+  if (!key) return next();
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      message: `Idempotency-Key cannot exceed ${MAX_KEY_LENGTH} characters`
+    });
+  }
+
+  try {
+    const scope = `${req.method} ${req.baseUrl}${req.path}`;
+    const requestHash = hashRequest(req.body);
+    const filter = { userId: req.user._id, scope, key };
+
+    try {
+      await IdempotencyRecord.create({ ...filter, requestHash });
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+
+      const record = await IdempotencyRecord.findOne(filter);
+      if (!record) {
+        return res.status(409).json({
+          success: false,
+          message: 'A request with this Idempotency-Key just failed; retry it'
+        });
+      }
+      if (record.requestHash !== requestHash) {
+        return res.status(422).json({
+          success: false,
+          message: 'Idempotency-Key was already used for a different request'
+        });
+      }
+      if (record.statusCode === null) {
+        return res.status(409).json({
+          success: false,
+          message: 'A request with this Idempotency-Key is still being processed'
+        });
+      }
+
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(record.statusCode).json(record.body);
+    }
+
+    const json = res.json.bind(res);
+    res.json = (body) => {
+      const settle = res.statusCode < 400
+        ? IdempotencyRecord.updateOne(filter, { statusCode: res.statusCode, body })
+        : IdempotencyRecord.deleteOne(filter);
+      settle.catch(error => {
+        console.error('❌ Storing idempotent response failed:', error.message);
+      });
+      return json(body);
+    };
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
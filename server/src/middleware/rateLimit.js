@@ -0,0 +1,11 @@
+import rateLimit from 'express-rate-limit';
+
+// Readings sent with an ingest key are counted per key. Runs after
+// authenticateIngestKey, so the limit follows the key's id rather than the
+// secret from the request headers.
+export const ingestKeyLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 120,
+  keyGenerator: (req) => req.ingestKey._id.toString(),
+  message: 'Too many readings for this key, please slow down'
+});
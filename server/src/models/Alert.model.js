@@ -0,0 +1,61 @@
+import mongoose from 'mongoose';
+
+// Unusual usage found by the anomaly detector, budget warnings and devices
+// that went offline
+const alertSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // spike: an hour well above its usual usage; baseload: the always-on load
+  // has crept up; overnight: a device was left running through the night;
+  // budget: spending crossed one of the budget thresholds; offline: a smart
+  // device stopped reporting
+  type: {
+    type: String,
+    enum: ['spike', 'baseload', 'overnight', 'budget', 'offline'],
+    required: true
+  },
+  severity: {
+    type: String,
+    enum: ['info', 'warning', 'critical'],
+    default: 'warning'
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  deviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Device',
+    default: null
+  },
+  observed: {
+    type: Number,
+    default: null
+  },
+  expected: {
+    type: Number,
+    default: null
+  },
+  // Identifies the occurrence (e.g. the hour of a spike) so it is raised once
+  key: {
+    type: String,
+    required: true
+  },
+  acknowledgedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+alertSchema.index({ userId: 1, key: 1 }, { unique: true });
+alertSchema.index({ userId: 1, createdAt: -1 });
+// Alerts are kept for 90 days
+alertSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+const Alert = mongoose.model('Alert', alertSchema);
+export default Alert;
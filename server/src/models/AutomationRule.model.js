@@ -0,0 +1,136 @@
+import mongoose from 'mongoose';
+
+const timeFormat = [/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format'];
+
+// What makes a rule fire. Threshold triggers (usage, cost, budget, solar)
+// compare a metric with `value`; time triggers fire at `time` on `daysOfWeek`;
+// device_state triggers fire when `deviceId` switches to `state`.
+const triggerSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    required: true,
+    enum: ['usage', 'cost', 'time', 'device_state', 'budget', 'solar']
+  },
+  operator: {
+    type: String,
+    enum: ['gt', 'gte', 'lt', 'lte'],
+    default: 'gt'
+  },
+  // For budget triggers a null value means the user's alertThreshold
+  value: {
+    type: Number,
+    default: null
+  },
+  time: {
+    type: String,
+    match: timeFormat
+  },
+  daysOfWeek: {
+    type: [{ type: Number, min: 0, max: 6 }],
+    default: undefined
+  },
+  deviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Device'
+  },
+  state: {
+    type: String,
+    enum: ['on', 'off']
+  }
+}, { _id: false });
+
+// Extra checks that must all hold when the trigger fires
+const conditionSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    required: true,
+    enum: ['time_window', 'days_of_week', 'device_state']
+  },
+  start: { type: String, match: timeFormat },
+  end: { type: String, match: timeFormat },
+  daysOfWeek: {
+    type: [{ type: Number, min: 0, max: 6 }],
+    default: undefined
+  },
+  deviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Device'
+  },
+  state: {
+    type: String,
+    enum: ['on', 'off']
+  }
+}, { _id: false });
+
+const actionSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    required: true,
+    enum: ['toggle', 'intensity', 'notify']
+  },
+  deviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Device'
+  },
+  status: Boolean,
+  intensity: {
+    type: Number,
+    min: 0,
+    max: 100
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  }
+}, { _id: false });
+
+const automationRuleSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Rule name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  trigger: {
+    type: triggerSchema,
+    required: true
+  },
+  conditions: [conditionSchema],
+  actions: {
+    type: [actionSchema],
+    validate: [(actions) => actions.length > 0, 'At least one action is required']
+  },
+  isEnabled: {
+    type: Boolean,
+    default: true
+  },
+  // Whether the trigger matched at the last evaluation; threshold rules fire
+  // only when this flips from false to true
+  triggerMatched: {
+    type: Boolean,
+    default: false
+  },
+  lastTriggeredAt: {
+    type: Date,
+    default: null
+  },
+  runCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+automationRuleSchema.index({ userId: 1, isEnabled: 1, 'trigger.type': 1 });
+automationRuleSchema.index({ isEnabled: 1, 'trigger.type': 1 });
+
+const AutomationRule = mongoose.model('AutomationRule', automationRuleSchema);
+export default AutomationRule;
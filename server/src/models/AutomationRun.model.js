@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+
+const actionResultSchema = new mongoose.Schema({
+  type: String,
+  deviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Device',
+    default: null
+  },
+  success: Boolean,
+  message: String
+}, { _id: false });
+
+// One execution of an automation rule, kept for the rule's run log
+const automationRunSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  ruleId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'AutomationRule',
+    required: true
+  },
+  ruleName: String,
+  // What fired the rule: the trigger type or 'manual', with the observed value
+  triggeredBy: String,
+  observed: {
+    type: Number,
+    default: null
+  },
+  status: {
+    type: String,
+    enum: ['success', 'partial', 'failed'],
+    required: true
+  },
+  results: [actionResultSchema]
+}, {
+  timestamps: true
+});
+
+automationRunSchema.index({ ruleId: 1, createdAt: -1 });
+automationRunSchema.index({ userId: 1, createdAt: -1 });
+// Run logs are kept for 30 days
+automationRunSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+const AutomationRun = mongoose.model('AutomationRun', automationRunSchema);
+export default AutomationRun;
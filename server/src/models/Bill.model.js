@@ -1,5 +1,70 @@
 import mongoose from 'mongoose';
 
+const lineItemSchema = new mongoose.Schema({
+  category: {
+    type: String,
+    enum: ['energy', 'fixed', 'surcharge', 'tax', 'credit'],
+    required: true
+  },
+  label: {
+    type: String,
+    required: true
+  },
+  units: {
+    type: Number,
+    default: null
+  },
+  rate: {
+    type: Number,
+    default: null
+  },
+  amount: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+const deviceUsageSchema = new mongoose.Schema({
+  deviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Device'
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  units: {
+    type: Number,
+    default: 0
+  },
+  cost: {
+    type: Number,
+    default: 0
+  }
+}, { _id: false });
+
+const paymentSchema = new mongoose.Schema({
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  method: {
+    type: String,
+    enum: ['upi', 'card', 'netbanking', 'cash', 'cheque', 'other'],
+    required: true
+  },
+  reference: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  paidAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { timestamps: true });
+
 const billSchema = new mongoose.Schema({
   userId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -15,6 +80,15 @@ const billSchema = new mongoose.Schema({
     type: Number,
     required: true
   },
+  // Metered period the bill covers: [periodStart, periodEnd)
+  periodStart: {
+    type: Date,
+    default: null
+  },
+  periodEnd: {
+    type: Date,
+    default: null
+  },
   amount: {
     type: Number,
     required: true,
@@ -42,17 +116,35 @@ const billSchema = new mongoose.Schema({
     type: Date,
     default: null
   },
+  payments: [paymentSchema],
+  reminderSentAt: {
+    type: Date,
+    default: null
+  },
   savings: {
     type: Number,
     default: 0
-  }
+  },
+  tariffName: {
+    type: String,
+    default: null
+  },
+  lineItems: [lineItemSchema],
+  deviceBreakdown: [deviceUsageSchema]
 }, {
-  timestamps: true
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
 });
 
 // Compound index for unique bills per user per month
 billSchema.index({ userId: 1, year: 1, month: 1 }, { unique: true });
 billSchema.index({ userId: 1, status: 1 });
+billSchema.index({ status: 1, dueDate: 1 });
+
+billSchema.virtual('amountPaid').get(function() {
+  return (this.payments || []).reduce((sum, p) => sum + p.amount, 0);
+});
 
 const Bill = mongoose.model('Bill', billSchema);
 export default Bill;
@@ -0,0 +1,41 @@
+import mongoose from 'mongoose';
+
+// An ingested message that could not be turned into a reading, kept for
+// inspection
+const deadLetterSchema = new mongoose.Schema({
+  source: {
+    type: String,
+    enum: ['mqtt'],
+    required: true
+  },
+  topic: {
+    type: String,
+    default: null
+  },
+  // The raw payload, truncated
+  payload: {
+    type: String,
+    default: ''
+  },
+  reason: {
+    type: String,
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  receivedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Dead letters are kept for 30 days
+deadLetterSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+const DeadLetter = mongoose.model('DeadLetter', deadLetterSchema);
+export default DeadLetter;
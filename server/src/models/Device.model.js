@@ -49,6 +49,41 @@ const deviceSchema = new mongoose.Schema({
   lastUsed: {
     type: Date,
     default: null
+  },
+  // Devices with their own meter report readings; the rest have their
+  // usage estimated from runtime and rated power
+  metered: {
+    type: Boolean,
+    default: false
+  },
+  // End of the last hour whose usage has been estimated
+  estimatedThrough: {
+    type: Date,
+    default: null
+  },
+  // Last time the device itself was heard from: a reading, a control
+  // acknowledgement or a heartbeat
+  lastSeenAt: {
+    type: Date,
+    default: null
+  },
+  // unknown until the device is first heard from; smart devices silent for
+  // longer than offlineAfterMinutes are marked offline
+  connectivity: {
+    type: String,
+    enum: ['unknown', 'online', 'offline'],
+    default: 'unknown'
+  },
+  offlineAfterMinutes: {
+    type: Number,
+    default: 30,
+    min: 1,
+    max: 1440
+  },
+  // Set when the device is deleted; it can be restored until it is purged
+  deletedAt: {
+    type: Date,
+    default: null
   }
 }, {
   timestamps: true
@@ -57,6 +92,17 @@ const deviceSchema = new mongoose.Schema({
 // Index for faster queries
 deviceSchema.index({ userId: 1, room: 1 });
 deviceSchema.index({ userId: 1, status: 1 });
+deviceSchema.index({ connectivity: 1, lastSeenAt: 1 });
+
+// Deleted devices are hidden from every query unless it sets `withDeleted`
+// or filters on `deletedAt` itself
+deviceSchema.pre(
+  ['find', 'findOne', 'findOneAndUpdate', 'findOneAndDelete', 'countDocuments', 'distinct', 'updateOne', 'updateMany'],
+  function () {
+    if (this.getOptions().withDeleted || this.getFilter().deletedAt !== undefined) return;
+    this.where({ deletedAt: null });
+  }
+);
 
 const Device = mongoose.model('Device', deviceSchema);
 export default Device;
@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+
+// One status or intensity change of a device, with the state it replaced.
+// Runtime and estimated energy use are reconstructed from this log.
+const deviceStateChangeSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  deviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Device',
+    required: true
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  status: {
+    type: Boolean,
+    required: true
+  },
+  intensity: {
+    type: Number,
+    required: true
+  },
+  previousStatus: {
+    type: Boolean,
+    required: true
+  },
+  previousIntensity: {
+    type: Number,
+    required: true
+  },
+  // What made the change: 'user', 'schedule', 'automation', 'scene', ...
+  source: {
+    type: String,
+    default: 'user'
+  }
+});
+
+deviceStateChangeSchema.index({ deviceId: 1, timestamp: -1 });
+// The log is kept for a year
+deviceStateChangeSchema.index({ timestamp: 1 }, { expireAfterSeconds: 365 * 24 * 60 * 60 });
+
+const DeviceStateChange = mongoose.model('DeviceStateChange', deviceStateChangeSchema);
+export default DeviceStateChange;
@@ -36,6 +36,25 @@ const energyReadingSchema = new mongoose.Schema({
     type: Number,
     default: 0,
     min: 0
+  },
+  // The cumulative kWh register the meter reported, for meters that send
+  // their register instead of interval usage; usage is derived from it
+  register: {
+    type: Number,
+    default: null,
+    min: 0
+  },
+  // Set when the register did something unusual (see utils/meterRegister.js)
+  registerFlag: {
+    type: String,
+    enum: ['baseline', 'rollover', 'reset', 'negative', 'jump'],
+    default: null
+  },
+  // 'estimated' readings are derived from a device's runtime, not measured
+  source: {
+    type: String,
+    enum: ['meter', 'estimated'],
+    default: 'meter'
   }
 }, {
   timestamps: true
@@ -44,6 +63,9 @@ const energyReadingSchema = new mongoose.Schema({
 // Compound indexes for efficient queries
 energyReadingSchema.index({ userId: 1, timestamp: -1 });
 energyReadingSchema.index({ userId: 1, deviceId: 1, timestamp: -1 });
+// One reading per meter, time and source: batch and estimated readings are
+// upserted on these fields, and concurrent upserts must not both insert
+energyReadingSchema.index({ userId: 1, deviceId: 1, timestamp: 1, source: 1 }, { unique: true });
 
 // TTL index to auto-delete old data after 2 years
 energyReadingSchema.index({ timestamp: 1 }, { expireAfterSeconds: 63072000 });
@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+
+// A request sent with an Idempotency-Key header. The key is reserved when
+// the request starts and its response stored when it succeeds, to be
+// replayed when the same key is sent again.
+const idempotencyRecordSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  // Method and path the key was used for
+  scope: {
+    type: String,
+    required: true
+  },
+  // SHA-256 of the request body, so a key reused for a different request
+  // is refused rather than answered with another request's response
+  requestHash: {
+    type: String,
+    required: true
+  },
+  // Null while the request is still being handled
+  statusCode: {
+    type: Number,
+    default: null
+  },
+  body: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+idempotencyRecordSchema.index({ userId: 1, scope: 1, key: 1 }, { unique: true });
+// Keys can be reused after 24 hours
+idempotencyRecordSchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+const IdempotencyRecord = mongoose.model('IdempotencyRecord', idempotencyRecordSchema);
+export default IdempotencyRecord;
@@ -0,0 +1,55 @@
+import mongoose from 'mongoose';
+
+// Credentials a meter, smart plug or gateway uses to send readings. Only a
+// hash of the key is stored; the key itself is shown once when created.
+const ingestKeySchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  // The device the readings belong to; null for a whole-home meter
+  deviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Device',
+    default: null
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  // The start of the key, so it can be recognised in a list
+  prefix: {
+    type: String,
+    required: true
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Never send the hash to clients
+ingestKeySchema.methods.toJSON = function() {
+  const ingestKeyObject = this.toObject();
+  delete ingestKeyObject.keyHash;
+  return ingestKeyObject;
+};
+
+const IngestKey = mongoose.model('IngestKey', ingestKeySchema);
+export default IngestKey;
@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+
+// A message for the user's inbox, kept so it is not lost while they are offline
+const notificationSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // The preference in settings.notifications that governs it; `general`
+  // notifications (e.g. from the user's own automations) are always sent
+  category: {
+    type: String,
+    enum: ['energyAlerts', 'costWarnings', 'deviceOffline', 'weeklyReports', 'general'],
+    default: 'general'
+  },
+  // What raised it, e.g. anomaly, bill_overdue, automation
+  type: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  // Ids of related records, e.g. { alertId } or { billId }
+  data: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  readAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+notificationSchema.index({ userId: 1, createdAt: -1 });
+notificationSchema.index({ userId: 1, readAt: 1 });
+// Notifications are kept for 90 days
+notificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+const Notification = mongoose.model('Notification', notificationSchema);
+export default Notification;
@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+
+// Target state for one device in a scene; a null intensity leaves it as is
+const sceneDeviceSchema = new mongoose.Schema({
+  deviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Device',
+    required: true
+  },
+  status: {
+    type: Boolean,
+    required: true
+  },
+  intensity: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: null
+  }
+}, { _id: false });
+
+const sceneSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Scene name is required'],
+    trim: true,
+    maxlength: [50, 'Name cannot exceed 50 characters']
+  },
+  icon: {
+    type: String,
+    default: 'Sparkles'
+  },
+  devices: {
+    type: [sceneDeviceSchema],
+    validate: [(devices) => devices.length > 0, 'A scene needs at least one device']
+  },
+  lastActivatedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+sceneSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+const Scene = mongoose.model('Scene', sceneSchema);
+export default Scene;
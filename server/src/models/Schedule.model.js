@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+
+const timeFormat = [/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format'];
+
+const scheduleSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  deviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Device',
+    required: true
+  },
+  name: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters'],
+    default: null
+  },
+  // recurring: on at startTime and off at endTime on the given days;
+  // timer: a one-shot on/off action at runAt;
+  // window: a one-off run from runAt to endAt (used by "run cheapest")
+  type: {
+    type: String,
+    enum: ['recurring', 'timer', 'window'],
+    required: true
+  },
+  daysOfWeek: {
+    type: [{ type: Number, min: 0, max: 6 }],
+    default: undefined
+  },
+  startTime: {
+    type: String,
+    match: timeFormat
+  },
+  // An end before the start runs past midnight into the next day
+  endTime: {
+    type: String,
+    match: timeFormat
+  },
+  action: {
+    type: String,
+    enum: ['on', 'off']
+  },
+  runAt: {
+    type: Date
+  },
+  endAt: {
+    type: Date
+  },
+  // Projected costs when the window was chosen by the cheapest-run planner
+  plan: {
+    type: new mongoose.Schema({
+      cost: Number,
+      costNow: Number,
+      saving: Number,
+      solarUnits: Number
+    }, { _id: false }),
+    default: undefined
+  },
+  intensity: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: 100
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  // Transitions at or before this instant have already been applied
+  lastTriggeredAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastAction: {
+    type: String,
+    enum: ['on', 'off', null],
+    default: null
+  },
+  completedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+scheduleSchema.index({ userId: 1, deviceId: 1 });
+scheduleSchema.index({ isActive: 1, type: 1, runAt: 1 });
+
+const Schedule = mongoose.model('Schedule', scheduleSchema);
+export default Schedule;
@@ -7,8 +7,8 @@ const tariffSlabSchema = new mongoose.Schema({
     enum: ['Off-Peak', 'Mid-Peak', 'Peak']
   },
   timeRange: {
-    start: { type: String, required: true },
-    end: { type: String, required: true }
+    start: { type: String, required: true, match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format'] },
+    end: { type: String, required: true, match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format'] }
   },
   rate: {
     type: Number,
@@ -21,19 +21,108 @@ const tariffSlabSchema = new mongoose.Schema({
   }]
 }, { _id: false });
 
+// Consumption block for tiered tariffs; upTo is the cumulative unit limit
+// of the block within a billing month, null for the last open-ended block
+const tariffBlockSchema = new mongoose.Schema({
+  upTo: {
+    type: Number,
+    default: null,
+    min: 0
+  },
+  rate: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+const surchargeSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true
+  },
+  basis: {
+    type: String,
+    enum: ['per_unit', 'fixed'],
+    default: 'per_unit'
+  },
+  value: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+const taxSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true
+  },
+  percentage: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+// When a schedule was the user's active one; to is null while it still is
+const activePeriodSchema = new mongoose.Schema({
+  from: {
+    type: Date,
+    required: true
+  },
+  to: {
+    type: Date,
+    default: null
+  }
+}, { _id: false });
+
 const tariffScheduleSchema = new mongoose.Schema({
+  // null marks a shared schedule used for users who have not set up their own
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+    index: true
+  },
   name: {
     type: String,
     required: true
   },
+  type: {
+    type: String,
+    enum: ['time_of_use', 'block'],
+    default: 'time_of_use'
+  },
   slabs: [tariffSlabSchema],
+  blocks: [tariffBlockSchema],
+  // Monthly fixed/meter charge in ₹
+  fixedCharge: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // e.g. fuel adjustment charge per unit, wheeling charge
+  surcharges: [surchargeSchema],
+  // e.g. electricity duty, levied on energy + fixed charges + surcharges
+  taxes: [taxSchema],
+  // ₹/kWh credited for solar generation; null credits at the period's average energy rate
+  solarExportRate: {
+    type: Number,
+    default: null,
+    min: 0
+  },
   isActive: {
     type: Boolean,
     default: true
-  }
+  },
+  // Past bills are priced with the schedule that was active in their period
+  activePeriods: [activePeriodSchema]
 }, {
   timestamps: true
 });
 
+tariffScheduleSchema.index({ userId: 1, isActive: 1 });
+
 const TariffSchedule = mongoose.model('TariffSchedule', tariffScheduleSchema);
 export default TariffSchedule;
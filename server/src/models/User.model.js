@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '../utils/time.js';
 
 const notificationSchema = new mongoose.Schema({
   energyAlerts: { type: Boolean, default: true },
@@ -36,6 +37,14 @@ const userSchema = new mongoose.Schema({
   settings: {
     monthlyBudget: { type: Number, default: 5000, min: 0 },
     alertThreshold: { type: Number, default: 80, min: 0, max: 100 },
+    // Percentages of the budget at which a cost warning is sent, once each per period
+    budgetThresholds: { type: [{ type: Number, min: 1, max: 200 }], default: [50, 80, 100] },
+    meterReadDay: { type: Number, default: 1, min: 1, max: 28 },
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+      validate: { validator: isValidTimezone, message: 'Invalid timezone' }
+    },
     notifications: { type: notificationSchema, default: () => ({}) }
   },
   refreshTokens: [{
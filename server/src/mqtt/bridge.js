@@ -0,0 +1,126 @@
+import mqtt from 'mqtt';
+import { isValidObjectId } from 'mongoose';
+import DeadLetter from '../models/DeadLetter.model.js';
+import { mqttReadingSchema } from '../validators/energy.validator.js';
+import { resolveIngestKey, touchIngestKey } from '../utils/ingestKeys.js';
+import { ingestReading } from '../utils/ingest.js';
+
+export const DEFAULT_TOPIC_PREFIX = 'urjasync';
+
+// Payloads above this size are rejected unread
+const MAX_PAYLOAD_BYTES = 4096;
+// How much of a rejected payload is kept
+const DEAD_LETTER_PAYLOAD_CHARS = 1000;
+
+// Readings are published to `<prefix>/<ingest key id>/reading`. Returns the
+// key id, or null for any other topic.
+export const parseReadingTopic = (topic, prefix = DEFAULT_TOPIC_PREFIX) => {
+  if (!topic.startsWith(`${prefix}/`)) return null;
+  const [keyId, leaf, ...rest] = topic.slice(prefix.length + 1).split('/');
+  if (leaf !== 'reading' || rest.length || !isValidObjectId(keyId)) return null;
+  return keyId;
+};
+
+// The validated reading in a payload, or the reason it was rejected
+export const parseReadingPayload = (payload) => {
+  if (payload.length > MAX_PAYLOAD_BYTES) {
+    return { error: `Payload exceeds ${MAX_PAYLOAD_BYTES} bytes` };
+  }
+
+  let body;
+  try {
+    body = JSON.parse(payload.toString('utf8'));
+  } catch (error) {
+    return { error: 'Payload is not valid JSON' };
+  }
+
+  const result = mqttReadingSchema.safeParse(body);
+  if (!result.success) {
+    return { error: result.error.errors.map(e => `${e.path.join('.') || 'payload'}: ${e.message}`).join('; ') };
+  }
+  return { reading: result.data };
+};
+
+const deadLetter = async (topic, payload, reason, receivedAt, userId = null) => {
+  console.warn(`⚠️  MQTT message on ${topic} dead-lettered: ${reason}`);
+  try {
+    await DeadLetter.create({
+      source: 'mqtt',
+      topic,
+      payload: payload.toString('utf8').slice(0, DEAD_LETTER_PAYLOAD_CHARS),
+      reason,
+      userId,
+      receivedAt
+    });
+  } catch (error) {
+    console.error('❌ Dead-lettering failed:', error.message);
+  }
+};
+
+// Turn one message into a reading. Anything that cannot be ingested is
+// dead-lettered rather than retried, so a bad message never blocks the queue.
+export const handleReadingMessage = async (io, topic, payload, { prefix = DEFAULT_TOPIC_PREFIX, now = new Date() } = {}) => {
+  const keyId = parseReadingTopic(topic, prefix);
+  if (!keyId) return deadLetter(topic, payload, 'Unrecognised topic', now);
+
+  const { reading, error } = parseReadingPayload(payload);
+  if (error) return deadLetter(topic, payload, error, now);
+
+  const { ingestKey, user, error: keyError } = await resolveIngestKey(reading.key);
+  if (keyError) return deadLetter(topic, payload, keyError, now);
+  if (ingestKey._id.toString() !== keyId) {
+    return deadLetter(topic, payload, 'Key does not match topic', now, user._id);
+  }
+
+  try {
+    await ingestReading(io, user, {
+      deviceId: ingestKey.deviceId,
+      usage: reading.usage,
+      register: reading.register,
+      solarGeneration: reading.solarGeneration,
+      timestamp: now
+    });
+    await touchIngestKey(ingestKey, now);
+  } catch (error) {
+    return deadLetter(topic, payload, `Ingestion failed: ${error.message}`, now, user._id);
+  }
+};
+
+// Subscribe to readings on the broker at MQTT_URL; returns a function that
+// disconnects, or null when no broker is configured. Messages are handled
+// one at a time: the next is not read from the connection until the last
+// is stored, so a slow database slows consumption instead of piling
+// messages up in memory. With QoS 1 and a persistent session the broker
+// holds messages meanwhile, and while the server is down.
+export const startMqttBridge = (io, {
+  url = process.env.MQTT_URL,
+  prefix = process.env.MQTT_TOPIC_PREFIX || DEFAULT_TOPIC_PREFIX
+} = {}) => {
+  if (!url) return null;
+
+  const client = mqtt.connect(url, {
+    clientId: process.env.MQTT_CLIENT_ID || 'urjasync-bridge',
+    username: process.env.MQTT_USERNAME || undefined,
+    password: process.env.MQTT_PASSWORD || undefined,
+    clean: false
+  });
+
+  client.handleMessage = (packet, done) => {
+    handleReadingMessage(io, packet.topic, packet.payload, { prefix })
+      .catch(error => console.error('❌ MQTT message handling failed:', error.message))
+      .finally(() => done());
+  };
+
+  client.on('connect', () => {
+    console.log(`📡 MQTT bridge connected to ${url}`);
+    client.subscribe(`${prefix}/+/reading`, { qos: 1 }, (error) => {
+      if (error) console.error('❌ MQTT subscribe failed:', error.message);
+    });
+  });
+
+  client.on('error', (error) => {
+    console.error('❌ MQTT error:', error.message);
+  });
+
+  return () => client.end();
+};
@@ -0,0 +1,19 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import {
+  getAlerts,
+  acknowledgeAlert,
+  acknowledgeAllAlerts,
+  deleteAlert
+} from '../controllers/alert.controller.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get('/', getAlerts);
+router.post('/acknowledge-all', acknowledgeAllAlerts);
+router.post('/:id/acknowledge', acknowledgeAlert);
+router.delete('/:id', deleteAlert);
+
+export default router;
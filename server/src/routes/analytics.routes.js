@@ -4,6 +4,7 @@ import {
   getUsageTrend,
   getCostAnalysis,
   getDeviceBreakdown,
+  getDisaggregation,
   getCarbonTrend,
   getDashboardStats
 } from '../controllers/analytics.controller.js';
@@ -15,6 +16,7 @@ router.use(authenticate);
 router.get('/usage-trend', getUsageTrend);
 router.get('/cost-analysis', getCostAnalysis);
 router.get('/device-breakdown', getDeviceBreakdown);
+router.get('/disaggregation', getDisaggregation);
 router.get('/carbon-trend', getCarbonTrend);
 router.get('/dashboard-stats', getDashboardStats);
 
@@ -0,0 +1,31 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { validate } from '../validators/auth.validator.js';
+import {
+  createAutomationSchema,
+  updateAutomationSchema
+} from '../validators/automation.validator.js';
+import {
+  getAutomations,
+  getAutomation,
+  createAutomation,
+  updateAutomation,
+  deleteAutomation,
+  runAutomation,
+  getAutomationRuns
+} from '../controllers/automation.controller.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get('/', getAutomations);
+router.post('/', validate(createAutomationSchema), createAutomation);
+router.get('/runs', getAutomationRuns);
+router.get('/:id', getAutomation);
+router.put('/:id', validate(updateAutomationSchema), updateAutomation);
+router.delete('/:id', deleteAutomation);
+router.get('/:id/runs', getAutomationRuns);
+router.post('/:id/run', runAutomation);
+
+export default router;
@@ -1,11 +1,16 @@
 import express from 'express';
 import { authenticate } from '../middleware/auth.js';
+import { validate } from '../validators/auth.validator.js';
+import { recordPaymentSchema } from '../validators/billing.validator.js';
 import {
   getCurrentBill,
   getBillHistory,
   getBudgetStatus,
   getSavings,
-  generateBill
+  generateBill,
+  getBill,
+  recordPayment,
+  getPayments
 } from '../controllers/billing.controller.js';
 
 const router = express.Router();
@@ -17,5 +22,8 @@ router.get('/history', getBillHistory);
 router.get('/budget-status', getBudgetStatus);
 router.get('/savings', getSavings);
 router.post('/generate', generateBill);
+router.get('/:id', getBill);
+router.get('/:id/payments', getPayments);
+router.post('/:id/payments', validate(recordPaymentSchema), recordPayment);
 
 export default router;
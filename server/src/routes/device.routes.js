@@ -5,7 +5,12 @@ import {
   createDeviceSchema, 
   updateDeviceSchema, 
   toggleDeviceSchema, 
-  intensitySchema 
+  intensitySchema,
+  bulkToggleSchema,
+  bulkIntensitySchema,
+  bulkDeleteSchema,
+  bulkMoveSchema,
+  bulkRestoreSchema
 } from '../validators/device.validator.js';
 import {
   getDevices,
@@ -16,7 +21,14 @@ import {
   toggleDevice,
   setIntensity,
   getRooms,
-  getDeviceStats
+  getDeviceStats,
+  bulkToggle,
+  bulkSetIntensity,
+  bulkDelete,
+  bulkMove,
+  bulkRestore,
+  restoreDevice,
+  recordDeviceHeartbeat
 } from '../controllers/device.controller.js';
 
 const router = express.Router();
@@ -26,11 +38,18 @@ router.use(authenticate);
 router.get('/', getDevices);
 router.get('/rooms', getRooms);
 router.post('/', validate(createDeviceSchema), createDevice);
+router.post('/bulk/toggle', validate(bulkToggleSchema), bulkToggle);
+router.post('/bulk/intensity', validate(bulkIntensitySchema), bulkSetIntensity);
+router.post('/bulk/delete', validate(bulkDeleteSchema), bulkDelete);
+router.post('/bulk/move', validate(bulkMoveSchema), bulkMove);
+router.post('/bulk/restore', validate(bulkRestoreSchema), bulkRestore);
 router.get('/:id', getDevice);
 router.put('/:id', validate(updateDeviceSchema), updateDevice);
 router.delete('/:id', deleteDevice);
+router.post('/:id/restore', restoreDevice);
 router.post('/:id/toggle', validate(toggleDeviceSchema), toggleDevice);
 router.post('/:id/intensity', validate(intensitySchema), setIntensity);
+router.post('/:id/heartbeat', recordDeviceHeartbeat);
 router.get('/:id/stats', getDeviceStats);
 
 export default router;
@@ -1,14 +1,16 @@
 import express from 'express';
 import { authenticate } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
 import { validate } from '../validators/auth.validator.js';
-import { dateRangeSchema, addReadingSchema } from '../validators/energy.validator.js';
+import { dateRangeSchema, addReadingSchema, batchReadingsSchema } from '../validators/energy.validator.js';
 import {
   getRealtimeUsage,
   getTodayUsage,
   getWeeklyUsage,
   getMonthlyUsage,
   getRangeData,
-  addReading
+  addReading,
+  addReadingBatch
 } from '../controllers/energy.controller.js';
 
 const router = express.Router();
@@ -21,5 +23,6 @@ router.get('/weekly', getWeeklyUsage);
 router.get('/monthly', getMonthlyUsage);
 router.get('/range', validate(dateRangeSchema), getRangeData);
 router.post('/reading', validate(addReadingSchema), addReading);
+router.post('/readings/batch', validate(batchReadingsSchema), idempotent, addReadingBatch);
 
 export default router;
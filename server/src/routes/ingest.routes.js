@@ -0,0 +1,18 @@
+import express from 'express';
+import { authenticateIngestKey } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { ingestKeyLimiter } from '../middleware/rateLimit.js';
+import { validate } from '../validators/auth.validator.js';
+import { ingestReadingSchema, batchReadingsSchema } from '../validators/energy.validator.js';
+import { addIngestReading } from '../controllers/ingest.controller.js';
+import { addReadingBatch } from '../controllers/energy.controller.js';
+
+const router = express.Router();
+
+router.use(authenticateIngestKey);
+router.use(ingestKeyLimiter);
+
+router.post('/reading', validate(ingestReadingSchema), addIngestReading);
+router.post('/readings/batch', validate(batchReadingsSchema), idempotent, addReadingBatch);
+
+export default router;
@@ -0,0 +1,21 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { validate } from '../validators/auth.validator.js';
+import { createIngestKeySchema } from '../validators/ingestKey.validator.js';
+import {
+  getIngestKeys,
+  createIngestKey,
+  rotateIngestKey,
+  revokeIngestKey
+} from '../controllers/ingestKey.controller.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get('/', getIngestKeys);
+router.post('/', validate(createIngestKeySchema), createIngestKey);
+router.post('/:id/rotate', rotateIngestKey);
+router.delete('/:id', revokeIngestKey);
+
+export default router;
@@ -0,0 +1,19 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  deleteNotification
+} from '../controllers/notification.controller.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get('/', getNotifications);
+router.post('/read-all', markAllNotificationsRead);
+router.post('/:id/read', markNotificationRead);
+router.delete('/:id', deleteNotification);
+
+export default router;
@@ -0,0 +1,25 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { validate } from '../validators/auth.validator.js';
+import { createSceneSchema, updateSceneSchema } from '../validators/scene.validator.js';
+import {
+  getScenes,
+  getScene,
+  createScene,
+  updateScene,
+  deleteScene,
+  activateScene
+} from '../controllers/scene.controller.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get('/', getScenes);
+router.post('/', validate(createSceneSchema), createScene);
+router.get('/:id', getScene);
+router.put('/:id', validate(updateSceneSchema), updateScene);
+router.delete('/:id', deleteScene);
+router.post('/:id/activate', activateScene);
+
+export default router;
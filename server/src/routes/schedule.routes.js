@@ -0,0 +1,31 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { validate } from '../validators/auth.validator.js';
+import {
+  createScheduleSchema,
+  updateScheduleSchema,
+  cheapestRunSchema
+} from '../validators/schedule.validator.js';
+import {
+  getSchedules,
+  getSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  previewCheapestRun,
+  scheduleCheapestRun
+} from '../controllers/schedule.controller.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get('/', getSchedules);
+router.post('/', validate(createScheduleSchema), createSchedule);
+router.post('/cheapest/preview', validate(cheapestRunSchema), previewCheapestRun);
+router.post('/cheapest', validate(cheapestRunSchema), scheduleCheapestRun);
+router.get('/:id', getSchedule);
+router.put('/:id', validate(updateScheduleSchema), updateSchedule);
+router.delete('/:id', deleteSchedule);
+
+export default router;
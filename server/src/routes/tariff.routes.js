@@ -0,0 +1,27 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { validate } from '../validators/auth.validator.js';
+import { createTariffSchema, updateTariffSchema } from '../validators/tariff.validator.js';
+import {
+  getTariffs,
+  getActive,
+  getTariff,
+  createTariff,
+  updateTariff,
+  activateTariff,
+  deleteTariff
+} from '../controllers/tariff.controller.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get('/', getTariffs);
+router.get('/active', getActive);
+router.post('/', validate(createTariffSchema), createTariff);
+router.get('/:id', getTariff);
+router.put('/:id', validate(updateTariffSchema), updateTariff);
+router.delete('/:id', deleteTariff);
+router.post('/:id/activate', activateTariff);
+
+export default router;
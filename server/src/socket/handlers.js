@@ -2,6 +2,9 @@ import jwt from 'jsonwebtoken';
 import Device from '../models/Device.model.js';
 import EnergyReading from '../models/EnergyReading.model.js';
 import User from '../models/User.model.js';
+import { applyDeviceState } from '../utils/deviceControl.js';
+import { triggerAutomations } from '../utils/automation.js';
+import { recordHeartbeat } from '../utils/deviceConnectivity.js';
 
 export const setupSocketHandlers = (io) => {
   // Authentication middleware for socket connections
@@ -48,23 +51,14 @@ export const setupSocketHandlers = (io) => {
           return;
         }
 
+        // Save and broadcast to all user's connected devices
         if (action === 'toggle') {
-          device.status = value;
-          device.lastUsed = value ? new Date() : null;
+          await applyDeviceState(io, device, { status: value });
+          triggerAutomations(io, socket.userId, { type: 'device', device });
         } else if (action === 'intensity') {
-          device.intensity = value;
+          await applyDeviceState(io, device, { intensity: value });
         }
 
-        await device.save();
-
-        // Broadcast to all user's connected devices
-        io.to(socket.userId).emit('device:status', {
-          deviceId: device._id,
-          status: device.status,
-          intensity: device.intensity,
-          timestamp: new Date()
-        });
-
         // Acknowledge to sender
         socket.emit('device:control:ack', {
           success: true,
@@ -77,6 +71,22 @@ export const setupSocketHandlers = (io) => {
       }
     });
 
+    // A device (or its hub) reporting that it is alive, either on its own or
+    // when acknowledging a control command
+    const handleHeartbeat = async (data) => {
+      try {
+        const device = await recordHeartbeat(io, socket.userId, data?.deviceId);
+        if (!device) {
+          socket.emit('error', { message: 'Device not found' });
+        }
+      } catch (error) {
+        console.error('Socket heartbeat error:', error);
+        socket.emit('error', { message: 'Failed to record heartbeat' });
+      }
+    };
+    socket.on('device:heartbeat', handleHeartbeat);
+    socket.on('device:ack', handleHeartbeat);
+
     // Subscribe to real-time energy updates
     socket.on('energy:subscribe', () => {
       socket.join(`energy:${socket.userId}`);
@@ -105,11 +115,33 @@ export const broadcastEnergyUpdate = (io, userId, data) => {
   });
 };
 
-// Helper function to broadcast alerts
-export const broadcastAlert = (io, userId, type, message) => {
+// Helper function to broadcast alerts; `details` are merged into the payload
+export const broadcastAlert = (io, userId, type, message, details = {}) => {
   io.to(userId).emit('alert', {
     type,
     message,
+    timestamp: new Date(),
+    ...details
+  });
+};
+
+// Helper function to broadcast a device's current state
+export const broadcastDeviceStatus = (io, userId, device, source = 'user') => {
+  io.to(userId).emit('device:status', {
+    deviceId: device._id,
+    status: device.status,
+    intensity: device.intensity,
+    source,
+    timestamp: new Date()
+  });
+};
+
+// Helper function to broadcast a device going online or offline
+export const broadcastDeviceConnectivity = (io, userId, device) => {
+  io.to(userId).emit('device:connectivity', {
+    deviceId: device._id,
+    connectivity: device.connectivity,
+    lastSeenAt: device.lastSeenAt,
     timestamp: new Date()
   });
 };
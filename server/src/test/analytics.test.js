@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import EnergyReading from '../models/EnergyReading.model.js';
+import Device from '../models/Device.model.js';
+import { getPeriodRange, getDeviceBreakdown } from '../controllers/analytics.controller.js';
+import { createReq, runHandler } from './helpers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 10 March 2026, 17:30 in India
+const now = new Date('2026-03-10T12:00:00Z');
+const user = { _id: new mongoose.Types.ObjectId(), settings: { timezone: 'Asia/Kolkata', meterReadDay: 15 } };
+
+describe('getPeriodRange', () => {
+  it('covers custom local dates, including the last one, across a meter read day', () => {
+    const range = getPeriodRange({ period: 'custom', from: '2026-03-10', to: '2026-03-20' }, now, user);
+
+    // Midnight in India, regardless of the read day on the 15th
+    expect(range).toEqual({
+      period: 'custom',
+      from: new Date('2026-03-09T18:30:00Z'),
+      to: new Date('2026-03-20T18:30:00Z')
+    });
+    expect(range.to - range.from).toBe(11 * DAY_MS);
+  });
+
+  it('starts the month at the current billing period', () => {
+    expect(getPeriodRange({ period: 'month' }, now, user)).toEqual({
+      period: 'month',
+      from: new Date('2026-02-14T18:30:00Z'),
+      to: now
+    });
+  });
+
+  it('defaults to the last seven local days', () => {
+    expect(getPeriodRange({}, now, user)).toEqual({ period: 'week', from: new Date('2026-03-03T18:30:00Z'), to: now });
+  });
+
+  it('rejects invalid custom ranges', () => {
+    expect(getPeriodRange({ period: 'custom', from: '2026-03-10' }, now, user)).toBeNull();
+    expect(getPeriodRange({ period: 'custom', from: '10/03/2026', to: '2026-03-20' }, now, user)).toBeNull();
+    expect(getPeriodRange({ period: 'custom', from: '2026-03-20', to: '2026-03-10' }, now, user)).toBeNull();
+    expect(getPeriodRange({ period: 'custom', from: '2025-01-01', to: '2026-03-01' }, now, user)).toBeNull();
+    expect(getPeriodRange({ period: 'year' }, now, user)).toBeNull();
+  });
+});
+
+describe('getDeviceBreakdown', () => {
+  const fridgeId = new mongoose.Types.ObjectId();
+  const heaterId = new mongoose.Types.ObjectId();
+
+  // Per-device totals, then the whole-home meter's totals by rate
+  const stubUsage = (byDevice, wholeHome) => {
+    vi.spyOn(EnergyReading, 'aggregate')
+      .mockResolvedValueOnce(byDevice)
+      .mockResolvedValueOnce([{ _id: 8, ...wholeHome }]);
+    vi.spyOn(Device, 'find').mockReturnValue({
+      setOptions: async () => [
+        { _id: fridgeId, name: 'Fridge', type: 'Refrigerator' },
+        { _id: heaterId, name: 'Heater', type: 'Heater' }
+      ]
+    });
+  };
+
+  const getBreakdown = async () => {
+    const res = await runHandler(getDeviceBreakdown, createReq({ query: { period: 'week' }, user }));
+    return res.body.data;
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports whole-home usage beyond the metered devices as unattributed', async () => {
+    stubUsage([
+      { _id: fridgeId, usage: 3, cost: 24, estimated: false },
+      { _id: heaterId, usage: 5, cost: 40, estimated: true }
+    ], { units: 10, cost: 80, solar: 0 });
+
+    const data = await getBreakdown();
+
+    expect(data.breakdown.map(d => [d.name, d.usage, d.percentage])).toEqual([
+      ['Heater', 5, '50.0'],
+      ['Fridge', 3, '30.0'],
+      ['Unattributed / Other', 2, '20.0']
+    ]);
+    expect(data.unattributed).toEqual({ usage: 2, cost: 16 });
+    expect(data).toMatchObject({ totalUsage: 10, totalCost: 80 });
+  });
+
+  it('has no unattributed slice when the devices read more than the whole-home meter', async () => {
+    stubUsage([
+      { _id: fridgeId, usage: 6, cost: 48, estimated: false },
+      { _id: heaterId, usage: 6, cost: 48, estimated: false }
+    ], { units: 10, cost: 80, solar: 0 });
+
+    const data = await getBreakdown();
+
+    expect(data.breakdown.map(d => d.name)).toEqual(['Fridge', 'Heater']);
+    expect(data.breakdown.map(d => d.percentage)).toEqual(['50.0', '50.0']);
+    expect(data.unattributed).toEqual({ usage: 0, cost: 0 });
+    expect(data).toMatchObject({ totalUsage: 12, totalCost: 96, wholeHome: { usage: 10, cost: 80 } });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import mongoose from 'mongoose';
+import EnergyReading from '../models/EnergyReading.model.js';
+import { buildBaseline, getHourStats, isSpike, getBaseload, isLeftOnOvernight, detectUsageSpike } from '../utils/anomaly.js';
+import { createIo } from './helpers.js';
+
+const timeZone = 'Asia/Kolkata';
+
+describe('buildBaseline', () => {
+  it('learns the mean and spread of each hour of the week', () => {
+    const baseline = buildBaseline([
+      { weekday: 1, hour: 18, usage: 1 },
+      { weekday: 1, hour: 18, usage: 3 },
+      { weekday: 2, hour: 18, usage: 5 }
+    ]);
+
+    expect(getHourStats(baseline, 1, 18)).toEqual({ mean: 2, std: 1, samples: 2 });
+    expect(getHourStats(baseline, 3, 18)).toBeNull();
+  });
+});
+
+describe('isSpike', () => {
+  const stats = { mean: 1, std: 0.1, samples: 4 };
+
+  it('flags usage well above the usual for the hour', () => {
+    expect(isSpike(2, stats)).toBe(true);
+    expect(isSpike(1.2, stats)).toBe(false);
+  });
+
+  it('needs enough history and a meaningful amount of energy', () => {
+    expect(isSpike(2, { ...stats, samples: 2 })).toBe(false);
+    expect(isSpike(0.2, { mean: 0.05, std: 0.01, samples: 4 })).toBe(false);
+  });
+});
+
+describe('getBaseload', () => {
+  it('takes the low end of hourly usage, ignoring a single outage', () => {
+    const hours = [0, ...Array(9).fill(0.3), ...Array(10).fill(2)];
+    expect(getBaseload(hours)).toBe(0.3);
+    expect(getBaseload([])).toBeNull();
+  });
+});
+
+describe('isLeftOnOvernight', () => {
+  // 02:30 IST on 13 January 2026
+  const night = new Date('2026-01-12T21:00:00Z');
+  const evening = new Date('2026-01-12T16:30:00Z');
+  const device = { status: true, type: 'Heater', lastUsed: evening };
+
+  it('flags devices on since before midnight during the night', () => {
+    expect(isLeftOnOvernight(device, night, timeZone)).toBe(true);
+  });
+
+  it('ignores devices switched on after midnight, always-on types and daytime', () => {
+    expect(isLeftOnOvernight({ ...device, lastUsed: new Date('2026-01-12T19:00:00Z') }, night, timeZone)).toBe(false);
+    expect(isLeftOnOvernight({ ...device, type: 'Refrigerator' }, night, timeZone)).toBe(false);
+    expect(isLeftOnOvernight(device, new Date('2026-01-13T04:30:00Z'), timeZone)).toBe(false);
+  });
+});
+
+describe('detectUsageSpike', () => {
+  it('learns the baseline once per hour', async () => {
+    const user = { _id: new mongoose.Types.ObjectId(), settings: { timezone: 'UTC' } };
+    const aggregate = vi.spyOn(EnergyReading, 'aggregate').mockResolvedValue([{ _id: '2026-03-10T10', usage: 0.1 }]);
+    const io = createIo();
+
+    await detectUsageSpike(io, user, new Date('2026-03-10T10:05:00Z'));
+    await detectUsageSpike(io, user, new Date('2026-03-10T10:20:00Z'));
+    // The current hour's usage is read every time, the 28 days before it once
+    expect(aggregate).toHaveBeenCalledTimes(3);
+
+    await detectUsageSpike(io, user, new Date('2026-03-10T11:05:00Z'));
+    expect(aggregate).toHaveBeenCalledTimes(5);
+    aggregate.mockRestore();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { compareValue, getReadingPower, getTimeTriggerOccurrence, matchesCondition } from '../utils/automation.js';
+
+const timeZone = 'Asia/Kolkata';
+
+describe('compareValue', () => {
+  it('applies each operator', () => {
+    expect(compareValue('gt', 4.5, 4)).toBe(true);
+    expect(compareValue('gt', 4, 4)).toBe(false);
+    expect(compareValue('gte', 4, 4)).toBe(true);
+    expect(compareValue('lt', 0.5, 1)).toBe(true);
+    expect(compareValue('lte', 1.5, 1)).toBe(false);
+  });
+});
+
+describe('getReadingPower', () => {
+  it('averages a reading over the interval since the previous one', () => {
+    // A steady 4 kW draw is 1 kWh every 15 minutes
+    const power = getReadingPower(1, new Date('2026-01-12T10:00:00Z'), new Date('2026-01-12T10:15:00Z'));
+    expect(power).toBe(4);
+    expect(compareValue('gte', power, 4)).toBe(true);
+    expect(getReadingPower(0.5, new Date('2026-01-12T09:00:00Z'), new Date('2026-01-12T10:00:00Z'))).toBe(0.5);
+  });
+
+  it('is unknown without an earlier reading', () => {
+    expect(getReadingPower(1, null, new Date('2026-01-12T10:15:00Z'))).toBeNull();
+    expect(getReadingPower(1, new Date('2026-01-12T10:15:00Z'), new Date('2026-01-12T10:15:00Z'))).toBeNull();
+  });
+});
+
+describe('getTimeTriggerOccurrence', () => {
+  it('returns today\'s time in the user timezone', () => {
+    // Monday 12 January 2026, 10:00 IST
+    const at = getTimeTriggerOccurrence({ time: '22:30' }, new Date('2026-01-12T04:30:00Z'), timeZone);
+    expect(at.toISOString()).toBe('2026-01-12T17:00:00.000Z');
+  });
+
+  it('skips days the trigger is not set for', () => {
+    const weekends = { time: '08:00', daysOfWeek: [0, 6] };
+    expect(getTimeTriggerOccurrence(weekends, new Date('2026-01-12T04:30:00Z'), timeZone)).toBeNull();
+  });
+});
+
+describe('matchesCondition', () => {
+  const devices = new Map([['d1', { status: true }]]);
+
+  it('checks time windows, including ones that wrap past midnight', () => {
+    // 23:30 IST
+    const context = { now: new Date('2026-01-12T18:00:00Z'), timeZone, devices };
+    expect(matchesCondition({ type: 'time_window', start: '22:00', end: '06:00' }, context)).toBe(true);
+    expect(matchesCondition({ type: 'time_window', start: '18:00', end: '22:00' }, context)).toBe(false);
+  });
+
+  it('checks the day of week in the user timezone', () => {
+    // Sunday 23:00 UTC is already Monday in IST
+    const context = { now: new Date('2026-01-11T23:00:00Z'), timeZone, devices };
+    expect(matchesCondition({ type: 'days_of_week', daysOfWeek: [1] }, context)).toBe(true);
+  });
+
+  it('checks device states', () => {
+    const context = { now: new Date(), timeZone, devices };
+    expect(matchesCondition({ type: 'device_state', deviceId: 'd1', state: 'on' }, context)).toBe(true);
+    expect(matchesCondition({ type: 'device_state', deviceId: 'd2', state: 'off' }, context)).toBe(false);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateMonthlyBills, markOverdueBills, sendDueReminders } from '../jobs/billing.jobs.js';
+import Bill from '../models/Bill.model.js';
+import { createMonthlyBill } from '../utils/billing.js';
+import { notify } from '../utils/notifications.js';
+
+// In-memory stand-ins for the users, their first readings, the bills that
+// exist and the periods that have readings, keyed `${userId}:${year}-${monthIndex}`,
+// plus the stored bills that the overdue and reminder queries return
+const store = vi.hoisted(() => ({
+  users: [],
+  firstReadings: new Map(),
+  bills: new Set(),
+  readings: new Set(),
+  storedBills: []
+}));
+
+vi.mock('../models/Bill.model.js', () => ({
+  default: { find: vi.fn(async () => store.storedBills) }
+}));
+
+vi.mock('../models/User.model.js', () => ({
+  default: { find: vi.fn(async () => store.users) }
+}));
+
+vi.mock('../models/EnergyReading.model.js', () => ({
+  default: {
+    findOne: vi.fn(async ({ userId }) => {
+      const timestamp = store.firstReadings.get(userId);
+      return timestamp ? { timestamp } : null;
+    })
+  }
+}));
+
+vi.mock('../utils/billing.js', () => ({
+  createMonthlyBill: vi.fn(async (userId, year, monthIndex, { skipEmpty }) => {
+    const key = `${userId}:${year}-${monthIndex}`;
+    if (store.bills.has(key)) return { status: 'exists', bill: null };
+    if (skipEmpty && !store.readings.has(key)) return { status: 'empty', bill: null };
+    store.bills.add(key);
+    return { status: 'created', bill: { _id: key, month: 'Month', year, amount: 100 } };
+  })
+}));
+
+vi.mock('../utils/notifications.js', () => ({
+  notify: vi.fn(async () => null)
+}));
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const addUser = (id, createdAt, firstReading, readingMonths = []) => {
+  store.users.push({ _id: id, createdAt: new Date(createdAt), settings: {} });
+  if (firstReading) store.firstReadings.set(id, new Date(firstReading));
+  readingMonths.forEach(month => store.readings.add(`${id}:${month}`));
+};
+
+const billedPeriods = () => createMonthlyBill.mock.calls.map(([userId, year, monthIndex]) => `${userId}:${year}-${monthIndex}`);
+
+beforeEach(() => {
+  store.users = [];
+  store.firstReadings.clear();
+  store.bills.clear();
+  store.readings.clear();
+  store.storedBills = [];
+  vi.clearAllMocks();
+});
+
+describe('generateMonthlyBills', () => {
+  it('backfills missed periods up to the limit', async () => {
+    const months = ['2025-2', '2025-3', '2025-4', '2025-5', '2025-6', '2025-7', '2025-8', '2025-9', '2025-10', '2025-11', '2026-0', '2026-1'];
+    addUser('u1', '2024-01-01T00:00:00Z', '2024-01-05T00:00:00Z', months);
+
+    const report = await generateMonthlyBills(null, now, 12);
+
+    expect(billedPeriods()).toEqual(months.map(m => `u1:${m}`));
+    expect(report).toMatchObject({ users: 1, created: 12, skipped: 0, failed: 0 });
+    expect(notify).toHaveBeenCalledTimes(12);
+  });
+
+  it('creates nothing new when run again', async () => {
+    addUser('u1', '2025-12-01T00:00:00Z', '2025-12-01T00:00:00Z', ['2025-11', '2026-0', '2026-1']);
+
+    await generateMonthlyBills(null, now, 12);
+    const rerun = await generateMonthlyBills(null, now, 12);
+
+    expect(rerun).toMatchObject({ created: 0, skipped: 3, failed: 0 });
+    expect(notify).toHaveBeenCalledTimes(3);
+  });
+
+  it('starts from the later of the join date and the first reading', async () => {
+    addUser('joined-late', '2025-12-15T00:00:00Z', '2025-06-01T00:00:00Z');
+    addUser('read-late', '2024-01-01T00:00:00Z', '2026-01-20T00:00:00Z');
+
+    await generateMonthlyBills(null, now, 12);
+
+    expect(billedPeriods()).toEqual([
+      'joined-late:2025-11', 'joined-late:2026-0', 'joined-late:2026-1',
+      'read-late:2026-0', 'read-late:2026-1'
+    ]);
+  });
+
+  it('does not check users without readings', async () => {
+    addUser('u1', '2024-01-01T00:00:00Z', null);
+
+    const report = await generateMonthlyBills(null, now, 12);
+
+    expect(createMonthlyBill).not.toHaveBeenCalled();
+    expect(report).toMatchObject({ users: 1, created: 0, skipped: 0 });
+  });
+
+  it('skips periods without readings', async () => {
+    addUser('u1', '2025-12-01T00:00:00Z', '2025-12-01T00:00:00Z', ['2026-0']);
+
+    const report = await generateMonthlyBills(null, now, 12);
+
+    expect(createMonthlyBill.mock.calls.every(([, , , options]) => options.skipEmpty)).toBe(true);
+    expect(report).toMatchObject({ created: 1, skipped: 2 });
+  });
+
+  it('reports a failed period and carries on', async () => {
+    addUser('u1', '2025-12-01T00:00:00Z', '2025-12-01T00:00:00Z', ['2025-11', '2026-0', '2026-1']);
+    createMonthlyBill.mockRejectedValueOnce(new Error('boom'));
+
+    const report = await generateMonthlyBills(null, now, 12);
+
+    expect(report).toMatchObject({ created: 2, failed: 1 });
+    expect(report.errors).toEqual([{ userId: 'u1', year: 2025, month: 12, message: 'boom' }]);
+  });
+});
+
+const addStoredBill = (fields) => {
+  const bill = {
+    _id: `bill-${store.storedBills.length + 1}`,
+    userId: 'u1',
+    month: 'February',
+    year: 2026,
+    amount: 1200,
+    amountPaid: 200,
+    status: 'pending',
+    reminderSentAt: null,
+    save: vi.fn(async () => null),
+    ...fields
+  };
+  store.storedBills.push(bill);
+  return bill;
+};
+
+describe('markOverdueBills', () => {
+  it('marks pending bills a day past their due date overdue', async () => {
+    const bill = addStoredBill({ dueDate: new Date('2026-03-08T00:00:00Z') });
+
+    expect(await markOverdueBills(null, now)).toBe(1);
+
+    expect(Bill.find).toHaveBeenCalledWith({ status: 'pending', dueDate: { $lt: new Date('2026-03-09T12:00:00Z') } });
+    expect(bill.status).toBe('overdue');
+    expect(bill.save).toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledWith(null, 'u1', {
+      type: 'bill_overdue',
+      message: 'Your February 2026 bill is overdue. Outstanding: ₹1000.00',
+      data: { billId: 'bill-1' }
+    });
+  });
+
+  it('does nothing when no bill is overdue', async () => {
+    expect(await markOverdueBills(null, now)).toBe(0);
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
+
+describe('sendDueReminders', () => {
+  it('reminds once about bills due within three days', async () => {
+    const bill = addStoredBill({ dueDate: new Date('2026-03-12T00:00:00Z') });
+
+    expect(await sendDueReminders(null, now)).toBe(1);
+
+    expect(Bill.find).toHaveBeenCalledWith({
+      status: 'pending',
+      reminderSentAt: null,
+      dueDate: { $gte: now, $lte: new Date('2026-03-13T12:00:00Z') }
+    });
+    expect(bill.reminderSentAt).toEqual(now);
+    expect(bill.save).toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledWith(null, 'u1', {
+      type: 'bill_reminder',
+      message: `Your February 2026 bill of ₹1000.00 is due on ${bill.dueDate.toDateString()}`,
+      data: { billId: 'bill-1' }
+    });
+  });
+});
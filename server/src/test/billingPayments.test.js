@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import Bill from '../models/Bill.model.js';
+import { recordPayment, getCurrentBill } from '../controllers/billing.controller.js';
+import { DEFAULT_BUDGET } from '../utils/budget.js';
+import { getBillingPeriod, getPeriodOptions } from '../utils/billingPeriod.js';
+import { createReq, runHandler } from './helpers.js';
+
+const userId = new mongoose.Types.ObjectId();
+
+const createBill = (fields = {}) => new Bill({
+  userId,
+  month: 'February',
+  year: 2026,
+  amount: 1200,
+  status: 'pending',
+  dueDate: new Date('2026-03-15T00:00:00Z'),
+  ...fields
+});
+
+const pay = (bill, body) => {
+  vi.spyOn(Bill, 'findOne').mockResolvedValue(bill);
+  return runHandler(recordPayment, createReq({ params: { id: bill._id }, body, user: { _id: userId } }));
+};
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(Bill.prototype, 'save').mockImplementation(function save() {
+    return Promise.resolve(this);
+  });
+});
+
+describe('recordPayment', () => {
+  it('records a partial payment', async () => {
+    const bill = createBill();
+
+    const res = await pay(bill, { amount: 500, method: 'upi', paidAt: '2026-03-01T10:00:00Z' });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.message).toBe('Partial payment recorded');
+    expect(bill.status).toBe('pending');
+    expect(bill.amountPaid).toBe(500);
+  });
+
+  it('settles the bill once the balance is paid', async () => {
+    const bill = createBill({ status: 'overdue', payments: [{ amount: 500, method: 'upi', paidAt: new Date('2026-03-01T10:00:00Z') }] });
+
+    const res = await pay(bill, { amount: 700, method: 'card', paidAt: '2026-03-20T10:00:00Z' });
+
+    expect(res.body.message).toBe('Bill paid in full');
+    expect(bill.status).toBe('paid');
+    expect(bill.paidDate).toEqual(new Date('2026-03-20T10:00:00Z'));
+  });
+
+  it('rejects payments above the outstanding balance', async () => {
+    const bill = createBill({ payments: [{ amount: 1000, method: 'upi', paidAt: new Date('2026-03-01T10:00:00Z') }] });
+
+    const res = await pay(bill, { amount: 250, method: 'upi' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toBe('Payment exceeds the outstanding balance of ₹200.00');
+    expect(bill.payments).toHaveLength(1);
+    expect(Bill.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('rejects payment dates in the future', async () => {
+    const bill = createBill();
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+    await expect(pay(bill, { amount: 100, method: 'upi', paidAt: tomorrow })).rejects.toThrow('Payment date cannot be in the future');
+    expect(Bill.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('rejects payments on a paid bill', async () => {
+    const res = await pay(createBill({ status: 'paid' }), { amount: 100, method: 'upi' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toBe('Bill is already paid');
+  });
+});
+
+describe('getCurrentBill', () => {
+  const getBudget = async (settings) => {
+    const user = { _id: userId, settings };
+    const period = getBillingPeriod(new Date(), getPeriodOptions(user));
+    vi.spyOn(Bill, 'findOne').mockResolvedValue(createBill({ month: period.month, year: period.year, amount: 1500 }));
+
+    const res = await runHandler(getCurrentBill, createReq({ user }));
+    return res.body.data.budget;
+  };
+
+  it("compares the bill with the user's monthly budget", async () => {
+    expect(await getBudget({ monthlyBudget: 3000 })).toEqual({ limit: 3000, used: 1500, percentage: '50.0', remaining: 1500 });
+  });
+
+  it('falls back to the default budget', async () => {
+    expect((await getBudget({})).limit).toBe(DEFAULT_BUDGET);
+  });
+});
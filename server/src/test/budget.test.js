@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import mongoose from 'mongoose';
+import EnergyReading from '../models/EnergyReading.model.js';
+import {
+  getBudgetSummary,
+  getBudgetThresholds,
+  getCrossedThresholds,
+  describeBudget,
+  triggerBudgetCheck,
+  BUDGET_CHECK_INTERVAL_MS
+} from '../utils/budget.js';
+import { createIo } from './helpers.js';
+import { getPeriodForMonth } from '../utils/billingPeriod.js';
+
+const period = getPeriodForMonth(2024, 5, { timeZone: 'UTC' });
+
+describe('getBudgetSummary', () => {
+  it('projects the spend rate across the period', () => {
+    const now = new Date('2024-06-11T00:00:00Z');
+    const summary = getBudgetSummary({ budget: 3000, spent: 1200, period, now });
+
+    expect(summary.percentage).toBe(40);
+    expect(summary.projected).toBe(3600);
+    expect(summary.projectedOverspend).toBe(600);
+    expect(summary.remaining).toBe(1800);
+  });
+
+  it('does not project before the period starts', () => {
+    const summary = getBudgetSummary({ budget: 3000, spent: 0, period, now: period.start });
+    expect(summary.projected).toBe(0);
+    expect(summary.projectedOverspend).toBe(0);
+  });
+});
+
+describe('getBudgetThresholds', () => {
+  it('sorts and dedupes the user thresholds', () => {
+    expect(getBudgetThresholds({ settings: { budgetThresholds: [100, 50, 80, 50] } })).toEqual([50, 80, 100]);
+  });
+
+  it('falls back to the defaults', () => {
+    expect(getBudgetThresholds({ settings: { budgetThresholds: [] } })).toEqual([50, 80, 100]);
+    expect(getBudgetThresholds(null)).toEqual([50, 80, 100]);
+  });
+});
+
+describe('getCrossedThresholds', () => {
+  it('returns every threshold reached', () => {
+    expect(getCrossedThresholds(85, [50, 80, 100])).toEqual([50, 80]);
+    expect(getCrossedThresholds(100, [50, 80, 100])).toEqual([50, 80, 100]);
+    expect(getCrossedThresholds(10, [50, 80, 100])).toEqual([]);
+  });
+});
+
+describe('describeBudget', () => {
+  it('includes the projected overspend', () => {
+    const message = describeBudget(80, { budget: 1000, spent: 800, projected: 1250, projectedOverspend: 250 });
+    expect(message).toContain('80% of your ₹1000.00 budget');
+    expect(message).toContain('₹250.00 over budget');
+  });
+
+  it('says when the projection stays within budget', () => {
+    const message = describeBudget(100, { budget: 1000, spent: 1000, projected: 1000, projectedOverspend: 0 });
+    expect(message).toContain('gone over');
+    expect(message).toContain('within budget');
+  });
+});
+
+describe('triggerBudgetCheck', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+  const later = (ms) => new Date(now.getTime() + ms);
+
+  it('checks each user at most once per interval', async () => {
+    const user = { _id: new mongoose.Types.ObjectId(), settings: {} };
+    const other = { _id: new mongoose.Types.ObjectId(), settings: {} };
+    const aggregate = vi.spyOn(EnergyReading, 'aggregate').mockResolvedValue([]);
+    const io = createIo();
+
+    triggerBudgetCheck(io, user, now);
+    triggerBudgetCheck(io, user, later(BUDGET_CHECK_INTERVAL_MS - 1));
+    triggerBudgetCheck(io, other, now);
+    expect(aggregate).toHaveBeenCalledTimes(2);
+
+    triggerBudgetCheck(io, user, later(BUDGET_CHECK_INTERVAL_MS));
+    expect(aggregate).toHaveBeenCalledTimes(3);
+    aggregate.mockRestore();
+  });
+
+  it('tries again on the next reading after a failure', async () => {
+    const user = { _id: new mongoose.Types.ObjectId(), settings: {} };
+    const aggregate = vi.spyOn(EnergyReading, 'aggregate').mockRejectedValueOnce(new Error('Database unavailable'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    triggerBudgetCheck(createIo(), user, now);
+    await vi.waitFor(() => expect(error).toHaveBeenCalledWith('❌ Budget check failed:', 'Database unavailable'));
+    aggregate.mockResolvedValue([]);
+
+    triggerBudgetCheck(createIo(), user, later(1000));
+    expect(aggregate).toHaveBeenCalledTimes(2);
+    aggregate.mockRestore();
+    error.mockRestore();
+  });
+});
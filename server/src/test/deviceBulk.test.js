@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import Device from '../models/Device.model.js';
+import { bulkToggle, bulkDelete, bulkMove, bulkRestore } from '../controllers/device.controller.js';
+import { applyDeviceState } from '../utils/deviceControl.js';
+import { triggerAutomations } from '../utils/automation.js';
+import { createReq, runHandler } from './helpers.js';
+
+vi.mock('../utils/deviceControl.js', () => ({
+  applyDeviceState: vi.fn(async () => null)
+}));
+
+vi.mock('../utils/automation.js', () => ({
+  triggerAutomations: vi.fn()
+}));
+
+const userId = new mongoose.Types.ObjectId();
+
+const createDevice = (name, fields = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  userId,
+  name,
+  room: 'Kitchen',
+  deletedAt: null,
+  save: vi.fn(async () => null),
+  ...fields
+});
+
+const toIds = devices => devices.map(d => d._id.toString());
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+describe('bulk device endpoints', () => {
+  it('responds 200 when every device succeeds', async () => {
+    const devices = [createDevice('Kettle'), createDevice('Toaster')];
+    vi.spyOn(Device, 'find').mockResolvedValue(devices);
+
+    const res = await runHandler(bulkToggle, createReq({ body: { ids: toIds(devices), status: true }, user: { _id: userId } }));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(res.body.message).toBe('2 devices turned on');
+    expect(res.body.data).toMatchObject({ succeeded: 2, failed: 0 });
+    expect(applyDeviceState).toHaveBeenCalledTimes(2);
+    expect(triggerAutomations).toHaveBeenCalledTimes(2);
+  });
+
+  it('responds 207 and reports each failure when only some devices succeed', async () => {
+    const kettle = createDevice('Kettle');
+    const toaster = createDevice('Toaster', { save: vi.fn(async () => { throw new Error('Write failed'); }) });
+    const unknownId = new mongoose.Types.ObjectId().toString();
+    vi.spyOn(Device, 'find').mockResolvedValue([kettle, toaster]);
+
+    const res = await runHandler(bulkDelete, createReq({
+      body: { ids: [...toIds([kettle, toaster]), unknownId, 'not-an-id'] },
+      user: { _id: userId }
+    }));
+
+    expect(res.statusCode).toBe(207);
+    expect(res.body.success).toBe(false);
+    expect(res.body.message).toBe('1 device deleted; 3 failed');
+    expect(res.body.data.results).toEqual([
+      { deviceId: unknownId, name: null, success: false, message: 'Device not found' },
+      { deviceId: 'not-an-id', name: null, success: false, message: 'Device not found' },
+      { deviceId: kettle._id, name: 'Kettle', success: true },
+      { deviceId: toaster._id, name: 'Toaster', success: false, message: 'Write failed' }
+    ]);
+    expect(kettle.deletedAt).toBeInstanceOf(Date);
+  });
+
+  it('responds 400 with the per-device results when every device fails', async () => {
+    const kettle = createDevice('Kettle');
+    vi.spyOn(Device, 'find').mockResolvedValue([kettle]);
+    applyDeviceState.mockRejectedValueOnce(new Error('Device is offline'));
+
+    const res = await runHandler(bulkToggle, createReq({ body: { ids: toIds([kettle]), status: false }, user: { _id: userId } }));
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.data).toEqual({
+      results: [{ deviceId: kettle._id, name: 'Kettle', success: false, message: 'Device is offline' }],
+      succeeded: 0,
+      failed: 1
+    });
+  });
+
+  it('responds 404 when a room has no devices', async () => {
+    vi.spyOn(Device, 'find').mockResolvedValue([]);
+
+    const res = await runHandler(bulkToggle, createReq({ body: { room: 'Attic', status: true }, user: { _id: userId } }));
+
+    expect(res.statusCode).toBe(404);
+    expect(res.body.message).toBe('No devices found');
+    expect(Device.find).toHaveBeenCalledWith({ userId, deletedAt: null, room: 'Attic' });
+  });
+
+  it('moves devices to the trimmed room name', async () => {
+    const kettle = createDevice('Kettle');
+    vi.spyOn(Device, 'find').mockResolvedValue([kettle]);
+
+    const res = await runHandler(bulkMove, createReq({ body: { ids: toIds([kettle]), targetRoom: '  Pantry ' }, user: { _id: userId } }));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.message).toBe('1 device moved to Pantry');
+    expect(kettle.room).toBe('Pantry');
+    expect(kettle.save).toHaveBeenCalled();
+  });
+
+  it('restores only deleted devices', async () => {
+    const kettle = createDevice('Kettle', { deletedAt: new Date('2026-03-01T00:00:00Z') });
+    vi.spyOn(Device, 'find').mockResolvedValue([kettle]);
+
+    const res = await runHandler(bulkRestore, createReq({ body: { ids: toIds([kettle]) }, user: { _id: userId } }));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.message).toBe('1 device restored');
+    expect(kettle.deletedAt).toBeNull();
+    expect(Device.find).toHaveBeenCalledWith({
+      userId,
+      deletedAt: { $ne: null },
+      _id: { $in: toIds([kettle]) }
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getConnectivity } from '../utils/deviceConnectivity.js';
+
+const now = new Date('2024-06-01T12:00:00Z');
+const minutesAgo = (minutes) => new Date(now.getTime() - minutes * 60 * 1000);
+
+describe('getConnectivity', () => {
+  it('is unknown for a device never heard from', () => {
+    expect(getConnectivity({ lastSeenAt: null }, now)).toBe('unknown');
+  });
+
+  it('is online within the window', () => {
+    expect(getConnectivity({ lastSeenAt: minutesAgo(10), offlineAfterMinutes: 30 }, now)).toBe('online');
+    expect(getConnectivity({ lastSeenAt: minutesAgo(30), offlineAfterMinutes: 30 }, now)).toBe('online');
+  });
+
+  it('is offline once silent for longer than the window', () => {
+    expect(getConnectivity({ lastSeenAt: minutesAgo(31), offlineAfterMinutes: 30 }, now)).toBe('offline');
+    expect(getConnectivity({ lastSeenAt: minutesAgo(6), offlineAfterMinutes: 5 }, now)).toBe('offline');
+  });
+
+  it('defaults to a 30 minute window', () => {
+    expect(getConnectivity({ lastSeenAt: minutesAgo(29) }, now)).toBe('online');
+    expect(getConnectivity({ lastSeenAt: minutesAgo(31) }, now)).toBe('offline');
+  });
+});
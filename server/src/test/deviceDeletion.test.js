@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import Device from '../models/Device.model.js';
+import Schedule from '../models/Schedule.model.js';
+import Scene from '../models/Scene.model.js';
+import User from '../models/User.model.js';
+import EnergyReading from '../models/EnergyReading.model.js';
+import AutomationRun from '../models/AutomationRun.model.js';
+import { updateDevice, deleteDevice, restoreDevice } from '../controllers/device.controller.js';
+import { purgeDeletedDevices, DELETED_DEVICE_RETENTION_DAYS } from '../jobs/device.jobs.js';
+import { runDueSchedules } from '../jobs/schedule.jobs.js';
+import { runRule } from '../utils/automation.js';
+import { getDeviceUsage } from '../utils/billing.js';
+import { applyDeviceState } from '../utils/deviceControl.js';
+import { createReq, runHandler } from './helpers.js';
+
+vi.mock('../utils/deviceControl.js', () => ({
+  applyDeviceState: vi.fn(async () => null)
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-03-10T12:00:00Z');
+const userId = new mongoose.Types.ObjectId();
+const deviceId = new mongoose.Types.ObjectId();
+
+// Run the model's query middleware without a database
+const applyQueryHooks = async (query) => {
+  await new Promise((resolve, reject) => {
+    Device.schema.s.hooks.execPre(query.op, query, [], error => (error ? reject(error) : resolve()));
+  });
+  return query.getFilter();
+};
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+describe('Device query middleware', () => {
+  it('hides deleted devices from reads and updates', async () => {
+    expect(await applyQueryHooks(Device.find({ userId }))).toEqual({ userId, deletedAt: null });
+    expect(await applyQueryHooks(Device.findOne({ _id: deviceId, userId }))).toEqual({ _id: deviceId, userId, deletedAt: null });
+    expect(await applyQueryHooks(Device.countDocuments({ userId }))).toEqual({ userId, deletedAt: null });
+    expect(await applyQueryHooks(Device.updateMany({ userId }, { status: false }))).toEqual({ userId, deletedAt: null });
+  });
+
+  it('includes them when asked', async () => {
+    expect(await applyQueryHooks(Device.find({ userId }).setOptions({ withDeleted: true }))).toEqual({ userId });
+    const deleted = { userId, deletedAt: { $ne: null } };
+    expect(await applyQueryHooks(Device.find(deleted))).toEqual(deleted);
+  });
+});
+
+describe('device deletion endpoints', () => {
+  it('soft-deletes a device', async () => {
+    const device = { _id: deviceId, deletedAt: now };
+    vi.spyOn(Device, 'findOneAndUpdate').mockResolvedValue(device);
+
+    const res = await runHandler(deleteDevice, createReq({ params: { id: deviceId }, user: { _id: userId } }));
+
+    const [filter, update] = Device.findOneAndUpdate.mock.calls[0];
+    expect(filter).toEqual({ _id: deviceId, userId });
+    expect(update.deletedAt).toBeInstanceOf(Date);
+    expect(res.body.data.device).toBe(device);
+  });
+
+  it('restores only deleted devices', async () => {
+    vi.spyOn(Device, 'findOneAndUpdate').mockResolvedValue(null);
+
+    const res = await runHandler(restoreDevice, createReq({ params: { id: deviceId }, user: { _id: userId } }));
+
+    expect(Device.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: deviceId, userId, deletedAt: { $ne: null } },
+      { deletedAt: null },
+      { new: true }
+    );
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('ignores server-managed fields when editing', async () => {
+    vi.spyOn(Device, 'findOneAndUpdate').mockResolvedValue({ _id: deviceId });
+    vi.spyOn(Device, 'updateOne').mockResolvedValue({});
+
+    await runHandler(updateDevice, createReq({
+      params: { id: deviceId },
+      user: { _id: userId, settings: {} },
+      body: {
+        name: 'Study lamp',
+        userId: new mongoose.Types.ObjectId(),
+        deletedAt: null,
+        connectivity: 'online',
+        lastSeenAt: now.toISOString(),
+        estimatedThrough: now.toISOString()
+      }
+    }));
+
+    expect(Device.findOneAndUpdate.mock.calls[0][1]).toEqual({ name: 'Study lamp' });
+    expect(Device.updateOne).not.toHaveBeenCalled();
+  });
+});
+
+describe('purgeDeletedDevices', () => {
+  it('removes devices deleted before the retention period with their schedules and scene entries', async () => {
+    const stale = { _id: deviceId };
+    vi.spyOn(Device, 'find').mockResolvedValue([stale]);
+    vi.spyOn(Device, 'deleteMany').mockResolvedValue({});
+    vi.spyOn(Schedule, 'deleteMany').mockResolvedValue({});
+    vi.spyOn(Scene, 'updateMany').mockResolvedValue({});
+
+    expect(await purgeDeletedDevices(now)).toBe(1);
+
+    const [filter] = Device.find.mock.calls[0];
+    expect(filter.deletedAt.$lt).toEqual(new Date(now.getTime() - DELETED_DEVICE_RETENTION_DAYS * DAY_MS));
+    expect(Schedule.deleteMany).toHaveBeenCalledWith({ deviceId: { $in: [deviceId] } });
+    expect(Scene.updateMany).toHaveBeenCalledWith(
+      { 'devices.deviceId': { $in: [deviceId] } },
+      { $pull: { devices: { deviceId: { $in: [deviceId] } } } }
+    );
+    expect(Device.deleteMany).toHaveBeenCalledWith({ _id: { $in: [deviceId] } });
+  });
+
+  it('does nothing while deleted devices can still be restored', async () => {
+    vi.spyOn(Device, 'find').mockResolvedValue([]);
+    vi.spyOn(Device, 'deleteMany');
+
+    expect(await purgeDeletedDevices(now)).toBe(0);
+    expect(Device.deleteMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('deleted devices', () => {
+  it('are not switched by their schedules', async () => {
+    const schedule = {
+      _id: new mongoose.Types.ObjectId(),
+      userId,
+      deviceId,
+      type: 'timer',
+      isActive: true,
+      runAt: new Date(now.getTime() - 60 * 1000),
+      action: 'on',
+      save: vi.fn(async () => null)
+    };
+    vi.spyOn(Schedule, 'find').mockResolvedValue([schedule]);
+    vi.spyOn(User, 'find').mockResolvedValue([{ _id: userId, settings: {} }]);
+    // The query middleware hides the deleted device from this lookup
+    vi.spyOn(Device, 'findOne').mockResolvedValue(null);
+
+    await runDueSchedules(null, now);
+
+    const [filter] = Device.findOne.mock.calls[0];
+    Device.findOne.mockRestore();
+    expect(await applyQueryHooks(Device.findOne(filter))).toEqual({ _id: deviceId, userId, deletedAt: null });
+    expect(applyDeviceState).not.toHaveBeenCalled();
+    expect(schedule.isActive).toBe(false);
+  });
+
+  it('are reported missing by automation actions', async () => {
+    const rule = {
+      _id: new mongoose.Types.ObjectId(),
+      userId,
+      name: 'Night mode',
+      runCount: 0,
+      actions: [{ type: 'toggle', deviceId, status: false }],
+      save: vi.fn(async () => null)
+    };
+    vi.spyOn(AutomationRun, 'create').mockImplementation(async (run) => run);
+
+    // Rules get the user's devices from a query that hides deleted ones
+    const run = await runRule(null, rule, { triggeredBy: 'manual', devices: new Map(), now });
+
+    expect(run.status).toBe('failed');
+    expect(run.results).toEqual([{ type: 'toggle', deviceId, success: false, message: 'Device not found' }]);
+    expect(applyDeviceState).not.toHaveBeenCalled();
+  });
+
+  it('keep their usage and name in bills', async () => {
+    vi.spyOn(EnergyReading, 'aggregate').mockResolvedValue([{ _id: deviceId, units: 2, cost: 14.456 }]);
+    const setOptions = vi.fn(async () => [{ _id: deviceId, name: 'Old heater', deletedAt: now }]);
+    vi.spyOn(Device, 'find').mockReturnValue({ setOptions });
+
+    const usage = await getDeviceUsage(userId, new Date('2026-03-01T00:00:00Z'), now);
+
+    expect(setOptions).toHaveBeenCalledWith({ withDeleted: true });
+    expect(usage).toEqual([{ deviceId, name: 'Old heater', units: 2, cost: 14.46 }]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getRuntimeSegments, estimateHourlyUsage } from '../utils/deviceRuntime.js';
+
+const at = (time) => new Date(`2026-01-12T${time}:00Z`);
+
+const change = (time, status, intensity = 100) => ({ timestamp: at(time), status, intensity });
+
+describe('getRuntimeSegments', () => {
+  it('covers the whole range for a device left on', () => {
+    const segments = getRuntimeSegments({ status: true, intensity: 100 }, [], at('10:00'), at('12:00'));
+    expect(segments).toEqual([{ start: at('10:00'), end: at('12:00'), intensity: 100 }]);
+  });
+
+  it('follows on/off and intensity changes', () => {
+    const changes = [change('10:15', true, 50), change('10:45', true, 100), change('11:30', false)];
+    const segments = getRuntimeSegments({ status: false, intensity: 100 }, changes, at('10:00'), at('12:00'));
+    expect(segments).toEqual([
+      { start: at('10:15'), end: at('10:45'), intensity: 50 },
+      { start: at('10:45'), end: at('11:30'), intensity: 100 }
+    ]);
+  });
+});
+
+describe('estimateHourlyUsage', () => {
+  it('splits runtime into hours and scales rated power by intensity', () => {
+    const segments = [
+      { start: at('10:15'), end: at('10:45'), intensity: 50 },
+      { start: at('10:45'), end: at('11:30'), intensity: 100 }
+    ];
+    const hours = estimateHourlyUsage(2, segments, at('10:00'));
+
+    expect(hours.map(h => h.timestamp)).toEqual([at('10:00'), at('11:00')]);
+    // 30 min at half power plus 15 min at full power on a 2 kW device
+    expect(hours[0].usage).toBeCloseTo(0.5 + 0.5);
+    expect(hours[0].runtimeMs).toBe(45 * 60 * 1000);
+    expect(hours[1].usage).toBeCloseTo(1);
+  });
+
+  it('leaves out hours the device was off', () => {
+    const segments = [{ start: at('12:00'), end: at('12:30'), intensity: 100 }];
+    expect(estimateHourlyUsage(1, segments, at('10:00')).map(h => h.timestamp)).toEqual([at('12:00')]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { buildOnOffTimeline } from '../utils/deviceStats.js';
+
+const at = (time) => new Date(`2026-01-12T${time}:00Z`);
+
+const spans = (timeline) => timeline.map(({ status, start, end }) => [
+  status,
+  start.toISOString().slice(11, 16),
+  end.toISOString().slice(11, 16)
+]);
+
+describe('buildOnOffTimeline', () => {
+  it('is a single off span when the device never ran', () => {
+    expect(spans(buildOnOffTimeline([], at('00:00'), at('06:00')))).toEqual([[false, '00:00', '06:00']]);
+  });
+
+  it('merges consecutive on hours and fills the gaps with off spans', () => {
+    const onHours = [at('03:00'), at('01:00'), at('02:00'), at('05:00')];
+    expect(spans(buildOnOffTimeline(onHours, at('00:00'), at('06:00')))).toEqual([
+      [false, '00:00', '01:00'],
+      [true, '01:00', '04:00'],
+      [false, '04:00', '05:00'],
+      [true, '05:00', '06:00']
+    ]);
+  });
+
+  it('clips hours that extend past the range', () => {
+    const onHours = [at('00:00'), at('05:00')];
+    expect(spans(buildOnOffTimeline(onHours, at('00:30'), at('05:15')))).toEqual([
+      [true, '00:30', '01:00'],
+      [false, '01:00', '05:00'],
+      [true, '05:00', '05:15']
+    ]);
+  });
+});
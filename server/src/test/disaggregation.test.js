@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { toPowerSeries, detectEdges, matchEdge, disaggregate } from '../utils/disaggregation.js';
+import { generateSyntheticReadings } from '../utils/seeder.js';
+
+const day = new Date('2026-01-12T00:00:00Z');
+const at = (hour) => new Date(day.getTime() + hour * 60 * 60 * 1000);
+
+const devices = [
+  { _id: 'ac', name: 'AC', type: 'AC', powerRating: 1.5 },
+  { _id: 'heater', name: 'Heater', type: 'Heater', powerRating: 2.0 },
+  { _id: 'tv', name: 'TV', type: 'TV', powerRating: 0.12 },
+  { _id: 'light', name: 'Light', type: 'Light', powerRating: 0.06 },
+  { _id: 'fan', name: 'Fan', type: 'Fan', powerRating: 0.07 }
+];
+
+// Deterministic noise so the synthetic series is the same on every run
+const seededRandom = (seed = 42) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+const run = (id, from, to) => ({ power: devices.find(d => d._id === id).powerRating, start: at(from), end: at(to) });
+
+describe('toPowerSeries', () => {
+  it('converts interval usage to average power', () => {
+    const series = toPowerSeries([
+      { timestamp: at(0.25), usage: 0.5 },
+      { timestamp: at(0), usage: 0.25 }
+    ]);
+    expect(series.map(s => s.power)).toEqual([1, 2]);
+  });
+});
+
+describe('detectEdges', () => {
+  it('ignores changes smaller than the minimum step', () => {
+    const series = [0.3, 0.31, 1.8, 1.81, 0.3].map((power, i) => ({ timestamp: at(i), power }));
+    expect(detectEdges(series).map(e => Math.round(e.delta * 100) / 100)).toEqual([1.49, -1.51]);
+  });
+});
+
+describe('matchEdge', () => {
+  it('picks the closest rated load', () => {
+    expect(matchEdge(1.45, devices).device._id).toBe('ac');
+    expect(matchEdge(-2.1, devices).device._id).toBe('heater');
+    expect(matchEdge(0.9, devices)).toBeNull();
+  });
+
+  it('is less confident when another device has a similar rating', () => {
+    expect(matchEdge(0.065, devices).confidence).toBeLessThan(matchEdge(0.12, devices).confidence);
+  });
+});
+
+describe('disaggregate', () => {
+  it('recovers appliance runs from a synthetic whole-home series', () => {
+    const readings = generateSyntheticReadings({
+      start: at(0),
+      end: at(24),
+      runs: [run('heater', 6.5, 7.25), run('ac', 13, 16), run('tv', 19, 22), run('light', 18.5, 23)],
+      random: seededRandom()
+    });
+
+    const events = disaggregate(readings, devices);
+    const summary = events.map(e => [e.deviceId, e.start.toISOString().slice(11, 16), e.end?.toISOString().slice(11, 16)]);
+
+    expect(summary).toEqual([
+      ['heater', '06:30', '07:15'],
+      ['ac', '13:00', '16:00'],
+      ['light', '18:30', '23:00'],
+      ['tv', '19:00', '22:00']
+    ]);
+    expect(events.find(e => e.deviceId === 'ac').energy).toBeCloseTo(4.5);
+    events.forEach(e => expect(e.confidence).toBeGreaterThan(0.5));
+  });
+
+  it('reports runs still going at the end of the series with a null end', () => {
+    const readings = generateSyntheticReadings({
+      start: at(0),
+      end: at(4),
+      runs: [run('ac', 2, 6)],
+      random: seededRandom()
+    });
+
+    const [event] = disaggregate(readings, devices);
+    expect(event.deviceId).toBe('ac');
+    expect(event.end).toBeNull();
+    expect(event.confidence).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,45 @@
+import { vi } from 'vitest';
+
+// A stand-in for a Socket.IO server that records what was emitted
+export const createIo = () => {
+  const emit = vi.fn();
+  return { emit, to: vi.fn(() => ({ emit })) };
+};
+
+// A stand-in for an Express response that records what was sent
+export const createRes = () => {
+  const res = { statusCode: 200, body: undefined, headers: {} };
+  res.status = vi.fn((code) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = vi.fn((body) => {
+    res.body = body;
+    return res;
+  });
+  res.set = vi.fn((name, value) => {
+    res.headers[name] = value;
+    return res;
+  });
+  return res;
+};
+
+export const createReq = ({ body = {}, params = {}, query = {}, headers = {}, user = { _id: 'user1', settings: {} }, io = createIo() } = {}) => ({
+  body,
+  params,
+  query,
+  headers,
+  user,
+  app: { get: () => io }
+});
+
+// Run a controller and return the response. Errors passed to `next` are thrown.
+export const runHandler = async (handler, req) => {
+  const res = createRes();
+  let failure;
+  await handler(req, res, (error) => {
+    failure = error;
+  });
+  if (failure) throw failure;
+  return res;
+};
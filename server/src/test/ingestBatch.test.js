@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import Device from '../models/Device.model.js';
+import EnergyReading from '../models/EnergyReading.model.js';
+import TariffSchedule from '../models/TariffSchedule.model.js';
+import { validateBatchItems, summarizeBatch, ingestReadingBatch, MAX_BACKFILL_DAYS } from '../utils/ingest.js';
+import { createIo } from './helpers.js';
+
+vi.mock('../utils/automation.js', () => ({ triggerAutomations: vi.fn() }));
+vi.mock('../utils/anomaly.js', () => ({ triggerSpikeDetection: vi.fn() }));
+vi.mock('../utils/budget.js', () => ({ triggerBudgetCheck: vi.fn() }));
+vi.mock('../utils/deviceConnectivity.js', () => ({ triggerHeartbeat: vi.fn() }));
+
+const now = new Date('2026-03-10T12:00:00Z');
+const deviceId = '507f1f77bcf86cd799439011';
+
+describe('validateBatchItems', () => {
+  it('keeps valid readings and reports the rest by index', () => {
+    const { valid, errors } = validateBatchItems([
+      { timestamp: '2026-03-10T10:00:00Z', usage: 0.5 },
+      { timestamp: '2026-03-10T10:15:00+05:30', usage: -1 },
+      { usage: 0.2 },
+      { deviceId, timestamp: '2026-03-10T10:30:00Z', usage: 0.1, solarGeneration: 0.3 }
+    ], { now });
+
+    expect(valid).toEqual([
+      { index: 0, deviceId: null, timestamp: new Date('2026-03-10T10:00:00Z'), usage: 0.5, register: null, solarGeneration: 0 },
+      { index: 3, deviceId, timestamp: new Date('2026-03-10T10:30:00Z'), usage: 0.1, register: null, solarGeneration: 0.3 }
+    ]);
+    expect(errors.map(e => e.index)).toEqual([1, 2]);
+    expect(errors[0].message).toMatch(/^usage:/);
+    expect(errors[1].message).toMatch(/^timestamp:/);
+  });
+
+  it('keeps register readings for the usage to be derived later', () => {
+    const { valid, errors } = validateBatchItems([
+      { timestamp: '2026-03-10T10:00:00Z', register: 1520.4 },
+      { timestamp: '2026-03-10T10:15:00Z', register: 1520.6, usage: 0.2 }
+    ], { now });
+
+    expect(valid).toEqual([
+      { index: 0, deviceId: null, timestamp: new Date('2026-03-10T10:00:00Z'), usage: null, register: 1520.4, solarGeneration: 0 }
+    ]);
+    expect(errors.map(e => e.index)).toEqual([1]);
+  });
+
+  it('rejects timestamps too old or in the future', () => {
+    const old = new Date(now.getTime() - (MAX_BACKFILL_DAYS + 1) * 24 * 60 * 60 * 1000);
+    const { valid, errors } = validateBatchItems([
+      { timestamp: old.toISOString(), usage: 1 },
+      { timestamp: '2026-03-10T12:04:00Z', usage: 1 },
+      { timestamp: '2026-03-10T13:00:00Z', usage: 1 }
+    ], { now });
+
+    expect(valid.map(r => r.index)).toEqual([1]);
+    expect(errors.map(e => e.index)).toEqual([0, 2]);
+  });
+
+  it('rejects invalid device ids', () => {
+    const { errors } = validateBatchItems([{ deviceId: 'abc', timestamp: '2026-03-10T10:00:00Z', usage: 1 }], { now });
+
+    expect(errors).toEqual([{ index: 0, message: 'deviceId: Invalid device id' }]);
+  });
+
+  it('uses the device fixed by an ingest key', () => {
+    const items = [
+      { timestamp: '2026-03-10T10:00:00Z', usage: 1 },
+      { deviceId, timestamp: '2026-03-10T10:15:00Z', usage: 1 },
+      { deviceId: '507f1f77bcf86cd799439012', timestamp: '2026-03-10T10:30:00Z', usage: 1 }
+    ];
+
+    const forDevice = validateBatchItems(items, { now, deviceId });
+    expect(forDevice.valid.map(r => r.deviceId)).toEqual([deviceId, deviceId]);
+    expect(forDevice.errors).toEqual([{ index: 2, message: 'deviceId: set by the API key' }]);
+
+    const forHome = validateBatchItems(items, { now, deviceId: null });
+    expect(forHome.valid.map(r => r.deviceId)).toEqual([null]);
+    expect(forHome.errors.map(e => e.index)).toEqual([1, 2]);
+  });
+});
+
+describe('summarizeBatch', () => {
+  it('reports the latest whole-home reading and batch totals', () => {
+    const summary = summarizeBatch([
+      { deviceId: null, timestamp: new Date('2026-03-10T10:15:00Z'), usage: 0.5, cost: 4 },
+      { deviceId: null, timestamp: new Date('2026-03-10T10:00:00Z'), usage: 0.3, cost: 2 },
+      { deviceId, timestamp: new Date('2026-03-10T10:30:00Z'), usage: 0.2, cost: 1 }
+    ]);
+
+    expect(summary).toEqual({
+      usage: 0.5,
+      cost: 4,
+      timestamp: new Date('2026-03-10T10:15:00Z'),
+      deviceId: null,
+      batch: {
+        count: 3,
+        usage: 1,
+        cost: 7,
+        from: new Date('2026-03-10T10:00:00Z'),
+        to: new Date('2026-03-10T10:30:00Z')
+      }
+    });
+  });
+
+  it('falls back to the latest device reading', () => {
+    const summary = summarizeBatch([{ deviceId, timestamp: new Date('2026-03-10T10:30:00Z'), usage: 0.2, cost: 1 }]);
+
+    expect(summary.deviceId).toBe(deviceId);
+    expect(summary.usage).toBe(0.2);
+  });
+});
+
+describe('ingestReadingBatch', () => {
+  const user = { _id: new mongoose.Types.ObjectId(), settings: {} };
+  const at = (time) => new Date(`2026-03-10T${time}:00Z`);
+  // The whole-home meter's register readings already stored
+  const stored = [
+    { deviceId: null, timestamp: at('10:00'), register: 1520.4 },
+    { deviceId: null, timestamp: at('10:15'), register: 1520.6 }
+  ];
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(Device, 'find').mockResolvedValue([]);
+    vi.spyOn(TariffSchedule, 'findOne').mockReturnValue({ sort: async () => null });
+    vi.spyOn(EnergyReading, 'findOne').mockReturnValue({ sort: async () => stored[stored.length - 1] });
+    vi.spyOn(EnergyReading, 'find').mockResolvedValue(stored);
+    vi.spyOn(EnergyReading, 'bulkWrite').mockResolvedValue({ upsertedCount: 1, matchedCount: 0 });
+  });
+
+  it('accepts a resent register batch without rewriting it', async () => {
+    const result = await ingestReadingBatch(createIo(), user, [
+      { timestamp: '2026-03-10T10:00:00Z', register: 1520.4 },
+      { timestamp: '2026-03-10T10:15:00Z', register: 1520.6 }
+    ], { now });
+
+    expect(result).toEqual({ accepted: 2, inserted: 0, updated: 2, rejected: 0, errors: [], flagged: [] });
+    expect(EnergyReading.bulkWrite).not.toHaveBeenCalled();
+  });
+
+  it('rejects older register readings that differ from the stored ones', async () => {
+    const result = await ingestReadingBatch(createIo(), user, [
+      { timestamp: '2026-03-10T10:00:00Z', register: 1520.4 },
+      { timestamp: '2026-03-10T10:15:00Z', register: 1520.9 },
+      { timestamp: '2026-03-10T10:05:00Z', register: 1520.5 },
+      { timestamp: '2026-03-10T10:30:00Z', register: 1521.1 }
+    ], { now });
+
+    expect(result).toMatchObject({ accepted: 2, inserted: 1, updated: 1, rejected: 2 });
+    expect(result.errors.map(e => e.index)).toEqual([1, 2]);
+    // The new reading is chained from the stored register, not the rejected one
+    const [[operations]] = EnergyReading.bulkWrite.mock.calls;
+    expect(operations).toHaveLength(1);
+    expect(operations[0].updateOne.filter.timestamp).toEqual(at('10:30'));
+    expect(operations[0].updateOne.update.$set.usage).toBe(0.5);
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { generateIngestKey, hashIngestKey } from '../utils/ingestKeys.js';
+
+describe('generateIngestKey', () => {
+  it('creates a random key with its hash and prefix', () => {
+    const { key, keyHash, prefix } = generateIngestKey();
+
+    expect(key).toMatch(/^usk_[0-9a-f]{48}$/);
+    expect(keyHash).toBe(hashIngestKey(key));
+    expect(keyHash).not.toContain(key);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(generateIngestKey().key).not.toBe(key);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { computeRegisterUsage, getRolloverValue } from '../utils/meterRegister.js';
+
+const at = (minutes) => new Date(Date.UTC(2026, 2, 10, 10, minutes));
+
+describe('getRolloverValue', () => {
+  it('is the next power of ten above the register', () => {
+    expect(getRolloverValue(99999.5)).toBe(100000);
+    expect(getRolloverValue(100000)).toBe(1000000);
+    expect(getRolloverValue(9.2)).toBe(10);
+    expect(getRolloverValue(0)).toBe(10);
+  });
+});
+
+describe('computeRegisterUsage', () => {
+  it('starts from the first register reading', () => {
+    expect(computeRegisterUsage(null, { register: 1520.4, timestamp: at(0) })).toEqual({ usage: 0, registerFlag: 'baseline' });
+  });
+
+  it('uses the increase since the previous reading', () => {
+    const previous = { register: 1520.4, timestamp: at(0) };
+    expect(computeRegisterUsage(previous, { register: 1520.7, timestamp: at(15) })).toEqual({ usage: 0.3, registerFlag: null });
+    expect(computeRegisterUsage(previous, { register: 1520.4, timestamp: at(15) })).toEqual({ usage: 0, registerFlag: null });
+  });
+
+  it('handles a register rolling over to zero', () => {
+    const previous = { register: 99999.8, timestamp: at(0) };
+    expect(computeRegisterUsage(previous, { register: 0.3, timestamp: at(30) })).toEqual({ usage: 0.5, registerFlag: 'rollover' });
+  });
+
+  it('counts from zero after a reset', () => {
+    const previous = { register: 1520.4, timestamp: at(0) };
+    expect(computeRegisterUsage(previous, { register: 0.2, timestamp: at(30) })).toEqual({ usage: 0.2, registerFlag: 'reset' });
+  });
+
+  it('flags a register going backwards', () => {
+    const previous = { register: 1520.4, timestamp: at(0) };
+    expect(computeRegisterUsage(previous, { register: 1519.9, timestamp: at(30) })).toEqual({ usage: 0, registerFlag: 'negative' });
+  });
+
+  it('flags increases beyond what the meter could have used', () => {
+    const previous = { register: 1520.4, timestamp: at(0) };
+    // 50 kW for 15 minutes is at most 12.5 kWh
+    expect(computeRegisterUsage(previous, { register: 1532.9, timestamp: at(15) }).registerFlag).toBe(null);
+    expect(computeRegisterUsage(previous, { register: 1540, timestamp: at(15) })).toEqual({ usage: 0, registerFlag: 'jump' });
+    expect(computeRegisterUsage(previous, { register: 1540, timestamp: at(15) }, { maxPowerKw: 100 }).registerFlag).toBe(null);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import DeadLetter from '../models/DeadLetter.model.js';
+import IngestKey from '../models/IngestKey.model.js';
+import User from '../models/User.model.js';
+import { parseReadingTopic, parseReadingPayload, handleReadingMessage } from '../mqtt/bridge.js';
+import { ingestReading } from '../utils/ingest.js';
+import { hashIngestKey } from '../utils/ingestKeys.js';
+import { createIo } from './helpers.js';
+
+vi.mock('../utils/ingest.js', () => ({
+  ingestReading: vi.fn(async () => null)
+}));
+
+const keyId = '65a1b2c3d4e5f60718293a4b';
+const payload = (body) => Buffer.from(typeof body === 'string' ? body : JSON.stringify(body));
+
+describe('parseReadingTopic', () => {
+  it('returns the ingest key id', () => {
+    expect(parseReadingTopic(`urjasync/${keyId}/reading`)).toBe(keyId);
+    expect(parseReadingTopic(`home/meters/${keyId}/reading`, 'home/meters')).toBe(keyId);
+  });
+
+  it('rejects other topics', () => {
+    expect(parseReadingTopic(`other/${keyId}/reading`)).toBeNull();
+    expect(parseReadingTopic(`urjasync/${keyId}/status`)).toBeNull();
+    expect(parseReadingTopic(`urjasync/${keyId}/reading/extra`)).toBeNull();
+    expect(parseReadingTopic('urjasync/not-an-id/reading')).toBeNull();
+  });
+});
+
+describe('parseReadingPayload', () => {
+  it('accepts a valid reading', () => {
+    expect(parseReadingPayload(payload({ key: 'usk_abc', usage: 0.42, solarGeneration: 0.1 }))).toEqual({
+      reading: { key: 'usk_abc', usage: 0.42, solarGeneration: 0.1 }
+    });
+  });
+
+  it('rejects payloads that are not JSON', () => {
+    expect(parseReadingPayload(payload('usage=1')).error).toBe('Payload is not valid JSON');
+  });
+
+  it('reports which fields are invalid', () => {
+    const { error } = parseReadingPayload(payload({ key: 'usk_abc', usage: -1 }));
+    expect(error).toContain('usage');
+    expect(parseReadingPayload(payload({ usage: 1 })).error).toContain('key');
+  });
+
+  it('accepts a register reading instead of usage, but not both', () => {
+    expect(parseReadingPayload(payload({ key: 'usk_abc', register: 12345.6 }))).toEqual({
+      reading: { key: 'usk_abc', register: 12345.6 }
+    });
+    expect(parseReadingPayload(payload({ key: 'usk_abc', usage: 1, register: 2 })).error).toContain('either usage or register');
+    expect(parseReadingPayload(payload({ key: 'usk_abc' })).error).toContain('either usage or register');
+  });
+
+  it('rejects oversized payloads unread', () => {
+    expect(parseReadingPayload(Buffer.alloc(5000, 'a')).error).toMatch(/exceeds/);
+  });
+});
+
+describe('handleReadingMessage', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+  const key = 'usk_0123456789abcdef';
+  const user = { _id: new mongoose.Types.ObjectId(), settings: {} };
+  const ingestKey = { _id: new mongoose.Types.ObjectId(keyId), userId: user._id, deviceId: null };
+  const topic = `urjasync/${keyId}/reading`;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(DeadLetter, 'create').mockResolvedValue(null);
+    vi.spyOn(IngestKey, 'findOne').mockResolvedValue(ingestKey);
+    vi.spyOn(IngestKey, 'updateOne').mockResolvedValue(null);
+    vi.spyOn(User, 'findById').mockResolvedValue(user);
+  });
+
+  const deadLetterReason = () => DeadLetter.create.mock.calls[0][0].reason;
+
+  it('ingests a reading and marks the key as used', async () => {
+    await handleReadingMessage(createIo(), topic, payload({ key, usage: 0.42 }), { now });
+
+    expect(IngestKey.findOne).toHaveBeenCalledWith({ keyHash: hashIngestKey(key), revokedAt: null });
+    expect(ingestReading).toHaveBeenCalledWith(expect.anything(), user, {
+      deviceId: null,
+      usage: 0.42,
+      register: undefined,
+      solarGeneration: undefined,
+      timestamp: now
+    });
+    expect(IngestKey.updateOne).toHaveBeenCalledWith({ _id: ingestKey._id }, { lastUsedAt: now });
+    expect(DeadLetter.create).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters payloads that are not JSON', async () => {
+    await handleReadingMessage(createIo(), topic, payload('usage=1'), { now });
+
+    expect(DeadLetter.create).toHaveBeenCalledWith({
+      source: 'mqtt',
+      topic,
+      payload: 'usage=1',
+      reason: 'Payload is not valid JSON',
+      userId: null,
+      receivedAt: now
+    });
+    expect(IngestKey.findOne).not.toHaveBeenCalled();
+    expect(ingestReading).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters readings sent with a revoked key', async () => {
+    // Revoked keys are excluded by the lookup
+    IngestKey.findOne.mockResolvedValue(null);
+
+    await handleReadingMessage(createIo(), topic, payload({ key, usage: 0.42 }), { now });
+
+    expect(deadLetterReason()).toBe('Unknown or revoked key');
+    expect(ingestReading).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters a key published under another key\'s topic', async () => {
+    const otherTopic = `urjasync/${new mongoose.Types.ObjectId()}/reading`;
+
+    await handleReadingMessage(createIo(), otherTopic, payload({ key, usage: 0.42 }), { now });
+
+    expect(deadLetterReason()).toBe('Key does not match topic');
+    expect(DeadLetter.create.mock.calls[0][0].userId).toBe(user._id);
+    expect(ingestReading).not.toHaveBeenCalled();
+    expect(IngestKey.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters readings that fail to store', async () => {
+    ingestReading.mockRejectedValueOnce(new Error('Database unavailable'));
+
+    await handleReadingMessage(createIo(), topic, payload({ key, usage: 0.42 }), { now });
+
+    expect(deadLetterReason()).toBe('Ingestion failed: Database unavailable');
+    expect(IngestKey.updateOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getNotificationCategory, isCategoryEnabled } from '../utils/notifications.js';
+
+describe('getNotificationCategory', () => {
+  it('maps notification types to their preference', () => {
+    expect(getNotificationCategory('anomaly')).toBe('energyAlerts');
+    expect(getNotificationCategory('bill_overdue')).toBe('costWarnings');
+    expect(getNotificationCategory('automation')).toBe('general');
+  });
+});
+
+describe('isCategoryEnabled', () => {
+  const settings = { notifications: { energyAlerts: false, costWarnings: true } };
+
+  it('follows the user preference', () => {
+    expect(isCategoryEnabled(settings, 'energyAlerts')).toBe(false);
+    expect(isCategoryEnabled(settings, 'costWarnings')).toBe(true);
+  });
+
+  it('treats unset preferences as on', () => {
+    expect(isCategoryEnabled(settings, 'weeklyReports')).toBe(true);
+    expect(isCategoryEnabled(undefined, 'deviceOffline')).toBe(true);
+  });
+
+  it('always sends general notifications', () => {
+    expect(isCategoryEnabled({ notifications: { energyAlerts: false } }, 'general')).toBe(true);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import EnergyReading from '../models/EnergyReading.model.js';
+import { removeDuplicateReadings } from '../utils/readingDedupe.js';
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(EnergyReading, 'deleteMany').mockResolvedValue({ deletedCount: 0 });
+  vi.spyOn(EnergyReading, 'createIndexes').mockResolvedValue();
+});
+
+describe('removeDuplicateReadings', () => {
+  it('keeps the latest reading of each duplicate set', async () => {
+    // Ids come back newest first
+    vi.spyOn(EnergyReading, 'aggregate').mockReturnValue({
+      allowDiskUse: async () => [
+        { _id: {}, ids: ['r3', 'r2', 'r1'], count: 3 },
+        { _id: {}, ids: ['r5', 'r4'], count: 2 }
+      ]
+    });
+
+    expect(await removeDuplicateReadings()).toBe(3);
+    expect(EnergyReading.deleteMany).toHaveBeenCalledWith({ _id: { $in: ['r2', 'r1', 'r4'] } });
+    expect(EnergyReading.createIndexes).toHaveBeenCalled();
+  });
+
+  it('only builds the indexes when there are no duplicates', async () => {
+    vi.spyOn(EnergyReading, 'aggregate').mockReturnValue({ allowDiskUse: async () => [] });
+
+    expect(await removeDuplicateReadings()).toBe(0);
+    expect(EnergyReading.deleteMany).not.toHaveBeenCalled();
+    expect(EnergyReading.createIndexes).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import Scene from '../models/Scene.model.js';
+import Device from '../models/Device.model.js';
+import { createScene, updateScene, deleteScene, activateScene } from '../controllers/scene.controller.js';
+import { applyDeviceStates } from '../utils/deviceControl.js';
+import { triggerAutomations } from '../utils/automation.js';
+import { createReq, runHandler } from './helpers.js';
+
+vi.mock('../utils/deviceControl.js', () => ({
+  applyDeviceStates: vi.fn(async (io, changes) => changes.map(c => c.device))
+}));
+
+vi.mock('../utils/automation.js', () => ({
+  triggerAutomations: vi.fn()
+}));
+
+const userId = new mongoose.Types.ObjectId();
+const user = { _id: userId, settings: {} };
+const lampId = new mongoose.Types.ObjectId();
+const fanId = new mongoose.Types.ObjectId();
+
+const createStoredScene = () => new Scene({
+  userId,
+  name: 'Movie night',
+  devices: [
+    { deviceId: lampId, status: true, intensity: 30 },
+    { deviceId: fanId, status: false, intensity: null }
+  ]
+});
+
+const createDevice = (_id, name, fields = {}) => ({ _id, userId, name, deletedAt: null, ...fields });
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+  vi.spyOn(Scene.prototype, 'save').mockImplementation(function save() {
+    return Promise.resolve(this);
+  });
+});
+
+describe('createScene', () => {
+  const body = { name: 'Movie night', devices: [{ deviceId: lampId.toString(), status: true }] };
+
+  it('creates a scene of the user\'s devices', async () => {
+    vi.spyOn(Scene, 'exists').mockResolvedValue(null);
+    vi.spyOn(Device, 'countDocuments').mockResolvedValue(1);
+    vi.spyOn(Scene, 'create').mockImplementation(async fields => fields);
+
+    const res = await runHandler(createScene, createReq({ body, user }));
+
+    expect(res.statusCode).toBe(201);
+    expect(Scene.create).toHaveBeenCalledWith({ userId, name: 'Movie night', icon: undefined, devices: body.devices });
+  });
+
+  it('rejects a duplicate name', async () => {
+    vi.spyOn(Scene, 'exists').mockResolvedValue({ _id: new mongoose.Types.ObjectId() });
+
+    const res = await runHandler(createScene, createReq({ body, user }));
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toBe('A scene with this name already exists');
+  });
+
+  it('rejects devices the user does not own', async () => {
+    vi.spyOn(Scene, 'exists').mockResolvedValue(null);
+    vi.spyOn(Device, 'countDocuments').mockResolvedValue(0);
+    vi.spyOn(Scene, 'create');
+
+    const res = await runHandler(createScene, createReq({ body, user }));
+
+    expect(res.statusCode).toBe(404);
+    expect(Scene.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('updateScene', () => {
+  it('changes only the scene\'s own fields', async () => {
+    const scene = createStoredScene();
+    vi.spyOn(Scene, 'findOne').mockResolvedValue(scene);
+    vi.spyOn(Scene, 'exists').mockResolvedValue(null);
+
+    const res = await runHandler(updateScene, createReq({
+      params: { id: scene._id },
+      body: { name: 'Reading', userId: new mongoose.Types.ObjectId(), lastActivatedAt: '2020-01-01T00:00:00Z' },
+      user
+    }));
+
+    expect(res.statusCode).toBe(200);
+    expect(scene.name).toBe('Reading');
+    expect(scene.userId).toEqual(userId);
+    expect(scene.lastActivatedAt).toBeFalsy();
+  });
+
+  it('responds 404 for another user\'s scene', async () => {
+    vi.spyOn(Scene, 'findOne').mockResolvedValue(null);
+
+    const res = await runHandler(updateScene, createReq({ params: { id: 'x' }, body: { name: 'Reading' }, user }));
+
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('deleteScene', () => {
+  it('responds 404 when the scene does not exist', async () => {
+    vi.spyOn(Scene, 'findOneAndDelete').mockResolvedValue(null);
+
+    const res = await runHandler(deleteScene, createReq({ params: { id: 'x' }, user }));
+
+    expect(res.statusCode).toBe(404);
+    expect(res.body.message).toBe('Scene not found');
+  });
+});
+
+describe('activateScene', () => {
+  const activate = (scene, devices) => {
+    vi.spyOn(Scene, 'findOne').mockResolvedValue(scene);
+    vi.spyOn(Device, 'find').mockReturnValue({ setOptions: async () => devices });
+    return runHandler(activateScene, createReq({ params: { id: scene._id }, user }));
+  };
+
+  it('puts every device into its target state', async () => {
+    const scene = createStoredScene();
+    const lamp = createDevice(lampId, 'Lamp');
+    const fan = createDevice(fanId, 'Fan');
+
+    const res = await activate(scene, [fan, lamp]);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.message).toBe('Movie night activated');
+    expect(applyDeviceStates).toHaveBeenCalledWith(expect.anything(), [
+      { device: lamp, status: true, intensity: 30 },
+      { device: fan, status: false, intensity: undefined }
+    ], 'scene');
+    expect(triggerAutomations).toHaveBeenCalledTimes(2);
+    expect(scene.lastActivatedAt).toBeInstanceOf(Date);
+  });
+
+  it('changes nothing when a device no longer exists', async () => {
+    const scene = createStoredScene();
+
+    const res = await activate(scene, [createDevice(lampId, 'Lamp')]);
+
+    expect(res.statusCode).toBe(409);
+    expect(applyDeviceStates).not.toHaveBeenCalled();
+    expect(Scene.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('leaves deleted devices alone', async () => {
+    const scene = createStoredScene();
+    const lamp = createDevice(lampId, 'Lamp');
+    const fan = createDevice(fanId, 'Fan', { deletedAt: new Date() });
+
+    const res = await activate(scene, [lamp, fan]);
+
+    expect(res.body.count).toBe(1);
+    expect(applyDeviceStates.mock.calls[0][1].map(c => c.device)).toEqual([lamp]);
+    expect(scene.devices).toHaveLength(2);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getDueTransition, getNextTransition } from '../utils/schedule.js';
+
+const weeknights = {
+  type: 'recurring',
+  isActive: true,
+  daysOfWeek: [1, 2, 3, 4, 5],
+  startTime: '18:00',
+  endTime: '22:30',
+  intensity: 70,
+  lastTriggeredAt: new Date('2026-01-01T00:00:00Z')
+};
+
+describe('recurring schedules', () => {
+  it('turns on at the start time in the user timezone', () => {
+    // Monday 12 January 2026, 18:05 IST
+    const now = new Date('2026-01-12T12:35:00Z');
+    const due = getDueTransition(weeknights, now, 'Asia/Kolkata');
+    expect(due).toMatchObject({ action: 'on', intensity: 70 });
+    expect(due.at.toISOString()).toBe('2026-01-12T12:30:00.000Z');
+  });
+
+  it('does not repeat a transition that was already applied', () => {
+    const now = new Date('2026-01-12T12:35:00Z');
+    const applied = { ...weeknights, lastTriggeredAt: new Date('2026-01-12T12:30:00Z') };
+    expect(getDueTransition(applied, now, 'Asia/Kolkata')).toBeNull();
+  });
+
+  it('catches up to the latest missed transition only', () => {
+    // Tuesday 13 January 2026, 09:00 IST: Monday's on and off were both missed
+    const now = new Date('2026-01-13T03:30:00Z');
+    const due = getDueTransition(weeknights, now, 'Asia/Kolkata');
+    expect(due.action).toBe('off');
+    expect(due.at.toISOString()).toBe('2026-01-12T17:00:00.000Z');
+  });
+
+  it('runs overnight when the end is before the start', () => {
+    const overnight = { ...weeknights, daysOfWeek: [5], startTime: '23:00', endTime: '06:00' };
+    // Saturday 17 January 2026, 06:01 IST
+    const now = new Date('2026-01-17T00:31:00Z');
+    const due = getDueTransition(overnight, now, 'Asia/Kolkata');
+    expect(due.action).toBe('off');
+    expect(due.at.toISOString()).toBe('2026-01-17T00:30:00.000Z');
+  });
+
+  it('keeps local wall-clock times across DST changes', () => {
+    const daily = { ...weeknights, daysOfWeek: [0, 1, 2, 3, 4, 5, 6], startTime: '07:00', endTime: null };
+    // New York springs forward on Sunday 8 March 2026
+    const before = getNextTransition(daily, new Date('2026-03-07T13:00:00Z'), 'America/New_York');
+    const after = getNextTransition(daily, new Date('2026-03-08T13:00:00Z'), 'America/New_York');
+    expect(before.at.toISOString()).toBe('2026-03-08T11:00:00.000Z');
+    expect(after.at.toISOString()).toBe('2026-03-09T11:00:00.000Z');
+  });
+
+  it('ignores inactive schedules', () => {
+    const now = new Date('2026-01-12T12:35:00Z');
+    expect(getDueTransition({ ...weeknights, isActive: false }, now, 'Asia/Kolkata')).toBeNull();
+  });
+});
+
+describe('timers', () => {
+  const timer = {
+    type: 'timer',
+    isActive: true,
+    action: 'off',
+    runAt: new Date('2026-01-12T14:00:00Z'),
+    completedAt: null
+  };
+
+  it('is due once its time has passed', () => {
+    expect(getDueTransition(timer, new Date('2026-01-12T13:59:00Z'), 'UTC')).toBeNull();
+    expect(getDueTransition(timer, new Date('2026-01-12T14:00:30Z'), 'UTC')).toMatchObject({ action: 'off' });
+  });
+
+  it('does not run again after completing', () => {
+    const done = { ...timer, completedAt: new Date('2026-01-12T14:00:30Z') };
+    expect(getDueTransition(done, new Date('2026-01-12T15:00:00Z'), 'UTC')).toBeNull();
+    expect(getNextTransition(done, new Date('2026-01-12T15:00:00Z'), 'UTC')).toBeNull();
+  });
+});
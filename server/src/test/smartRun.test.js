@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { estimateRunCost, findCheapestWindow } from '../utils/smartRun.js';
+
+const everyDay = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const tariff = {
+  type: 'time_of_use',
+  solarExportRate: null,
+  slabs: [
+    { name: 'Off-Peak', timeRange: { start: '22:00', end: '06:00' }, rate: 4.0, days: everyDay },
+    { name: 'Mid-Peak', timeRange: { start: '06:00', end: '10:00' }, rate: 6.0, days: everyDay },
+    { name: 'Peak', timeRange: { start: '10:00', end: '18:00' }, rate: 8.5, days: everyDay },
+    { name: 'Mid-Peak', timeRange: { start: '18:00', end: '22:00' }, rate: 6.0, days: everyDay }
+  ]
+};
+
+const timeZone = 'Asia/Kolkata';
+
+describe('estimateRunCost', () => {
+  it('prices each slice at the rate in force', () => {
+    // 21:30 IST: half an hour at Mid-Peak then half an hour at Off-Peak
+    const { cost, units } = estimateRunCost({
+      tariff,
+      loadKw: 2,
+      start: new Date('2026-01-12T16:00:00Z'),
+      durationMinutes: 60,
+      timeZone
+    });
+    expect(units).toBeCloseTo(2);
+    expect(cost).toBeCloseTo(1 * 6 + 1 * 4);
+  });
+
+  it('values surplus solar at the export rate', () => {
+    const solarProfile = new Array(24).fill(0);
+    solarProfile[12] = 0.5;
+    const { cost, solarUnits } = estimateRunCost({
+      tariff: { ...tariff, solarExportRate: 3 },
+      loadKw: 1,
+      start: new Date('2026-01-12T06:30:00Z'),
+      durationMinutes: 60,
+      timeZone,
+      solarProfile
+    });
+    expect(solarUnits).toBeCloseTo(0.5);
+    expect(cost).toBeCloseTo(0.5 * 8.5 + 0.5 * 3);
+  });
+
+  it('ignores solar under net metering', () => {
+    const solarProfile = new Array(24).fill(5);
+    const { solarUnits } = estimateRunCost({
+      tariff,
+      loadKw: 1,
+      start: new Date('2026-01-12T06:30:00Z'),
+      durationMinutes: 60,
+      timeZone,
+      solarProfile
+    });
+    expect(solarUnits).toBe(0);
+  });
+});
+
+describe('findCheapestWindow', () => {
+  it('moves a peak-time run into Off-Peak before the deadline', () => {
+    // Now 14:00 IST, must finish by 07:00 IST tomorrow
+    const plan = findCheapestWindow({
+      tariff,
+      loadKw: 2,
+      durationMinutes: 120,
+      now: new Date('2026-01-12T08:30:00Z'),
+      deadline: new Date('2026-01-13T01:30:00Z'),
+      timeZone
+    });
+    expect(plan.start.toISOString()).toBe('2026-01-12T16:30:00.000Z');
+    expect(plan.cost).toBe(16);
+    expect(plan.costNow).toBe(34);
+    expect(plan.saving).toBe(18);
+  });
+
+  it('prefers running now when nothing is cheaper', () => {
+    const now = new Date('2026-01-12T17:00:00Z');
+    const plan = findCheapestWindow({
+      tariff,
+      loadKw: 1,
+      durationMinutes: 60,
+      now,
+      deadline: new Date('2026-01-12T22:00:00Z'),
+      timeZone
+    });
+    expect(plan.start).toEqual(now);
+    expect(plan.saving).toBe(0);
+  });
+
+  it('uses solar surplus when exports are cheap', () => {
+    const solarProfile = new Array(24).fill(0);
+    [11, 12, 13].forEach(hour => { solarProfile[hour] = 3; });
+    // Now 06:00 IST, finish by 18:00 IST; exported solar only earns ₹2
+    const plan = findCheapestWindow({
+      tariff: { ...tariff, solarExportRate: 2 },
+      loadKw: 1.5,
+      durationMinutes: 120,
+      now: new Date('2026-01-12T00:30:00Z'),
+      deadline: new Date('2026-01-12T12:30:00Z'),
+      timeZone,
+      solarProfile
+    });
+    expect(plan.start.toISOString()).toBe('2026-01-12T05:30:00.000Z');
+    expect(plan.solarUnits).toBe(3);
+    expect(plan.cost).toBe(6);
+  });
+
+  it('returns null when the run cannot finish by the deadline', () => {
+    expect(findCheapestWindow({
+      tariff,
+      loadKw: 1,
+      durationMinutes: 120,
+      now: new Date('2026-01-12T08:30:00Z'),
+      deadline: new Date('2026-01-12T09:30:00Z'),
+      timeZone
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { findSlab, splitIntoBlocks, getRateAt, priceUsage, DEFAULT_RATE } from '../utils/tariff.js';
+import { calculateCharges } from '../utils/billing.js';
+
+const touTariff = {
+  slabs: [
+    { name: 'Off-Peak', timeRange: { start: '22:00', end: '06:00' }, rate: 4, days: ['Mon'] },
+    { name: 'Peak', timeRange: { start: '18:00', end: '22:00' }, rate: 9 }
+  ]
+};
+
+const blockTariff = {
+  type: 'block',
+  // Deliberately out of order
+  blocks: [{ upTo: 300, rate: 5 }, { upTo: null, rate: 8 }, { upTo: 100, rate: 3 }]
+};
+
+describe('findSlab', () => {
+  // 9 March 2026 is a Monday
+  it('matches slabs by local time and day', () => {
+    expect(findSlab(touTariff, new Date('2026-03-09T23:00:00Z'), 'UTC').name).toBe('Off-Peak');
+    expect(findSlab(touTariff, new Date('2026-03-10T19:00:00Z'), 'UTC').name).toBe('Peak');
+    expect(findSlab(touTariff, new Date('2026-03-10T12:00:00Z'), 'UTC')).toBeNull();
+  });
+
+  it('gives the early hours of a wrapping slab to the day it started', () => {
+    // Monday night's slab runs into Tuesday morning
+    expect(findSlab(touTariff, new Date('2026-03-10T02:00:00Z'), 'UTC').name).toBe('Off-Peak');
+    // Monday morning belongs to Sunday night, which has no off-peak slab
+    expect(findSlab(touTariff, new Date('2026-03-09T02:00:00Z'), 'UTC')).toBeNull();
+  });
+
+  it('uses the given timezone', () => {
+    // 13:00 UTC is 18:30 in India
+    expect(findSlab(touTariff, new Date('2026-03-10T13:00:00Z'), 'Asia/Kolkata').name).toBe('Peak');
+    expect(findSlab(touTariff, new Date('2026-03-10T13:00:00Z'), 'UTC')).toBeNull();
+  });
+});
+
+describe('splitIntoBlocks', () => {
+  it('fills the blocks in order of their limits', () => {
+    expect(splitIntoBlocks(blockTariff.blocks, 350)).toEqual([
+      { from: 0, upTo: 100, units: 100, rate: 3, amount: 300 },
+      { from: 100, upTo: 300, units: 200, rate: 5, amount: 1000 },
+      { from: 300, upTo: null, units: 50, rate: 8, amount: 400 }
+    ]);
+    expect(splitIntoBlocks(blockTariff.blocks, 100)).toEqual([
+      { from: 0, upTo: 100, units: 100, rate: 3, amount: 300 }
+    ]);
+    expect(splitIntoBlocks(blockTariff.blocks, 0)).toEqual([]);
+  });
+
+  it('treats the last block as open-ended', () => {
+    const parts = splitIntoBlocks([{ upTo: 100, rate: 3 }, { upTo: 200, rate: 5 }], 250);
+    expect(parts[1]).toEqual({ from: 100, upTo: null, units: 150, rate: 5, amount: 750 });
+  });
+});
+
+describe('getRateAt', () => {
+  it('returns the marginal block rate for the units used so far', () => {
+    expect(getRateAt(blockTariff, new Date(), 0)).toBe(3);
+    expect(getRateAt(blockTariff, new Date(), 100)).toBe(5);
+    expect(getRateAt(blockTariff, new Date(), 500)).toBe(8);
+  });
+
+  it('falls back to the default rate outside every slab', () => {
+    expect(getRateAt(touTariff, new Date('2026-03-10T12:00:00Z'), 0, 'UTC')).toBe(DEFAULT_RATE);
+    expect(getRateAt(null)).toBe(DEFAULT_RATE);
+  });
+});
+
+describe('priceUsage', () => {
+  it('prices time-of-use readings at the slab rate', () => {
+    expect(priceUsage(touTariff, 2, new Date('2026-03-10T19:00:00Z'), 0, 'UTC')).toEqual({ rate: 9, cost: 18 });
+    expect(priceUsage(null, 2)).toEqual({ rate: DEFAULT_RATE, cost: 2 * DEFAULT_RATE });
+  });
+
+  it('charges usage across a block edge at both rates', () => {
+    // 10 units left in the first block, 10 more in the second
+    const { rate, cost } = priceUsage(blockTariff, 20, new Date(), 90);
+    expect(cost).toBeCloseTo(10 * 3 + 10 * 5);
+    expect(rate).toBeCloseTo(4);
+  });
+
+  it('gives zero usage the marginal rate at no cost', () => {
+    expect(priceUsage(blockTariff, 0, new Date(), 150)).toEqual({ rate: 5, cost: 0 });
+  });
+});
+
+describe('calculateCharges', () => {
+  const usage = {
+    units: 100,
+    cost: 650,
+    solar: 0,
+    byRate: [{ rate: 4, units: 50, cost: 200 }, { rate: 9, units: 50, cost: 450 }]
+  };
+
+  it('itemises energy, fixed charges, surcharges and taxes on all of them', () => {
+    const tariff = {
+      ...touTariff,
+      fixedCharge: 50,
+      surcharges: [
+        { name: 'Fuel adjustment', basis: 'per_unit', value: 0.5 },
+        { name: 'Meter rent', basis: 'fixed', value: 20 }
+      ],
+      taxes: [{ name: 'Electricity duty', percentage: 10 }]
+    };
+
+    const { lineItems, amount } = calculateCharges(tariff, usage);
+
+    expect(lineItems).toEqual([
+      { category: 'energy', label: 'Off-Peak energy', units: 50, rate: 4, amount: 200 },
+      { category: 'energy', label: 'Peak energy', units: 50, rate: 9, amount: 450 },
+      { category: 'fixed', label: 'Fixed charges', units: null, rate: null, amount: 50 },
+      { category: 'surcharge', label: 'Fuel adjustment', units: 100, rate: 0.5, amount: 50 },
+      { category: 'surcharge', label: 'Meter rent', units: null, rate: null, amount: 20 },
+      // 10% of 200 + 450 + 50 + 50 + 20
+      { category: 'tax', label: 'Electricity duty (10%)', units: null, rate: null, amount: 77 }
+    ]);
+    expect(amount).toBe(847);
+  });
+
+  it('bills block tariffs by block', () => {
+    const { lineItems, amount } = calculateCharges(blockTariff, { units: 150, solar: 0, byRate: [] });
+
+    expect(lineItems.map(item => [item.label, item.amount])).toEqual([
+      ['First 100 units', 300],
+      ['Next 200 units', 250]
+    ]);
+    expect(amount).toBe(550);
+  });
+
+  it('credits solar at the export rate', () => {
+    const { lineItems, amount } = calculateCharges({ ...blockTariff, solarExportRate: 2 }, { units: 50, solar: 20, byRate: [] });
+
+    expect(lineItems[lineItems.length - 1]).toEqual({ category: 'credit', label: 'Solar credits', units: 20, rate: 2, amount: -40 });
+    expect(amount).toBe(110);
+  });
+
+  it('never lets solar credits take the bill below zero', () => {
+    // Without an export rate, credits use the average energy rate (3)
+    const { lineItems, amount } = calculateCharges(blockTariff, { units: 50, solar: 200, byRate: [] });
+
+    expect(lineItems[lineItems.length - 1]).toMatchObject({ category: 'credit', rate: 3, amount: -150 });
+    expect(amount).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import TariffSchedule from '../models/TariffSchedule.model.js';
+import EnergyReading from '../models/EnergyReading.model.js';
+import Device from '../models/Device.model.js';
+import { getTariffAt, setTariffActive } from '../utils/tariff.js';
+import { buildBill } from '../utils/billing.js';
+
+const userId = new mongoose.Types.ObjectId();
+const date = (value) => new Date(value);
+
+const createTariff = (name, fixedCharge, fields = {}) => new TariffSchedule({
+  userId,
+  name,
+  slabs: [{ name: 'Peak', timeRange: { start: '00:00', end: '00:00' }, rate: 8 }],
+  fixedCharge,
+  isActive: false,
+  ...fields
+});
+
+// Answer getTariffAt's query from a list of schedules
+const stubTariffs = (tariffs) => {
+  vi.spyOn(TariffSchedule, 'findOne').mockImplementation((filter) => {
+    const at = filter.$or?.[0].activePeriods.$elemMatch.from.$lte;
+    const match = filter.userId === null
+      ? null
+      : tariffs.find(t => t.activePeriods.some(p => p.from <= at && (!p.to || p.to > at))
+        || (t.isActive && !t.activePeriods.length));
+    return { sort: async () => match || null };
+  });
+};
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(TariffSchedule.prototype, 'save').mockImplementation(function save() {
+    return Promise.resolve(this);
+  });
+});
+
+describe('setTariffActive', () => {
+  it('records when a schedule was active', async () => {
+    const tariff = createTariff('Summer', 100);
+
+    await setTariffActive(tariff, true, date('2026-01-01T00:00:00Z'));
+    await setTariffActive(tariff, true, date('2026-01-15T00:00:00Z'));
+    await setTariffActive(tariff, false, date('2026-02-01T00:00:00Z'));
+
+    expect(tariff.isActive).toBe(false);
+    expect(tariff.activePeriods.map(p => [p.from, p.to])).toEqual([
+      [date('2026-01-01T00:00:00Z'), date('2026-02-01T00:00:00Z')]
+    ]);
+  });
+
+  it('counts a schedule active before activations were recorded as active from the start', async () => {
+    const tariff = createTariff('Legacy', 100, { isActive: true });
+
+    await setTariffActive(tariff, false, date('2026-02-01T00:00:00Z'));
+
+    expect(tariff.activePeriods.map(p => [p.from, p.to])).toEqual([[new Date(0), date('2026-02-01T00:00:00Z')]]);
+  });
+});
+
+describe('getTariffAt', () => {
+  it('finds the schedule whose active periods cover the date', async () => {
+    const winter = createTariff('Winter', 100);
+    const summer = createTariff('Summer', 200);
+    await setTariffActive(winter, true, date('2026-01-01T00:00:00Z'));
+    await setTariffActive(winter, false, date('2026-03-01T00:00:00Z'));
+    await setTariffActive(summer, true, date('2026-03-01T00:00:00Z'));
+    stubTariffs([winter, summer]);
+
+    expect((await getTariffAt(userId, date('2026-02-28T23:59:59Z'))).name).toBe('Winter');
+    expect((await getTariffAt(userId, date('2026-03-01T00:00:00Z'))).name).toBe('Summer');
+    expect(await getTariffAt(userId, date('2025-12-31T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('buildBill', () => {
+  it('prices a backfilled period with the tariff of that period', async () => {
+    const winter = createTariff('Winter', 100);
+    const summer = createTariff('Summer', 200);
+    await setTariffActive(winter, true, date('2026-01-01T00:00:00Z'));
+    await setTariffActive(winter, false, date('2026-03-01T00:00:00Z'));
+    await setTariffActive(summer, true, date('2026-03-01T00:00:00Z'));
+    stubTariffs([winter, summer]);
+    vi.spyOn(EnergyReading, 'aggregate').mockResolvedValue([]);
+    vi.spyOn(Device, 'find').mockReturnValue({ setOptions: async () => [] });
+    const now = date('2026-03-10T12:00:00Z');
+
+    const february = await buildBill(userId, date('2026-02-01T00:00:00Z'), date('2026-03-01T00:00:00Z'), now);
+    const march = await buildBill(userId, date('2026-03-01T00:00:00Z'), date('2026-04-01T00:00:00Z'), now);
+
+    expect(february).toMatchObject({ tariffName: 'Winter', amount: 100 });
+    expect(march).toMatchObject({ tariffName: 'Summer', amount: 200 });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getZonedParts,
+  zonedTimeToUtc,
+  startOfZonedDay,
+  getUserTimezone,
+  isValidTimezone,
+  DEFAULT_TIMEZONE
+} from '../utils/time.js';
+import { getBillingPeriod, getPeriodForMonth, shiftPeriod, getClosedPeriods } from '../utils/billingPeriod.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('getZonedParts', () => {
+  it('shifts India by five and a half hours', () => {
+    const parts = getZonedParts(new Date('2026-01-10T20:00:00Z'), 'Asia/Kolkata');
+    expect(parts).toMatchObject({ year: 2026, monthIndex: 0, day: 11, hour: 1, minute: 30, weekday: 0 });
+  });
+
+  it('follows daylight saving time', () => {
+    expect(getZonedParts(new Date('2026-01-15T12:00:00Z'), 'America/New_York').hour).toBe(7);
+    expect(getZonedParts(new Date('2026-07-15T12:00:00Z'), 'America/New_York').hour).toBe(8);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts fixed-offset wall clock times', () => {
+    expect(zonedTimeToUtc(2026, 0, 11, 0, 0, 'Asia/Kolkata').toISOString()).toBe('2026-01-10T18:30:00.000Z');
+  });
+
+  it('uses the offset in force on either side of a DST change', () => {
+    // New York springs forward on 8 March 2026 and falls back on 1 November 2026
+    expect(zonedTimeToUtc(2026, 2, 8, 0, 0, 'America/New_York').toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(zonedTimeToUtc(2026, 2, 9, 0, 0, 'America/New_York').toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    expect(zonedTimeToUtc(2026, 10, 2, 0, 0, 'America/New_York').toISOString()).toBe('2026-11-02T05:00:00.000Z');
+  });
+
+  it('handles southern hemisphere DST', () => {
+    // Sydney leaves DST on 5 April 2026
+    expect(zonedTimeToUtc(2026, 3, 4, 0, 0, 'Australia/Sydney').toISOString()).toBe('2026-04-03T13:00:00.000Z');
+    expect(zonedTimeToUtc(2026, 3, 6, 0, 0, 'Australia/Sydney').toISOString()).toBe('2026-04-05T14:00:00.000Z');
+  });
+
+  it('rolls over out-of-range fields', () => {
+    expect(zonedTimeToUtc(2026, 12, 1, 0, 0, 'UTC').toISOString()).toBe('2027-01-01T00:00:00.000Z');
+    expect(zonedTimeToUtc(2026, 2, 0, 0, 0, 'UTC').toISOString()).toBe('2026-02-28T00:00:00.000Z');
+  });
+});
+
+describe('startOfZonedDay', () => {
+  it('returns local midnight rather than server midnight', () => {
+    const start = startOfZonedDay(new Date('2026-01-10T20:00:00Z'), 'Asia/Kolkata');
+    expect(start.toISOString()).toBe('2026-01-10T18:30:00.000Z');
+  });
+
+  it('shifts by whole local days', () => {
+    const now = new Date('2026-01-10T20:00:00Z');
+    expect(startOfZonedDay(now, 'Asia/Kolkata', -1).toISOString()).toBe('2026-01-09T18:30:00.000Z');
+    expect(startOfZonedDay(now, 'Asia/Kolkata', -6).toISOString()).toBe('2026-01-04T18:30:00.000Z');
+  });
+
+  it('gives 23 and 25 hour days across DST changes', () => {
+    const springForward = new Date('2026-03-08T12:00:00Z');
+    const fallBack = new Date('2026-11-01T12:00:00Z');
+    const length = (date) =>
+      startOfZonedDay(date, 'Europe/London', 1) - startOfZonedDay(date, 'Europe/London');
+
+    expect(length(new Date('2026-03-29T12:00:00Z'))).toBe(23 * HOUR_MS);
+    expect(length(new Date('2026-10-25T12:00:00Z'))).toBe(25 * HOUR_MS);
+    expect(startOfZonedDay(springForward, 'America/New_York', 1) - startOfZonedDay(springForward, 'America/New_York')).toBe(23 * HOUR_MS);
+    expect(startOfZonedDay(fallBack, 'America/New_York', 1) - startOfZonedDay(fallBack, 'America/New_York')).toBe(25 * HOUR_MS);
+  });
+});
+
+describe('getUserTimezone', () => {
+  it('falls back to the default timezone', () => {
+    expect(getUserTimezone(null)).toBe(DEFAULT_TIMEZONE);
+    expect(getUserTimezone({ settings: {} })).toBe(DEFAULT_TIMEZONE);
+    expect(getUserTimezone({ settings: { timezone: 'Europe/London' } })).toBe('Europe/London');
+  });
+});
+
+describe('isValidTimezone', () => {
+  it('accepts IANA names and rejects unknown ones', () => {
+    expect(isValidTimezone('America/New_York')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('billing periods', () => {
+  it('starts on the meter read day in the user timezone', () => {
+    const period = getBillingPeriod(new Date('2026-01-04T20:00:00Z'), { readDay: 5, timeZone: 'Asia/Kolkata' });
+    expect(period.month).toBe('January');
+    expect(period.start.toISOString()).toBe('2026-01-04T18:30:00.000Z');
+    expect(period.end.toISOString()).toBe('2026-02-04T18:30:00.000Z');
+    expect(period.days).toBe(31);
+  });
+
+  it('belongs to the previous month before the read day', () => {
+    const period = getBillingPeriod(new Date('2026-01-04T12:00:00Z'), { readDay: 5, timeZone: 'Asia/Kolkata' });
+    expect(period.month).toBe('December');
+    expect(period.year).toBe(2025);
+  });
+
+  it('counts whole days across DST changes', () => {
+    const march = getPeriodForMonth(2026, 2, { readDay: 1, timeZone: 'America/New_York' });
+    expect(march.end - march.start).toBe(31 * 24 * HOUR_MS - HOUR_MS);
+    expect(march.days).toBe(31);
+    expect(shiftPeriod(march, 1).start).toEqual(march.end);
+  });
+});
+
+describe('getClosedPeriods', () => {
+  const options = { readDay: 1, timeZone: 'Asia/Kolkata' };
+  const now = new Date('2026-03-10T12:00:00Z');
+  const labels = (periods) => periods.map(p => `${p.month} ${p.year}`);
+
+  it('lists the finished periods from the one containing `from`', () => {
+    expect(labels(getClosedPeriods(new Date('2025-12-15T00:00:00Z'), now, options, 12)))
+      .toEqual(['December 2025', 'January 2026', 'February 2026']);
+  });
+
+  it('goes back no more than the limit', () => {
+    const periods = getClosedPeriods(new Date('2020-01-01T00:00:00Z'), now, options, 12);
+    expect(periods).toHaveLength(12);
+    expect(labels(periods)[0]).toBe('March 2025');
+  });
+
+  it('is empty until the first period closes', () => {
+    expect(getClosedPeriods(new Date('2026-03-02T00:00:00Z'), now, options, 12)).toEqual([]);
+    // February closes at midnight on 1 March in India
+    expect(labels(getClosedPeriods(new Date('2026-02-10T00:00:00Z'), new Date('2026-02-28T18:30:00Z'), options, 12)))
+      .toEqual(['February 2026']);
+  });
+});
@@ -0,0 +1,227 @@
+import mongoose from 'mongoose';
+import Alert from '../models/Alert.model.js';
+import Device from '../models/Device.model.js';
+import EnergyReading from '../models/EnergyReading.model.js';
+import { notify } from './notifications.js';
+import { DAY_MS, getUserTimezone, getZonedParts, startOfZonedDay, startOfZonedHour } from './time.js';
+
+export const ANOMALY_OPTIONS = {
+  // How much history the hour-of-week baseline is learned from
+  baselineDays: 28,
+  // Fewest past samples of an hour-of-week before it can be judged
+  minSamples: 3,
+  // A spike must beat the usual usage by this many standard deviations,
+  // this multiple of the mean, and this many kWh
+  spikeSigmas: 3,
+  spikeRatio: 1.5,
+  minSpikeKwh: 0.3,
+  // Recent days compared against the baseline for baseload creep
+  recentDays: 3,
+  baseloadIncrease: 0.25,
+  minBaseloadIncreaseKw: 0.05,
+  // Local hours during which a device still on counts as left on overnight
+  overnightHours: [1, 6]
+};
+
+// Device types that are meant to run around the clock
+const ALWAYS_ON_TYPES = ['Refrigerator', 'Router'];
+
+const hourOfWeekKey = (weekday, hour) => `${weekday}:${hour}`;
+
+// Mean and spread of usage for every hour of the week seen in `hours`
+// ({ weekday, hour, usage } in kWh)
+export const buildBaseline = (hours) => {
+  const groups = new Map();
+  hours.forEach(({ weekday, hour, usage }) => {
+    const key = hourOfWeekKey(weekday, hour);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(usage);
+  });
+
+  const baseline = new Map();
+  groups.forEach((values, key) => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    baseline.set(key, { mean, std: Math.sqrt(variance), samples: values.length });
+  });
+  return baseline;
+};
+
+export const getHourStats = (baseline, weekday, hour) => baseline.get(hourOfWeekKey(weekday, hour)) || null;
+
+// Whether usage is far enough above the hour's baseline to be a spike
+export const isSpike = (usage, stats, options = ANOMALY_OPTIONS) => {
+  const opts = { ...ANOMALY_OPTIONS, ...options };
+  if (!stats || stats.samples < opts.minSamples) return false;
+
+  return usage >= opts.minSpikeKwh
+    && usage > stats.mean * opts.spikeRatio
+    && usage > stats.mean + opts.spikeSigmas * stats.std;
+};
+
+// The always-on load (kW): the 10th percentile of hourly usage, so the
+// quietest hours count but a single outage does not
+export const getBaseload = (hourlyUsage) => {
+  if (!hourlyUsage.length) return null;
+  const sorted = [...hourlyUsage].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) * 0.1)];
+};
+
+// Whether a device switched on before local midnight is still running in
+// the small hours. Devices meant to run all the time are ignored.
+export const isLeftOnOvernight = (device, now, timeZone, options = ANOMALY_OPTIONS) => {
+  const [fromHour, toHour] = { ...ANOMALY_OPTIONS, ...options }.overnightHours;
+  if (!device.status || ALWAYS_ON_TYPES.includes(device.type)) return false;
+
+  const { hour } = getZonedParts(now, timeZone);
+  if (hour < fromHour || hour >= toHour) return false;
+
+  const onSince = device.lastUsed || device.updatedAt;
+  return !!onSince && onSince < startOfZonedDay(now, timeZone);
+};
+
+// Whole-home usage per local hour between two instants
+const getHourlyUsage = async (userId, from, to, timeZone) => {
+  const hours = await EnergyReading.aggregate([
+    {
+      $match: {
+        userId: new mongoose.Types.ObjectId(userId),
+        deviceId: null,
+        timestamp: { $gte: from, $lt: to }
+      }
+    },
+    {
+      $group: {
+        _id: { $dateToString: { format: '%Y-%m-%dT%H', date: '$timestamp', timezone: timeZone } },
+        usage: { $sum: '$usage' }
+      }
+    }
+  ]);
+
+  return hours.map(h => {
+    const [date, hour] = h._id.split('T');
+    return {
+      key: h._id,
+      weekday: new Date(`${date}T00:00:00Z`).getUTCDay(),
+      hour: Number(hour),
+      usage: h.usage
+    };
+  });
+};
+
+// Store an alert and notify the user of it. An occurrence that was already
+// raised (same key) is skipped and null returned.
+export const raiseAlert = async (io, user, fields, notificationType = 'anomaly') => {
+  let alert;
+  try {
+    alert = await Alert.create({ userId: user._id, ...fields });
+  } catch (error) {
+    if (error.code === 11000) return null;
+    throw error;
+  }
+
+  await notify(io, user, { type: notificationType, message: alert.message, data: { alertId: alert._id } }, { alert });
+  return alert;
+};
+
+// The baseline only changes when an hour closes, so each user's is learned
+// from the weeks of history once per hour rather than for every reading
+const baselines = new Map();
+
+const getBaseline = async (userId, hourStart, timeZone) => {
+  const key = `${hourStart.getTime()}:${timeZone}`;
+  const cached = baselines.get(userId.toString());
+  if (cached?.key === key) return cached.baseline;
+
+  const history = await getHourlyUsage(
+    userId,
+    new Date(hourStart.getTime() - ANOMALY_OPTIONS.baselineDays * DAY_MS),
+    hourStart,
+    timeZone
+  );
+  const baseline = buildBaseline(history);
+  baselines.set(userId.toString(), { key, baseline });
+  return baseline;
+};
+
+// Compare the current local hour's usage so far with the same hour of the
+// week over the last few weeks. Called for each whole-home reading.
+export const detectUsageSpike = async (io, user, now = new Date()) => {
+  const timeZone = getUserTimezone(user);
+  const hourStart = startOfZonedHour(now, timeZone);
+  const [current] = await getHourlyUsage(user._id, hourStart, new Date(now.getTime() + 1), timeZone);
+  if (!current) return null;
+
+  const baseline = await getBaseline(user._id, hourStart, timeZone);
+  const stats = getHourStats(baseline, current.weekday, current.hour);
+  if (!isSpike(current.usage, stats)) return null;
+
+  const ratio = current.usage / stats.mean;
+  return raiseAlert(io, user, {
+    type: 'spike',
+    severity: ratio >= 3 ? 'critical' : 'warning',
+    message: `Unusually high usage: ${current.usage.toFixed(2)} kWh so far this hour, ${ratio.toFixed(1)}× the usual ${stats.mean.toFixed(2)} kWh`,
+    observed: current.usage,
+    expected: stats.mean,
+    key: `spike:${current.key}`
+  });
+};
+
+// Fire-and-forget wrapper for request handlers
+export const triggerSpikeDetection = (io, user) => {
+  detectUsageSpike(io, user).catch(error => {
+    console.error('❌ Spike detection failed:', error.message);
+  });
+};
+
+// Compare the always-on load of the last few days with the weeks before
+export const detectBaseloadCreep = async (io, user, now = new Date()) => {
+  const timeZone = getUserTimezone(user);
+  const today = startOfZonedDay(now, timeZone);
+  const recentFrom = startOfZonedDay(now, timeZone, -ANOMALY_OPTIONS.recentDays);
+  const referenceFrom = startOfZonedDay(now, timeZone, -ANOMALY_OPTIONS.baselineDays);
+
+  const [recent, reference] = await Promise.all([
+    getHourlyUsage(user._id, recentFrom, today, timeZone),
+    getHourlyUsage(user._id, referenceFrom, recentFrom, timeZone)
+  ]);
+  // Need most of the recent days and at least a few reference days
+  if (recent.length < ANOMALY_OPTIONS.recentDays * 20 || reference.length < 72) return null;
+
+  const recentLoad = getBaseload(recent.map(h => h.usage));
+  const referenceLoad = getBaseload(reference.map(h => h.usage));
+  if (recentLoad - referenceLoad < ANOMALY_OPTIONS.minBaseloadIncreaseKw
+    || recentLoad < referenceLoad * (1 + ANOMALY_OPTIONS.baseloadIncrease)) {
+    return null;
+  }
+
+  const { year, monthIndex, day } = getZonedParts(today, timeZone);
+  return raiseAlert(io, user, {
+    type: 'baseload',
+    severity: 'warning',
+    message: `Your always-on load has risen to ${recentLoad.toFixed(2)} kW from ${referenceLoad.toFixed(2)} kW. Check for devices that no longer switch off.`,
+    observed: recentLoad,
+    expected: referenceLoad,
+    key: `baseload:${year}-${monthIndex + 1}-${day}`
+  });
+};
+
+// Alert once per night for each device still running since before midnight
+export const detectOvernightDevices = async (io, user, now = new Date()) => {
+  const timeZone = getUserTimezone(user);
+  const devices = await Device.find({ userId: user._id, status: true });
+  const { year, monthIndex, day } = getZonedParts(now, timeZone);
+
+  const alerts = [];
+  for (const device of devices.filter(d => isLeftOnOvernight(d, now, timeZone))) {
+    const alert = await raiseAlert(io, user, {
+      type: 'overnight',
+      severity: 'info',
+      message: `${device.name} in ${device.room} was left on overnight`,
+      deviceId: device._id,
+      key: `overnight:${device._id}:${year}-${monthIndex + 1}-${day}`
+    });
+    if (alert) alerts.push(alert);
+  }
+  return alerts;
+};
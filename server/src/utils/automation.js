@@ -0,0 +1,268 @@
+import AutomationRule from '../models/AutomationRule.model.js';
+import AutomationRun from '../models/AutomationRun.model.js';
+import Device from '../models/Device.model.js';
+import EnergyReading from '../models/EnergyReading.model.js';
+import User from '../models/User.model.js';
+import { applyDeviceState } from './deviceControl.js';
+import { getPeriodUsage } from './billing.js';
+import { getBillingPeriod, getPeriodOptions } from './billingPeriod.js';
+import { getUserTimezone, getZonedParts, startOfZonedDay, zonedTimeToUtc } from './time.js';
+import { notify } from './notifications.js';
+
+// Trigger types that each kind of event can fire
+const EVENT_TRIGGERS = {
+  reading: ['usage', 'cost', 'budget', 'solar'],
+  device: ['device_state'],
+  tick: ['time']
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A time trigger that was missed by more than this is skipped, not run late
+const TIME_TRIGGER_GRACE_MS = HOUR_MS;
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const compareValue = (operator, observed, value) => {
+  switch (operator) {
+    case 'gte': return observed >= value;
+    case 'lt': return observed < value;
+    case 'lte': return observed <= value;
+    default: return observed > value;
+  }
+};
+
+// Average power (kW) of a reading's energy (kWh) over its interval, from the
+// previous reading to this one. Null when the interval is unknown.
+export const getReadingPower = (energy, from, to) => {
+  const hours = from ? (to - from) / HOUR_MS : 0;
+  return hours > 0 ? energy / hours : null;
+};
+
+// Today's occurrence of a time trigger in the user's timezone, or null if
+// the trigger does not run today
+export const getTimeTriggerOccurrence = (trigger, now, timeZone) => {
+  const today = getZonedParts(now, timeZone);
+  if (trigger.daysOfWeek?.length && !trigger.daysOfWeek.includes(today.weekday)) return null;
+  return zonedTimeToUtc(today.year, today.monthIndex, today.day, 0, toMinutes(trigger.time), timeZone);
+};
+
+export const matchesCondition = (condition, { now, timeZone, devices }) => {
+  switch (condition.type) {
+    case 'time_window': {
+      const { hour, minute } = getZonedParts(now, timeZone);
+      const current = hour * 60 + minute;
+      const start = toMinutes(condition.start);
+      const end = toMinutes(condition.end);
+      // Windows wrap past midnight when end <= start (e.g. 22:00 - 06:00)
+      return start < end ? current >= start && current < end : current >= start || current < end;
+    }
+    case 'days_of_week':
+      return condition.daysOfWeek.includes(getZonedParts(now, timeZone).weekday);
+    case 'device_state': {
+      const device = devices.get(String(condition.deviceId));
+      return !!device && device.status === (condition.state === 'on');
+    }
+    default:
+      return false;
+  }
+};
+
+const once = (compute) => {
+  let promise;
+  return () => {
+    promise ??= compute();
+    return promise;
+  };
+};
+
+// Metrics shared by every rule evaluated for one event, computed on demand
+const createContext = async (userId, user, now, event) => {
+  const timeZone = getUserTimezone(user);
+  const devices = new Map((await Device.find({ userId })).map(d => [d._id.toString(), d]));
+
+  return {
+    now,
+    user,
+    timeZone,
+    devices,
+    // When the whole-home reading before the event's reading was taken
+    previousReadingAt: once(async () => {
+      const previous = await EnergyReading.findOne(
+        { userId, deviceId: null, timestamp: { $lt: event.reading.timestamp } },
+        'timestamp',
+        { sort: { timestamp: -1 } }
+      );
+      return previous?.timestamp || null;
+    }),
+    todayCost: once(async () => (await getPeriodUsage(userId, startOfZonedDay(now, timeZone))).cost),
+    budgetPercentage: once(async () => {
+      const budget = user?.settings?.monthlyBudget || 5000;
+      const period = getBillingPeriod(now, getPeriodOptions(user));
+      const { cost } = await getPeriodUsage(userId, period.start, period.end);
+      return budget > 0 ? (cost / budget) * 100 : 0;
+    })
+  };
+};
+
+// Whether a rule's trigger holds for the event, with the observed value.
+// Returns null when the event says nothing about this trigger.
+const checkTrigger = async (rule, event, context) => {
+  const { trigger } = rule;
+  const threshold = (observed, value = trigger.value) => ({
+    matched: value !== null && compareValue(trigger.operator, observed, value),
+    observed
+  });
+
+  switch (trigger.type) {
+    case 'usage':
+    case 'solar': {
+      // Thresholds are in kW; readings hold the kWh of their interval
+      if (event.reading.deviceId) return null;
+      const energy = trigger.type === 'usage' ? event.reading.usage : event.reading.solarGeneration || 0;
+      const power = getReadingPower(energy, await context.previousReadingAt(), event.reading.timestamp);
+      return power === null ? null : threshold(power);
+    }
+    case 'cost':
+      return threshold(await context.todayCost());
+    case 'budget':
+      return threshold(
+        await context.budgetPercentage(),
+        trigger.value ?? context.user?.settings?.alertThreshold ?? 80
+      );
+    case 'device_state': {
+      if (String(trigger.deviceId) !== String(event.device._id)) return null;
+      return {
+        matched: event.device.status === (trigger.state === 'on'),
+        observed: event.device.status ? 1 : 0
+      };
+    }
+    case 'time': {
+      const at = getTimeTriggerOccurrence(trigger, context.now, context.timeZone);
+      const due = !!at && at <= context.now &&
+        context.now - at < TIME_TRIGGER_GRACE_MS &&
+        (rule.lastTriggeredAt || rule.createdAt) < at;
+      return { matched: due, observed: null };
+    }
+    default:
+      return null;
+  }
+};
+
+const describeAction = (action, device) => {
+  if (action.type === 'toggle') return `Turned ${action.status ? 'on' : 'off'} ${device.name}`;
+  return `Set ${device.name} to ${action.intensity}%`;
+};
+
+const executeActions = async (io, rule, devices) => {
+  const results = [];
+
+  for (const action of rule.actions) {
+    const deviceId = action.deviceId || null;
+    try {
+      if (action.type === 'notify') {
+        await notify(io, rule.userId, {
+          type: 'automation',
+          message: action.message || `Automation "${rule.name}" ran`,
+          data: { ruleId: rule._id }
+        });
+        results.push({ type: action.type, deviceId, success: true, message: 'Notification sent' });
+        continue;
+      }
+
+      const device = devices.get(String(action.deviceId));
+      if (!device) {
+        results.push({ type: action.type, deviceId, success: false, message: 'Device not found' });
+        continue;
+      }
+
+      const changes = action.type === 'toggle' ? { status: action.status } : { intensity: action.intensity };
+      await applyDeviceState(io, device, changes, 'automation');
+      results.push({ type: action.type, deviceId, success: true, message: describeAction(action, device) });
+    } catch (error) {
+      results.push({ type: action.type, deviceId, success: false, message: error.message });
+    }
+  }
+
+  return results;
+};
+
+// Run a rule's actions now and record the run in its log
+export const runRule = async (io, rule, { triggeredBy, observed = null, devices, now = new Date() } = {}) => {
+  const deviceMap = devices || new Map((await Device.find({ userId: rule.userId })).map(d => [d._id.toString(), d]));
+  const results = await executeActions(io, rule, deviceMap);
+
+  const succeeded = results.filter(r => r.success).length;
+  let status = 'failed';
+  if (succeeded === results.length) status = 'success';
+  else if (succeeded > 0) status = 'partial';
+
+  rule.lastTriggeredAt = now;
+  rule.runCount += 1;
+  await rule.save();
+
+  return AutomationRun.create({
+    userId: rule.userId,
+    ruleId: rule._id,
+    ruleName: rule.name,
+    triggeredBy,
+    observed,
+    status,
+    results
+  });
+};
+
+// Evaluate a user's enabled rules against an event:
+//   { type: 'reading', reading } after a new energy reading,
+//   { type: 'device', device } after a device changes state,
+//   { type: 'tick' } from the minute job, for time triggers.
+// Threshold and device-state rules fire when their trigger starts to hold
+// (and the conditions pass), then re-arm once it stops holding.
+export const evaluateAutomations = async (io, userId, event, now = new Date()) => {
+  const rules = await AutomationRule.find({
+    userId,
+    isEnabled: true,
+    'trigger.type': { $in: EVENT_TRIGGERS[event.type] }
+  });
+  if (!rules.length) return [];
+
+  const user = await User.findById(userId);
+  const context = await createContext(userId, user, now, event);
+  const runs = [];
+
+  for (const rule of rules) {
+    const check = await checkTrigger(rule, event, context);
+    if (!check) continue;
+
+    const edgeTriggered = rule.trigger.type !== 'time';
+    const shouldFire = check.matched && !(edgeTriggered && rule.triggerMatched) &&
+      rule.conditions.every(condition => matchesCondition(condition, context));
+
+    if (shouldFire) {
+      if (edgeTriggered) rule.triggerMatched = true;
+      runs.push(await runRule(io, rule, {
+        triggeredBy: rule.trigger.type,
+        observed: check.observed,
+        devices: context.devices,
+        now
+      }));
+    } else if (!check.matched && rule.triggerMatched) {
+      rule.triggerMatched = false;
+      await rule.save();
+    }
+  }
+
+  return runs;
+};
+
+// Fire-and-forget wrapper for request handlers, so a failing rule never
+// fails the request that triggered it. Changes made by automations
+// themselves are not fed back in, which keeps rules from looping.
+export const triggerAutomations = (io, userId, event) => {
+  evaluateAutomations(io, userId, event).catch(error => {
+    console.error('❌ Automations failed:', error.message);
+  });
+};
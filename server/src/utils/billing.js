@@ -0,0 +1,259 @@
+import mongoose from 'mongoose';
+import EnergyReading from '../models/EnergyReading.model.js';
+import Device from '../models/Device.model.js';
+import Bill from '../models/Bill.model.js';
+import { getTariffAt, splitIntoBlocks } from './tariff.js';
+import { getPeriodForMonth, shiftPeriod } from './billingPeriod.js';
+import { DAY_MS } from './time.js';
+
+// Days after the period closes that payment falls due
+const PAYMENT_TERM_DAYS = 14;
+
+// Minimum time a user gets to pay a freshly generated (e.g. backfilled) bill
+const MIN_PAYMENT_DAYS = 7;
+
+export const getDueDate = (period) => new Date(period.end.getTime() + PAYMENT_TERM_DAYS * DAY_MS);
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// Whole-home meter totals between start (inclusive) and end (exclusive),
+// with energy cost also grouped by the rate each reading was priced at
+export const getPeriodUsage = async (userId, start, end) => {
+  const timestamp = { $gte: start };
+  if (end) timestamp.$lt = end;
+
+  const byRate = await EnergyReading.aggregate([
+    {
+      $match: {
+        userId: new mongoose.Types.ObjectId(userId),
+        deviceId: null,
+        timestamp
+      }
+    },
+    {
+      $group: {
+        _id: '$rate',
+        units: { $sum: '$usage' },
+        cost: { $sum: '$cost' },
+        solar: { $sum: '$solarGeneration' }
+      }
+    },
+    { $sort: { _id: 1 } }
+  ]);
+
+  return {
+    units: byRate.reduce((sum, r) => sum + r.units, 0),
+    cost: byRate.reduce((sum, r) => sum + r.cost, 0),
+    solar: byRate.reduce((sum, r) => sum + r.solar, 0),
+    byRate: byRate.map(r => ({ rate: r._id, units: r.units, cost: r.cost }))
+  };
+};
+
+const blockLabel = ({ from, upTo }) => {
+  if (upTo === null) return `Above ${from} units`;
+  if (from === 0) return `First ${upTo} units`;
+  return `Next ${upTo - from} units`;
+};
+
+const energyLineItems = (tariff, usage) => {
+  if (tariff?.type === 'block' && tariff.blocks?.length) {
+    return splitIntoBlocks(tariff.blocks, usage.units).map(part => ({
+      category: 'energy',
+      label: blockLabel(part),
+      units: part.units,
+      rate: part.rate,
+      amount: part.amount
+    }));
+  }
+
+  // Time-of-use readings were priced when recorded, so bill what they cost
+  return usage.byRate.map(({ rate, units, cost }) => {
+    const slab = tariff?.slabs?.find(s => s.rate === rate);
+    return {
+      category: 'energy',
+      label: slab ? `${slab.name} energy` : 'Energy charges',
+      units,
+      rate,
+      amount: cost
+    };
+  });
+};
+
+// Turn a period's usage into itemised bill lines under the given tariff
+export const calculateCharges = (tariff, usage) => {
+  const lineItems = energyLineItems(tariff, usage);
+
+  if (tariff?.fixedCharge > 0) {
+    lineItems.push({
+      category: 'fixed',
+      label: 'Fixed charges',
+      units: null,
+      rate: null,
+      amount: tariff.fixedCharge
+    });
+  }
+
+  (tariff?.surcharges || []).forEach(surcharge => {
+    const perUnit = surcharge.basis === 'per_unit';
+    lineItems.push({
+      category: 'surcharge',
+      label: surcharge.name,
+      units: perUnit ? usage.units : null,
+      rate: perUnit ? surcharge.value : null,
+      amount: perUnit ? usage.units * surcharge.value : surcharge.value
+    });
+  });
+
+  const subtotal = lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+  (tariff?.taxes || []).forEach(tax => {
+    lineItems.push({
+      category: 'tax',
+      label: `${tax.name} (${tax.percentage}%)`,
+      units: null,
+      rate: null,
+      amount: subtotal * tax.percentage / 100
+    });
+  });
+
+  // Solar generation offsets the bill, never below zero
+  if (usage.solar > 0) {
+    const energyAmount = lineItems
+      .filter(item => item.category === 'energy')
+      .reduce((sum, item) => sum + item.amount, 0);
+    const rate = tariff?.solarExportRate ?? (usage.units > 0 ? energyAmount / usage.units : 0);
+    const total = lineItems.reduce((sum, item) => sum + item.amount, 0);
+    const credit = Math.min(usage.solar * rate, total);
+
+    if (credit > 0) {
+      lineItems.push({
+        category: 'credit',
+        label: 'Solar credits',
+        units: usage.solar,
+        rate,
+        amount: -credit
+      });
+    }
+  }
+
+  const rounded = lineItems.map(item => ({ ...item, amount: round2(item.amount) }));
+
+  return {
+    lineItems: rounded,
+    amount: round2(rounded.reduce((sum, item) => sum + item.amount, 0))
+  };
+};
+
+// Usage and cost of individually metered devices between start and end
+export const getDeviceUsage = async (userId, start, end) => {
+  const timestamp = { $gte: start };
+  if (end) timestamp.$lt = end;
+
+  const usage = await EnergyReading.aggregate([
+    {
+      $match: {
+        userId: new mongoose.Types.ObjectId(userId),
+        deviceId: { $ne: null },
+        timestamp
+      }
+    },
+    {
+      $group: {
+        _id: '$deviceId',
+        units: { $sum: '$usage' },
+        cost: { $sum: '$cost' }
+      }
+    },
+    { $sort: { units: -1 } }
+  ]);
+
+  // Deleted devices keep their share of the history
+  const devices = await Device.find({
+    _id: { $in: usage.map(u => u._id) },
+    userId
+  }).setOptions({ withDeleted: true });
+
+  return usage.map(u => ({
+    deviceId: u._id,
+    name: devices.find(d => d._id.toString() === u._id.toString())?.name || 'Unknown',
+    units: u.units,
+    cost: round2(u.cost)
+  }));
+};
+
+// Compute the bill for a user's usage between start and end, priced with
+// the tariff in effect at the end of the period (or now, for a period still
+// running), so backfilled bills use the tariff of their own period
+export const buildBill = async (userId, start, end, now = new Date()) => {
+  const pricedAt = new Date(Math.min(end.getTime() - 1, now.getTime()));
+  const [usage, deviceBreakdown, tariff] = await Promise.all([
+    getPeriodUsage(userId, start, end),
+    getDeviceUsage(userId, start, end),
+    getTariffAt(userId, pricedAt)
+  ]);
+
+  const { lineItems, amount } = calculateCharges(tariff, usage);
+
+  return {
+    amount,
+    unitsConsumed: usage.units,
+    solarCredits: usage.solar,
+    tariffName: tariff?.name || null,
+    lineItems,
+    deviceBreakdown
+  };
+};
+
+// Create the stored bill for the billing period labelled with the given
+// month. Safe to call repeatedly: returns status 'exists' instead of
+// duplicating a bill, and 'empty' when skipEmpty is set and the period has
+// no readings to bill.
+export const createMonthlyBill = async (userId, year, monthIndex, { now = new Date(), skipEmpty = false, periodOptions } = {}) => {
+  const period = getPeriodForMonth(year, monthIndex, periodOptions);
+  const prevPeriod = shiftPeriod(period, -1);
+
+  if (await Bill.exists({ userId, month: period.month, year: period.year })) {
+    return { status: 'exists', bill: null };
+  }
+
+  // Cheaply rule out periods without a single reading before pricing them
+  if (skipEmpty && !(await EnergyReading.exists({ userId, deviceId: null, timestamp: { $gte: period.start, $lt: period.end } }))) {
+    return { status: 'empty', bill: null };
+  }
+
+  const [charges, prevUsage, prevBill] = await Promise.all([
+    buildBill(userId, period.start, period.end, now),
+    getPeriodUsage(userId, prevPeriod.start, prevPeriod.end),
+    Bill.findOne({ userId, month: prevPeriod.month, year: prevPeriod.year })
+  ]);
+
+  if (skipEmpty && charges.unitsConsumed === 0 && charges.solarCredits === 0) {
+    return { status: 'empty', bill: null };
+  }
+
+  // Compare against last period's bill, or its raw energy cost if it was never billed
+  const prevAmount = prevBill?.amount ?? prevUsage.cost;
+  const savings = prevAmount - charges.amount;
+
+  const standardDue = getDueDate(period);
+  const earliestDue = new Date(now.getTime() + MIN_PAYMENT_DAYS * DAY_MS);
+
+  try {
+    const bill = await Bill.create({
+      userId,
+      month: period.month,
+      year: period.year,
+      periodStart: period.start,
+      periodEnd: period.end,
+      ...charges,
+      status: 'pending',
+      dueDate: standardDue < earliestDue ? earliestDue : standardDue,
+      savings: savings > 0 ? savings : 0
+    });
+    return { status: 'created', bill };
+  } catch (error) {
+    // Another run created the bill first; the unique index keeps it single
+    if (error.code === 11000) return { status: 'exists', bill: null };
+    throw error;
+  }
+};
@@ -0,0 +1,74 @@
+import { DEFAULT_TIMEZONE, DAY_MS, getUserTimezone, getZonedParts, zonedTimeToUtc } from './time.js';
+
+export const monthNames = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Billing settings for a user: the day of month the meter is read and the
+// timezone in which that day starts
+export const getPeriodOptions = (user) => ({
+  readDay: user?.settings?.meterReadDay || 1,
+  timeZone: getUserTimezone(user)
+});
+
+// The billing period labelled with the given month. A period runs from the
+// read day of that month (inclusive) to the read day of the next (exclusive).
+export const getPeriodForMonth = (year, monthIndex, { readDay = 1, timeZone = DEFAULT_TIMEZONE } = {}) => {
+  const start = zonedTimeToUtc(year, monthIndex, readDay, 0, 0, timeZone);
+  const end = zonedTimeToUtc(year, monthIndex + 1, readDay, 0, 0, timeZone);
+  const labelDate = new Date(Date.UTC(year, monthIndex, 1));
+
+  return {
+    start,
+    end,
+    year: labelDate.getUTCFullYear(),
+    monthIndex: labelDate.getUTCMonth(),
+    month: monthNames[labelDate.getUTCMonth()],
+    days: Math.round((end - start) / DAY_MS),
+    readDay,
+    timeZone
+  };
+};
+
+// The billing period containing the given instant
+export const getBillingPeriod = (date = new Date(), options = {}) => {
+  const readDay = options.readDay || 1;
+  const { year, monthIndex, day } = getZonedParts(date, options.timeZone || DEFAULT_TIMEZONE);
+  return getPeriodForMonth(year, day < readDay ? monthIndex - 1 : monthIndex, { ...options, readDay });
+};
+
+// The period n periods before (negative) or after (positive) the given one
+export const shiftPeriod = (period, n) => {
+  return getPeriodForMonth(period.year, period.monthIndex + n, period);
+};
+
+// Periods that have closed by `now`, oldest first, starting with the one
+// containing `from` but going back no more than `limit` periods
+export const getClosedPeriods = (from, now, options, limit) => {
+  const earliest = shiftPeriod(getBillingPeriod(now, options), -limit);
+  const first = getBillingPeriod(from, options);
+  const periods = [];
+
+  for (let period = first.start > earliest.start ? first : earliest; period.end <= now; period = shiftPeriod(period, 1)) {
+    periods.push(period);
+  }
+  return periods;
+};
+
+// Whole and partial days of the period that have passed at `now`
+export const getElapsedDays = (period, now = new Date()) => {
+  const elapsed = (Math.min(now, period.end) - period.start) / DAY_MS;
+  return Math.max(0, Math.min(period.days, elapsed));
+};
+
+// Serialisable summary returned by the API
+export const toPeriodSummary = (period) => ({
+  start: period.start,
+  end: period.end,
+  month: period.month,
+  year: period.year,
+  days: period.days,
+  readDay: period.readDay,
+  timeZone: period.timeZone
+});
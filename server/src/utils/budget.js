@@ -0,0 +1,87 @@
+import { raiseAlert } from './anomaly.js';
+import { getPeriodUsage } from './billing.js';
+import { getBillingPeriod, getElapsedDays, getPeriodOptions } from './billingPeriod.js';
+
+export const DEFAULT_BUDGET = 5000;
+export const DEFAULT_BUDGET_THRESHOLDS = [50, 80, 100];
+
+// Spending against the monthly budget so far in `period`, with the spend
+// rate projected across the whole period
+export const getBudgetSummary = ({ budget, spent, period, now = new Date() }) => {
+  const elapsed = getElapsedDays(period, now);
+  const projected = elapsed > 0 ? (spent / elapsed) * period.days : 0;
+
+  return {
+    budget,
+    spent,
+    remaining: Math.max(0, budget - spent),
+    percentage: budget > 0 ? (spent / budget) * 100 : 0,
+    projected,
+    projectedOverspend: Math.max(0, projected - budget),
+    elapsed
+  };
+};
+
+// The user's thresholds (percent of budget), without duplicates, ascending
+export const getBudgetThresholds = (user) => {
+  const thresholds = user?.settings?.budgetThresholds;
+  return [...new Set(thresholds?.length ? thresholds : DEFAULT_BUDGET_THRESHOLDS)].sort((a, b) => a - b);
+};
+
+export const getCrossedThresholds = (percentage, thresholds) => thresholds.filter(t => percentage >= t);
+
+const formatRupees = (amount) => `₹${amount.toFixed(2)}`;
+
+export const describeBudget = (threshold, summary) => {
+  const lead = threshold >= 100
+    ? `You've gone over your ${formatRupees(summary.budget)} budget: ${formatRupees(summary.spent)} spent this period.`
+    : `You've used ${threshold}% of your ${formatRupees(summary.budget)} budget: ${formatRupees(summary.spent)} spent this period.`;
+
+  if (summary.projectedOverspend > 0) {
+    return `${lead} At this rate you'll spend ${formatRupees(summary.projected)}, ${formatRupees(summary.projectedOverspend)} over budget.`;
+  }
+  return `${lead} At this rate you'll spend ${formatRupees(summary.projected)}, within budget.`;
+};
+
+// Raise one alert for each threshold crossed in the current billing period.
+// Thresholds already raised for the period are skipped by the alert key.
+export const checkBudgetThresholds = async (io, user, now = new Date()) => {
+  const budget = user?.settings?.monthlyBudget ?? DEFAULT_BUDGET;
+  if (budget <= 0) return [];
+
+  const period = getBillingPeriod(now, getPeriodOptions(user));
+  const { cost: spent } = await getPeriodUsage(user._id, period.start, period.end);
+  const summary = getBudgetSummary({ budget, spent, period, now });
+
+  const alerts = [];
+  for (const threshold of getCrossedThresholds(summary.percentage, getBudgetThresholds(user))) {
+    const alert = await raiseAlert(io, user, {
+      type: 'budget',
+      severity: threshold >= 100 ? 'critical' : threshold >= 80 ? 'warning' : 'info',
+      message: describeBudget(threshold, summary),
+      observed: summary.spent,
+      expected: budget * threshold / 100,
+      key: `budget:${period.year}-${period.monthIndex + 1}:${threshold}`
+    }, 'budget');
+    if (alert) alerts.push(alert);
+  }
+  return alerts;
+};
+
+// Spending moves little with each reading, so a user's budget is checked at
+// most this often
+export const BUDGET_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const lastChecks = new Map();
+
+// Fire-and-forget wrapper for request handlers, throttled per user
+export const triggerBudgetCheck = (io, user, now = new Date()) => {
+  const userId = user._id.toString();
+  if (now.getTime() - (lastChecks.get(userId) ?? -Infinity) < BUDGET_CHECK_INTERVAL_MS) return;
+  lastChecks.set(userId, now.getTime());
+
+  checkBudgetThresholds(io, user, now).catch(error => {
+    // Let the next reading try again
+    lastChecks.delete(userId);
+    console.error('❌ Budget check failed:', error.message);
+  });
+};
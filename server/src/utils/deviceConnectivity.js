@@ -0,0 +1,36 @@
+import Device from '../models/Device.model.js';
+import { broadcastDeviceConnectivity } from '../socket/handlers.js';
+
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_OFFLINE_MINUTES = 30;
+
+// Whether a device is online at `now`, from when it was last heard from
+export const getConnectivity = (device, now = new Date()) => {
+  if (!device.lastSeenAt) return 'unknown';
+  const window = (device.offlineAfterMinutes || DEFAULT_OFFLINE_MINUTES) * MINUTE_MS;
+  return now - device.lastSeenAt > window ? 'offline' : 'online';
+};
+
+// Mark a device as just heard from. Clients are told when it comes back
+// online. Returns the updated device, or null if it isn't the user's.
+export const recordHeartbeat = async (io, userId, deviceId, now = new Date()) => {
+  const previous = await Device.findOneAndUpdate(
+    { _id: deviceId, userId },
+    { lastSeenAt: now, connectivity: 'online' }
+  );
+  if (!previous) return null;
+
+  const wasOnline = previous.connectivity === 'online';
+  previous.lastSeenAt = now;
+  previous.connectivity = 'online';
+  if (!wasOnline) broadcastDeviceConnectivity(io, userId.toString(), previous);
+  return previous;
+};
+
+// Fire-and-forget wrapper for request handlers
+export const triggerHeartbeat = (io, userId, deviceId) => {
+  recordHeartbeat(io, userId, deviceId).catch(error => {
+    console.error('❌ Heartbeat failed:', error.message);
+  });
+};
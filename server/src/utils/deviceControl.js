@@ -0,0 +1,69 @@
+import Device from '../models/Device.model.js';
+import DeviceStateChange from '../models/DeviceStateChange.model.js';
+import { broadcastDeviceStatus } from '../socket/handlers.js';
+
+const hasChanges = (device, { status, intensity }) =>
+  (status !== undefined && status !== device.status) ||
+  (intensity !== undefined && intensity !== device.intensity);
+
+const toUpdate = ({ status, intensity }, now) => {
+  const update = {};
+  if (status !== undefined) {
+    update.status = status;
+    // Turning a device off keeps the time it was last switched on
+    if (status) update.lastUsed = now;
+  }
+  if (intensity !== undefined) {
+    update.intensity = intensity;
+  }
+  return update;
+};
+
+// Log entry for a change, recorded only when the state actually changes
+const toStateChange = (device, { status, intensity }, source, now) => ({
+  userId: device.userId,
+  deviceId: device._id,
+  timestamp: now,
+  status: status ?? device.status,
+  intensity: intensity ?? device.intensity,
+  previousStatus: device.status,
+  previousIntensity: device.intensity,
+  source
+});
+
+// Apply a status and/or intensity change to a device and push the new state
+// to the owner's connected clients. `source` tells clients what made the change.
+export const applyDeviceState = async (io, device, { status, intensity }, source = 'user') => {
+  const now = new Date();
+  const change = hasChanges(device, { status, intensity })
+    ? toStateChange(device, { status, intensity }, source, now)
+    : null;
+  device.set(toUpdate({ status, intensity }, now));
+
+  await device.save();
+  if (change) await DeviceStateChange.create(change);
+  broadcastDeviceStatus(io, device.userId.toString(), device, source);
+  return device;
+};
+
+// Apply changes to several devices in one bulk write, then broadcast every
+// device whose state actually changed. `changes` is a list of
+// { device, status, intensity }; callers look up every device first so a
+// missing one fails the request before anything is written.
+export const applyDeviceStates = async (io, changes, source = 'user') => {
+  const now = new Date();
+  const changed = changes.filter(change => hasChanges(change.device, change));
+  if (!changed.length) return [];
+
+  await Device.bulkWrite(changed.map(({ device, ...change }) => ({
+    updateOne: {
+      filter: { _id: device._id, userId: device.userId },
+      update: { $set: toUpdate(change, now) }
+    }
+  })));
+  await DeviceStateChange.insertMany(changed.map(({ device, ...change }) => toStateChange(device, change, source, now)));
+
+  const devices = await Device.find({ _id: { $in: changed.map(c => c.device._id) } });
+  devices.forEach(device => broadcastDeviceStatus(io, device.userId.toString(), device, source));
+  return devices;
+};
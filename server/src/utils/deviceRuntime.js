@@ -0,0 +1,53 @@
+const HOUR_MS = 60 * 60 * 1000;
+
+// Periods in [from, to) during which the device was on, with the intensity
+// it ran at. `initial` is its state at `from`; `changes` are the state-change
+// log entries after it, oldest first.
+export const getRuntimeSegments = (initial, changes, from, to) => {
+  const segments = [];
+  let state = initial;
+  let cursor = from;
+
+  const close = (end) => {
+    if (state.status && end > cursor) {
+      segments.push({ start: cursor, end, intensity: state.intensity });
+    }
+  };
+
+  changes.forEach((change) => {
+    if (change.timestamp >= to) return;
+    if (change.timestamp > cursor) {
+      close(change.timestamp);
+      cursor = change.timestamp;
+    }
+    state = change;
+  });
+  close(to);
+
+  return segments;
+};
+
+// Estimated energy use per hour for a device without its own meter:
+// runtime × rated power (kW) × intensity. `from` must be the start of an
+// hour; hours in which the device never ran are left out.
+export const estimateHourlyUsage = (powerRating, segments, from) => {
+  const hours = new Map();
+
+  segments.forEach(({ start, end, intensity }) => {
+    let cursor = start.getTime();
+    while (cursor < end.getTime()) {
+      const hourStart = from.getTime() + Math.floor((cursor - from.getTime()) / HOUR_MS) * HOUR_MS;
+      const until = Math.min(hourStart + HOUR_MS, end.getTime());
+      const runtimeMs = until - cursor;
+
+      const hour = hours.get(hourStart) || { timestamp: new Date(hourStart), runtimeMs: 0, usage: 0 };
+      hour.runtimeMs += runtimeMs;
+      hour.usage += powerRating * (runtimeMs / HOUR_MS) * (intensity / 100);
+      hours.set(hourStart, hour);
+
+      cursor = until;
+    }
+  });
+
+  return [...hours.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
@@ -0,0 +1,107 @@
+import mongoose from 'mongoose';
+import EnergyReading from '../models/EnergyReading.model.js';
+import { getZonedParts, startOfZonedDay, zonedTimeToUtc } from './time.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Merge the hours a device drew power in into alternating on/off spans
+// covering [from, to). `onHours` are the start instants of those hours.
+export const buildOnOffTimeline = (onHours, from, to) => {
+  const timeline = [];
+  const push = (status, start, end) => {
+    const last = timeline[timeline.length - 1];
+    if (last && last.status === status && last.end.getTime() >= start.getTime()) {
+      last.end = end;
+    } else {
+      timeline.push({ status, start, end });
+    }
+  };
+
+  let cursor = from;
+  [...onHours].sort((a, b) => a - b).forEach((hour) => {
+    const start = new Date(Math.max(hour.getTime(), cursor.getTime()));
+    const end = new Date(Math.min(hour.getTime() + HOUR_MS, to.getTime()));
+    if (start >= end) return;
+
+    if (start > cursor) push(false, cursor, start);
+    push(true, start, end);
+    cursor = end;
+  });
+
+  if (cursor < to) push(false, cursor, to);
+  return timeline;
+};
+
+// '2026-01-12T10' bucket key (local wall clock) back to the instant it starts at
+const hourKeyToDate = (key, timeZone) => {
+  const [date, hour] = key.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  return zonedTimeToUtc(year, month - 1, day, Number(hour), 0, timeZone);
+};
+
+// Local 'YYYY-MM-DD' keys of every day touched by [from, to)
+const localDayKeys = (from, to, timeZone) => {
+  const keys = [];
+  for (let i = 0, day = startOfZonedDay(from, timeZone); day < to; i++, day = startOfZonedDay(from, timeZone, i)) {
+    const { year, monthIndex, day: date } = getZonedParts(day, timeZone);
+    keys.push(`${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(date).padStart(2, '0')}`);
+  }
+  return keys;
+};
+
+// Usage, cost and on-hours for one device between two instants, bucketed
+// into the user's local days. An hour counts as "on" when the device
+// reported any usage in it.
+export const getDeviceUsageStats = async (userId, deviceId, { from, to, timeZone }) => {
+  const hours = await EnergyReading.aggregate([
+    {
+      $match: {
+        userId: new mongoose.Types.ObjectId(userId),
+        deviceId: new mongoose.Types.ObjectId(deviceId),
+        timestamp: { $gte: from, $lt: to }
+      }
+    },
+    {
+      $group: {
+        _id: { $dateToString: { format: '%Y-%m-%dT%H', date: '$timestamp', timezone: timeZone } },
+        usage: { $sum: '$usage' },
+        cost: { $sum: '$cost' },
+        readings: { $sum: 1 }
+      }
+    },
+    { $sort: { _id: 1 } }
+  ]);
+
+  // Days without readings still get a zero entry so charts have no gaps
+  const dailyMap = new Map(
+    localDayKeys(from, to, timeZone).map(date => [date, { date, usage: 0, cost: 0, onHours: 0 }])
+  );
+  const onHours = [];
+  let totalUsage = 0;
+  let totalCost = 0;
+  let readings = 0;
+
+  hours.forEach((h) => {
+    const date = h._id.slice(0, 10);
+    const day = dailyMap.get(date);
+    day.usage += h.usage;
+    day.cost += h.cost;
+    if (h.usage > 0) {
+      day.onHours += 1;
+      onHours.push(hourKeyToDate(h._id, timeZone));
+    }
+
+    totalUsage += h.usage;
+    totalCost += h.cost;
+    readings += h.readings;
+  });
+
+  return {
+    totalUsage,
+    totalCost,
+    readings,
+    onHours: onHours.length,
+    daily: [...dailyMap.values()],
+    timeline: buildOnOffTimeline(onHours, from, to)
+  };
+};
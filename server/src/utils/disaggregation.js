@@ -0,0 +1,116 @@
+// Non-intrusive load disaggregation: infer which appliances ran from the
+// whole-home meter alone by finding step changes in the power drawn and
+// matching their size against the devices' rated loads.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_OPTIONS = {
+  // Smallest change in power (kW) treated as an appliance switching
+  minStep: 0.04,
+  // How far (as a fraction of the rating) a step may be from a device's rated load
+  tolerance: 0.25,
+  // Events without a matching off edge are trusted less
+  unpairedPenalty: 0.8
+};
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Average power (kW) over each reading's interval. Readings are taken to be
+// evenly spaced at the series' median interval, which tolerates the odd
+// missing or late sample.
+export const toPowerSeries = (readings) => {
+  const sorted = [...readings].sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
+  if (sorted.length < 2) return [];
+
+  const gaps = sorted.slice(1).map((r, i) => new Date(r.timestamp) - new Date(sorted[i].timestamp));
+  const intervalHours = median(gaps) / HOUR_MS;
+  if (!intervalHours) return [];
+
+  return sorted.map(r => ({ timestamp: new Date(r.timestamp), power: r.usage / intervalHours }));
+};
+
+// Changes in power between consecutive samples large enough to be an
+// appliance switching on (positive delta) or off (negative delta)
+export const detectEdges = (series, { minStep = DEFAULT_OPTIONS.minStep } = {}) => {
+  const edges = [];
+  for (let i = 1; i < series.length; i++) {
+    const delta = series[i].power - series[i - 1].power;
+    if (Math.abs(delta) >= minStep) {
+      edges.push({ timestamp: series[i].timestamp, delta });
+    }
+  }
+  return edges;
+};
+
+// The device whose rated load best explains a step. Confidence falls with
+// the distance from the rating and with a close runner-up.
+export const matchEdge = (delta, devices, { tolerance = DEFAULT_OPTIONS.tolerance } = {}) => {
+  const step = Math.abs(delta);
+  const fits = devices
+    .filter(d => d.powerRating > 0)
+    .map(device => ({ device, fit: 1 - Math.abs(step - device.powerRating) / device.powerRating }))
+    .filter(f => f.fit >= 1 - tolerance)
+    .sort((a, b) => b.fit - a.fit);
+
+  if (!fits.length) return null;
+
+  const [best, second] = fits;
+  const confidence = best.fit * (second ? 1 - second.fit / 2 : 1);
+  return { device: best.device, confidence };
+};
+
+const round = (value, digits) => Number(value.toFixed(digits));
+
+// Inferred appliance runs: each on edge matched to a device is paired with
+// the next off edge matched to the same device. Runs still going at the end
+// of the series have a null `end`. Devices need `_id`, `name`, `type` and
+// `powerRating`.
+export const disaggregate = (readings, devices, options = {}) => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const series = toPowerSeries(readings);
+  const seriesEnd = series[series.length - 1]?.timestamp;
+
+  const open = new Map();
+  const events = [];
+
+  const toEvent = (on, end, offConfidence) => {
+    const durationHours = ((end || seriesEnd) - on.timestamp) / HOUR_MS;
+    const confidence = offConfidence === undefined
+      ? on.confidence * opts.unpairedPenalty
+      : (on.confidence + offConfidence) / 2;
+
+    return {
+      deviceId: on.device._id,
+      name: on.device.name,
+      type: on.device.type,
+      start: on.timestamp,
+      end,
+      power: round(on.power, 3),
+      energy: round(Math.max(durationHours, 0) * on.device.powerRating, 3),
+      confidence: round(confidence, 2)
+    };
+  };
+
+  // On edges can only be devices that are off, off edges only devices that are on
+  detectEdges(series, opts).forEach((edge) => {
+    const candidates = devices.filter(d => open.has(d._id.toString()) === edge.delta < 0);
+    const match = matchEdge(edge.delta, candidates, opts);
+    if (!match) return;
+
+    const key = match.device._id.toString();
+    if (edge.delta > 0) {
+      open.set(key, { ...match, timestamp: edge.timestamp, power: edge.delta });
+    } else {
+      events.push(toEvent(open.get(key), edge.timestamp, match.confidence));
+      open.delete(key);
+    }
+  });
+
+  open.forEach(on => events.push(toEvent(on, null)));
+
+  return events.sort((a, b) => a.start - b.start);
+};
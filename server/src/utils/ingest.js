@@ -0,0 +1,310 @@
+import { isValidObjectId } from 'mongoose';
+import Device from '../models/Device.model.js';
+import EnergyReading from '../models/EnergyReading.model.js';
+import { getActiveTariff, priceUsage } from './tariff.js';
+import { getPeriodUsage } from './billing.js';
+import { getBillingPeriod, getPeriodOptions } from './billingPeriod.js';
+import { DAY_MS, getUserTimezone } from './time.js';
+import { triggerAutomations } from './automation.js';
+import { triggerSpikeDetection } from './anomaly.js';
+import { triggerBudgetCheck } from './budget.js';
+import { triggerHeartbeat } from './deviceConnectivity.js';
+import { computeRegisterUsage, getLastRegisterReading } from './meterRegister.js';
+import { batchReadingItemSchema } from '../validators/energy.validator.js';
+
+// Price and store a reading for the user, push it to their clients and let
+// everything that watches readings react. Shared by the REST API and the
+// MQTT bridge. Meters may send their cumulative `register` instead of `usage`.
+export const ingestReading = async (io, user, { deviceId, usage, register, solarGeneration, timestamp = new Date() }) => {
+  const userId = user._id;
+
+  let registerFlag = null;
+  if (register !== undefined) {
+    const previous = await getLastRegisterReading(userId, deviceId, timestamp);
+    ({ usage, registerFlag } = computeRegisterUsage(previous, { register, timestamp }));
+  }
+
+  // Readings are priced server-side from the user's active tariff
+  const tariff = await getActiveTariff(userId);
+
+  // Block tariffs charge by the units already consumed this billing period
+  let unitsSoFar = 0;
+  if (tariff?.type === 'block') {
+    const period = getBillingPeriod(timestamp, getPeriodOptions(user));
+    unitsSoFar = (await getPeriodUsage(userId, period.start, period.end)).units;
+  }
+
+  const { rate, cost } = priceUsage(tariff, usage, timestamp, unitsSoFar, getUserTimezone(user));
+
+  // A device that reports its own readings no longer has its usage estimated
+  if (deviceId) {
+    await Device.updateOne({ _id: deviceId, userId, metered: false }, { metered: true });
+  }
+
+  const reading = await EnergyReading.create({
+    userId,
+    deviceId: deviceId || null,
+    timestamp,
+    usage,
+    cost,
+    rate,
+    solarGeneration: solarGeneration || 0,
+    register: register ?? null,
+    registerFlag
+  });
+
+  // Emit real-time update
+  io.to(userId.toString()).emit('energy:update', {
+    usage,
+    cost,
+    timestamp: reading.timestamp,
+    deviceId
+  });
+
+  triggerAutomations(io, userId, { type: 'reading', reading });
+  // Only whole-home readings count towards usage and spend; a device
+  // reporting its own reading is alive
+  if (reading.deviceId) {
+    triggerHeartbeat(io, userId, reading.deviceId);
+  } else {
+    triggerSpikeDetection(io, user);
+    triggerBudgetCheck(io, user);
+  }
+
+  return reading;
+};
+
+// How far back and ahead of the server clock batch timestamps may be
+export const MAX_BACKFILL_DAYS = 90;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Split batch items into readings that can be stored and per-item errors
+// (by index). An ingest key fixes the device for every item.
+export const validateBatchItems = (items, { now = new Date(), deviceId: fixedDeviceId } = {}) => {
+  const valid = [];
+  const errors = [];
+  const earliest = new Date(now.getTime() - MAX_BACKFILL_DAYS * DAY_MS);
+  const latest = new Date(now.getTime() + MAX_CLOCK_SKEW_MS);
+
+  items.forEach((item, index) => {
+    const result = batchReadingItemSchema.safeParse(item);
+    if (!result.success) {
+      errors.push({
+        index,
+        message: result.error.errors.map(e => `${e.path.join('.') || 'reading'}: ${e.message}`).join('; ')
+      });
+      return;
+    }
+
+    const { timestamp, usage, register, solarGeneration } = result.data;
+    let deviceId = result.data.deviceId || null;
+    if (fixedDeviceId !== undefined) {
+      if (deviceId && deviceId !== String(fixedDeviceId)) {
+        errors.push({ index, message: 'deviceId: set by the API key' });
+        return;
+      }
+      deviceId = fixedDeviceId ? String(fixedDeviceId) : null;
+    }
+    if (deviceId && !isValidObjectId(deviceId)) {
+      errors.push({ index, message: 'deviceId: Invalid device id' });
+      return;
+    }
+
+    const date = new Date(timestamp);
+    if (date < earliest || date > latest) {
+      errors.push({ index, message: `timestamp: Must be within the last ${MAX_BACKFILL_DAYS} days and not in the future` });
+      return;
+    }
+
+    valid.push({
+      index,
+      deviceId,
+      timestamp: date,
+      usage: usage ?? null,
+      register: register ?? null,
+      solarGeneration: solarGeneration || 0
+    });
+  });
+
+  return { valid, errors };
+};
+
+// The single energy:update sent for a batch: the latest reading (whole-home
+// if there is one) plus totals for the batch
+export const summarizeBatch = (readings) => {
+  const sorted = [...readings].sort((a, b) => a.timestamp - b.timestamp);
+  const wholeHome = sorted.filter(r => !r.deviceId);
+  const candidates = wholeHome.length ? wholeHome : sorted;
+  const latest = candidates[candidates.length - 1];
+
+  return {
+    usage: latest?.usage ?? 0,
+    cost: latest?.cost ?? 0,
+    timestamp: latest?.timestamp ?? null,
+    deviceId: latest?.deviceId ?? null,
+    batch: {
+      count: readings.length,
+      usage: readings.reduce((sum, r) => sum + r.usage, 0),
+      cost: readings.reduce((sum, r) => sum + r.cost, 0),
+      from: sorted[0]?.timestamp ?? null,
+      to: sorted[sorted.length - 1]?.timestamp ?? null
+    }
+  };
+};
+
+// Stored register values for the given readings' meters and timestamps,
+// keyed by `${deviceId}:${timestamp}`
+const findStoredRegisters = async (userId, readings) => {
+  if (!readings.length) return new Map();
+
+  const stored = await EnergyReading.find({
+    userId,
+    source: 'meter',
+    register: { $ne: null },
+    $or: readings.map(r => ({ deviceId: r.deviceId, timestamp: r.timestamp }))
+  }, 'deviceId timestamp register');
+  return new Map(stored.map(r => [`${r.deviceId ?? null}:${r.timestamp.getTime()}`, r.register]));
+};
+
+// Store many readings with client timestamps. A reading for the same device
+// and timestamp as an earlier one replaces it, so a gateway can safely
+// resend a batch. Register readings must be newer than the meter's last
+// stored one, since later readings' usage was derived from it; resent ones
+// are accepted unchanged. Returns counts, per-item errors and the register
+// readings that were flagged.
+export const ingestReadingBatch = async (io, user, items, { deviceId, now = new Date() } = {}) => {
+  const userId = user._id;
+  const { valid, errors } = validateBatchItems(items, { now, deviceId });
+
+  // Every device must be one of the user's
+  const deviceIds = [...new Set(valid.filter(r => r.deviceId).map(r => r.deviceId))];
+  const owned = new Set(
+    (await Device.find({ _id: { $in: deviceIds }, userId }, '_id')).map(d => d._id.toString())
+  );
+  // A later item for the same device and timestamp replaces an earlier one
+  const latestItems = new Map();
+  valid.forEach(r => {
+    if (r.deviceId && !owned.has(r.deviceId)) {
+      errors.push({ index: r.index, message: 'deviceId: Device not found' });
+      return;
+    }
+    latestItems.set(`${r.deviceId}:${r.timestamp.getTime()}`, r);
+  });
+  const unique = [...latestItems.values()].sort((a, b) => a.timestamp - b.timestamp);
+
+  // Each meter's register readings are chained from its last stored one
+  const lastRegisters = new Map();
+  const readings = [];
+  const older = [];
+  for (const reading of unique) {
+    if (reading.register === null) {
+      readings.push(reading);
+      continue;
+    }
+
+    if (!lastRegisters.has(reading.deviceId)) {
+      lastRegisters.set(reading.deviceId, await getLastRegisterReading(userId, reading.deviceId));
+    }
+    const previous = lastRegisters.get(reading.deviceId);
+    if (previous && reading.timestamp <= previous.timestamp) {
+      older.push(reading);
+      continue;
+    }
+
+    Object.assign(reading, computeRegisterUsage(previous, reading));
+    lastRegisters.set(reading.deviceId, reading);
+    readings.push(reading);
+  }
+
+  // An older register reading that is already stored with the same value is
+  // a resent batch and is accepted as it is. Any other would change usage
+  // already derived from it.
+  const storedRegisters = await findStoredRegisters(userId, older);
+  let replays = 0;
+  older.forEach((reading) => {
+    if (storedRegisters.get(`${reading.deviceId}:${reading.timestamp.getTime()}`) === reading.register) {
+      replays += 1;
+    } else {
+      errors.push({ index: reading.index, message: 'timestamp: Register readings must be newer than the last one stored' });
+    }
+  });
+
+  errors.sort((a, b) => a.index - b.index);
+  if (!readings.length) {
+    return { accepted: replays, inserted: 0, updated: replays, rejected: errors.length, errors, flagged: [] };
+  }
+
+  // Price each reading at its own time. Block tariffs charge by the units
+  // consumed earlier in the reading's billing period.
+  const tariff = await getActiveTariff(userId);
+  const timeZone = getUserTimezone(user);
+  const periodUnits = new Map();
+  for (const reading of readings) {
+    let unitsSoFar = 0;
+    if (tariff?.type === 'block') {
+      const period = getBillingPeriod(reading.timestamp, getPeriodOptions(user));
+      const key = period.start.getTime();
+      if (!periodUnits.has(key)) {
+        periodUnits.set(key, (await getPeriodUsage(userId, period.start, reading.timestamp)).units);
+      }
+      unitsSoFar = periodUnits.get(key);
+      if (!reading.deviceId) periodUnits.set(key, unitsSoFar + reading.usage);
+    }
+    Object.assign(reading, priceUsage(tariff, reading.usage, reading.timestamp, unitsSoFar, timeZone));
+  }
+
+  const operations = readings.map(r => ({
+    updateOne: {
+      filter: { userId, deviceId: r.deviceId, timestamp: r.timestamp, source: 'meter' },
+      update: {
+        $set: {
+          usage: r.usage,
+          cost: r.cost,
+          rate: r.rate,
+          solarGeneration: r.solarGeneration,
+          register: r.register,
+          registerFlag: r.registerFlag || null
+        }
+      },
+      upsert: true
+    }
+  }));
+
+  let result;
+  try {
+    result = await EnergyReading.bulkWrite(operations);
+  } catch (error) {
+    // A concurrent request inserted one of the readings first. The unique
+    // index stopped the duplicate; writing again updates it instead.
+    if (error.code !== 11000) throw error;
+    result = await EnergyReading.bulkWrite(operations);
+  }
+
+  // Devices that report their own readings no longer have usage estimated
+  if (deviceIds.length) {
+    await Device.updateMany({ _id: { $in: [...owned] }, userId, metered: false }, { metered: true });
+  }
+
+  io.to(userId.toString()).emit('energy:update', summarizeBatch(readings));
+
+  // React once to the batch rather than to every reading
+  owned.forEach(id => triggerHeartbeat(io, userId, id));
+  const latestWholeHome = readings.filter(r => !r.deviceId).pop();
+  if (latestWholeHome) {
+    triggerAutomations(io, userId, { type: 'reading', reading: latestWholeHome });
+    triggerSpikeDetection(io, user);
+    triggerBudgetCheck(io, user);
+  }
+
+  return {
+    accepted: readings.length + replays,
+    inserted: result.upsertedCount,
+    updated: result.matchedCount + replays,
+    rejected: errors.length,
+    errors,
+    flagged: readings
+      .filter(r => r.registerFlag)
+      .map(r => ({ index: r.index, registerFlag: r.registerFlag }))
+      .sort((a, b) => a.index - b.index)
+  };
+};
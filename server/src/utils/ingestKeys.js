@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import IngestKey from '../models/IngestKey.model.js';
+import Device from '../models/Device.model.js';
+import User from '../models/User.model.js';
+
+const KEY_PREFIX = 'usk_';
+
+export const hashIngestKey = (key) => crypto.createHash('sha256').update(key).digest('hex');
+
+// A new random key with the hash and prefix that are stored for it
+export const generateIngestKey = () => {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+  return { key, keyHash: hashIngestKey(key), prefix: key.slice(0, KEY_PREFIX.length + 6) };
+};
+
+// The active key record matching a presented key, or null
+export const findIngestKey = async (key) => {
+  if (typeof key !== 'string' || !key.startsWith(KEY_PREFIX)) return null;
+  return IngestKey.findOne({ keyHash: hashIngestKey(key), revokedAt: null });
+};
+
+export const touchIngestKey = (ingestKey, now = new Date()) =>
+  IngestKey.updateOne({ _id: ingestKey._id }, { lastUsedAt: now });
+
+// The key record and user behind a presented key, or the reason it cannot
+// be used
+export const resolveIngestKey = async (key) => {
+  const ingestKey = await findIngestKey(key);
+  if (!ingestKey) return { error: 'Unknown or revoked key' };
+
+  const user = await User.findById(ingestKey.userId);
+  if (!user) return { error: 'User not found' };
+
+  if (ingestKey.deviceId && !(await Device.exists({ _id: ingestKey.deviceId, userId: user._id }))) {
+    return { error: 'Device not found' };
+  }
+
+  return { ingestKey, user };
+};
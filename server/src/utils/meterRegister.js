@@ -0,0 +1,63 @@
+import EnergyReading from '../models/EnergyReading.model.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Meters report a cumulative kWh register; the usage of an interval is the
+// difference from the meter's previous register reading.
+export const REGISTER_OPTIONS = {
+  // Highest average power (kW) a meter is believed to draw between readings.
+  // A larger increase is an implausible jump.
+  maxPowerKw: 50,
+  // A register at least this fraction of the way to the next power of ten
+  // may roll over to zero
+  rolloverFraction: 0.9
+};
+
+// Readings closer together than this are judged as if this far apart
+const MIN_INTERVAL_HOURS = 1 / 60;
+
+const round = (value) => Number(value.toFixed(4));
+
+// The value a register wraps to zero at, e.g. 100000 for a five-digit display
+export const getRolloverValue = (register) => 10 ** (Math.floor(Math.log10(Math.max(register, 1))) + 1);
+
+// Interval usage (kWh) from the previous and current register readings
+// ({ register, timestamp }) and a flag for anything unusual:
+//   baseline: the meter's first register reading, which only sets the start
+//   rollover: the register wrapped past its maximum back to zero
+//   reset:    the register restarted from zero (meter reset or replaced)
+//   negative: the register went backwards and no rollover or reset explains it
+//   jump:     the increase is more than the meter could plausibly have used
+// Negative readings and jumps count as no usage.
+export const computeRegisterUsage = (previous, current, options = REGISTER_OPTIONS) => {
+  const opts = { ...REGISTER_OPTIONS, ...options };
+  if (!previous) return { usage: 0, registerFlag: 'baseline' };
+
+  const hours = Math.max((current.timestamp - previous.timestamp) / HOUR_MS, MIN_INTERVAL_HOURS);
+  const maxUsage = opts.maxPowerKw * hours;
+  const delta = current.register - previous.register;
+
+  if (delta >= 0) {
+    return delta <= maxUsage
+      ? { usage: round(delta), registerFlag: null }
+      : { usage: 0, registerFlag: 'jump' };
+  }
+
+  const rollover = getRolloverValue(previous.register);
+  if (previous.register >= rollover * opts.rolloverFraction) {
+    const wrapped = rollover - previous.register + current.register;
+    if (wrapped <= maxUsage) return { usage: round(wrapped), registerFlag: 'rollover' };
+  }
+  if (current.register <= maxUsage) {
+    return { usage: round(current.register), registerFlag: 'reset' };
+  }
+  return { usage: 0, registerFlag: 'negative' };
+};
+
+// The meter's latest register reading, optionally only those before `before`.
+// Flagged readings count too, so a meter that was replaced starts afresh.
+export const getLastRegisterReading = (userId, deviceId, before = null) => {
+  const filter = { userId, deviceId: deviceId || null, register: { $ne: null } };
+  if (before) filter.timestamp = { $lt: before };
+  return EnergyReading.findOne(filter, 'register timestamp').sort({ timestamp: -1 });
+};
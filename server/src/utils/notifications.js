@@ -0,0 +1,40 @@
+import Notification from '../models/Notification.model.js';
+import User from '../models/User.model.js';
+import { broadcastAlert } from '../socket/handlers.js';
+
+// The preference in settings.notifications that governs each type
+const TYPE_CATEGORIES = {
+  anomaly: 'energyAlerts',
+  budget: 'costWarnings',
+  device_offline: 'deviceOffline',
+  bill_generated: 'costWarnings',
+  bill_reminder: 'costWarnings',
+  bill_overdue: 'costWarnings'
+};
+
+export const getNotificationCategory = (type) => TYPE_CATEGORIES[type] || 'general';
+
+// Whether the user wants notifications of a category. Preferences that were
+// never set count as on, matching the schema defaults.
+export const isCategoryEnabled = (settings, category) =>
+  category === 'general' || settings?.notifications?.[category] !== false;
+
+// Store a notification and push it to the user's clients, unless they have
+// turned its category off (then null is returned). `user` may be a user
+// document with settings or just an id. `details` are added to the socket
+// payload only.
+export const notify = async (io, user, { type, message, data = {} }, details = {}) => {
+  const recipient = user?.settings ? user : await User.findById(user, 'settings');
+  const category = getNotificationCategory(type);
+  if (!recipient || !isCategoryEnabled(recipient.settings, category)) return null;
+
+  const notification = await Notification.create({
+    userId: recipient._id,
+    category,
+    type,
+    message,
+    data
+  });
+  broadcastAlert(io, recipient._id.toString(), type, message, { ...details, notification });
+  return notification;
+};
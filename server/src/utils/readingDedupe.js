@@ -0,0 +1,27 @@
+import EnergyReading from '../models/EnergyReading.model.js';
+
+// Databases created before readings were unique per meter, time and source
+// can hold duplicates, which stop that unique index from building. Keeps the
+// most recently written reading of each duplicate set, removes the rest and
+// builds the indexes again. Returns how many readings were removed.
+export const removeDuplicateReadings = async () => {
+  const duplicates = await EnergyReading.aggregate([
+    { $sort: { updatedAt: -1, _id: -1 } },
+    {
+      $group: {
+        _id: { userId: '$userId', deviceId: '$deviceId', timestamp: '$timestamp', source: '$source' },
+        ids: { $push: '$_id' },
+        count: { $sum: 1 }
+      }
+    },
+    { $match: { count: { $gt: 1 } } }
+  ]).allowDiskUse(true);
+
+  const extra = duplicates.flatMap(group => group.ids.slice(1));
+  if (extra.length) {
+    await EnergyReading.deleteMany({ _id: { $in: extra } });
+  }
+
+  await EnergyReading.createIndexes();
+  return extra.length;
+};
@@ -0,0 +1,79 @@
+import { getZonedParts, startOfZonedDay, zonedTimeToUtc } from './time.js';
+
+// How far back a missed recurring transition is still applied
+const LOOKBACK_DAYS = 7;
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// On/off transitions of a recurring schedule for the local days between
+// fromOffset and toOffset (relative to today), in chronological order
+const getTransitions = (schedule, now, timeZone, fromOffset, toOffset) => {
+  const start = toMinutes(schedule.startTime);
+  const end = schedule.endTime ? toMinutes(schedule.endTime) : null;
+  const transitions = [];
+
+  for (let offset = fromOffset; offset <= toOffset; offset++) {
+    const day = getZonedParts(startOfZonedDay(now, timeZone, offset), timeZone);
+    if (!schedule.daysOfWeek.includes(day.weekday)) continue;
+
+    transitions.push({
+      at: zonedTimeToUtc(day.year, day.monthIndex, day.day, 0, start, timeZone),
+      action: 'on',
+      intensity: schedule.intensity
+    });
+
+    if (end !== null) {
+      const endDay = end <= start ? day.day + 1 : day.day;
+      transitions.push({
+        at: zonedTimeToUtc(day.year, day.monthIndex, endDay, 0, end, timeZone),
+        action: 'off'
+      });
+    }
+  }
+
+  return transitions.sort((a, b) => a.at - b.at);
+};
+
+const getWindowTransitions = (schedule) => [
+  { at: schedule.runAt, action: 'on', intensity: schedule.intensity },
+  { at: schedule.endAt, action: 'off' }
+];
+
+// The transition the executor should apply now, if any. Recurring schedules
+// only apply their most recent transition, so a device catches up to the
+// state it should be in rather than replaying every missed on/off.
+export const getDueTransition = (schedule, now, timeZone) => {
+  if (!schedule.isActive) return null;
+
+  if (schedule.type === 'timer') {
+    if (schedule.completedAt || schedule.runAt > now) return null;
+    return { at: schedule.runAt, action: schedule.action, intensity: schedule.intensity };
+  }
+
+  const transitions = schedule.type === 'window'
+    ? getWindowTransitions(schedule)
+    : getTransitions(schedule, now, timeZone, -LOOKBACK_DAYS, 0);
+  const past = transitions.filter(t => t.at <= now);
+  const latest = past[past.length - 1];
+  if (!latest || (schedule.lastTriggeredAt && latest.at <= schedule.lastTriggeredAt)) return null;
+  return latest;
+};
+
+// The next transition after now, for display
+export const getNextTransition = (schedule, now, timeZone) => {
+  if (!schedule.isActive) return null;
+
+  if (schedule.type === 'timer') {
+    if (schedule.completedAt) return null;
+    return { at: schedule.runAt, action: schedule.action, intensity: schedule.intensity };
+  }
+
+  if (schedule.type === 'window') {
+    return getWindowTransitions(schedule).find(t => t.at > now) || null;
+  }
+
+  return getTransitions(schedule, now, timeZone, -1, 7).find(t => t.at > now) || null;
+};
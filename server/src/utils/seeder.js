@@ -6,6 +6,59 @@ import TariffSchedule from '../models/TariffSchedule.model.js';
 import EnergyReading from '../models/EnergyReading.model.js';
 import Bill from '../models/Bill.model.js';
 import Sustainability from '../models/Sustainability.model.js';
+import { priceUsage } from './tariff.js';
+import { getPeriodForMonth } from './billingPeriod.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Whole-home readings for a stretch of appliance activity: a base load plus
+// the power of every run overlapping each interval, with measurement noise.
+// `runs` are { power (kW), start, end }; `random` can be seeded for tests.
+export const generateSyntheticReadings = ({
+  start,
+  end,
+  intervalMinutes = 15,
+  baseLoad = 0.25,
+  noise = 0.01,
+  runs = [],
+  random = Math.random
+}) => {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const readings = [];
+
+  for (let t = start.getTime(); t + intervalMs <= end.getTime(); t += intervalMs) {
+    const appliances = runs.reduce((sum, run) => {
+      const overlap = Math.min(run.end.getTime(), t + intervalMs) - Math.max(run.start.getTime(), t);
+      return overlap > 0 ? sum + run.power * (overlap / HOUR_MS) : sum;
+    }, 0);
+    const base = (baseLoad + (random() * 2 - 1) * noise) * (intervalMs / HOUR_MS);
+
+    readings.push({ timestamp: new Date(t), usage: Math.max(base + appliances, 0) });
+  }
+
+  return readings;
+};
+
+// A typical day for the demo devices, as local hours on the given day
+const demoSchedule = {
+  'Living Room AC': [[13, 16], [20, 23.5]],
+  'Ceiling Light': [[18.5, 23]],
+  'Washing Machine': [[10, 11]],
+  'Smart TV': [[19, 22]],
+  'Water Heater': [[6.5, 7.25]],
+  'Ceiling Fan': [[0, 6], [22, 24]],
+  'WiFi Router': [[0, 24]],
+  // The compressor cycles for half an hour every two hours
+  Refrigerator: Array.from({ length: 12 }, (_, i) => [i * 2, i * 2 + 0.5])
+};
+
+const demoRuns = (devices, day) => devices.flatMap(device =>
+  (demoSchedule[device.name] || []).map(([from, to]) => ({
+    power: device.powerRating,
+    start: new Date(day.getTime() + from * HOUR_MS),
+    end: new Date(day.getTime() + to * HOUR_MS)
+  }))
+);
 
 const seedDatabase = async () => {
   try {
@@ -40,8 +93,9 @@ const seedDatabase = async () => {
     });
     console.log('✅ Created demo user');
 
-    // Create default tariff schedule
+    // Create the demo user's tariff schedule
     const tariffSchedule = await TariffSchedule.create({
+      userId: demoUser._id,
       name: 'Maharashtra Residential',
       slabs: [
         {
@@ -85,55 +139,51 @@ const seedDatabase = async () => {
     ]);
     console.log('✅ Created demo devices');
 
-    // Generate sample energy readings for today
-    const readings = [];
+    // Today's whole-home readings every 15 minutes, built from the demo
+    // appliances' runs so the meter shows real step changes
     const now = new Date();
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    
-    for (let hour = 0; hour <= now.getHours(); hour++) {
-      const timestamp = new Date(today);
-      timestamp.setHours(hour);
-      
-      // Simulate realistic usage patterns
-      let baseUsage = 0.5;
-      if (hour >= 6 && hour <= 9) baseUsage = 2.5; // Morning peak
-      if (hour >= 10 && hour <= 17) baseUsage = 1.2; // Day time
-      if (hour >= 18 && hour <= 22) baseUsage = 4.0; // Evening peak
-      if (hour >= 23 || hour <= 5) baseUsage = 0.3; // Night
-      
-      const usage = baseUsage + (Math.random() * 0.5);
-      const rate = hour >= 10 && hour <= 17 ? 8.5 : (hour >= 22 || hour <= 6 ? 4.0 : 6.0);
-      const cost = usage * rate;
-      const solar = hour >= 9 && hour <= 17 ? usage * 0.3 : 0;
-
-      readings.push({
+    const readings = generateSyntheticReadings({
+      start: today,
+      end: now,
+      runs: demoRuns(devices, today)
+    }).map(({ timestamp, usage }) => {
+      const { rate, cost } = priceUsage(tariffSchedule, usage, timestamp);
+      const hour = timestamp.getHours();
+
+      return {
         userId: demoUser._id,
         deviceId: null,
         timestamp,
         usage,
         cost,
         rate,
-        solarGeneration: solar
-      });
-    }
+        solarGeneration: hour >= 9 && hour <= 17 ? usage * 0.3 : 0
+      };
+    });
 
     await EnergyReading.insertMany(readings);
     console.log('✅ Created sample energy readings');
 
     // Create sample bills
     const months = ['October 2025', 'November 2025', 'December 2025', 'January 2026'];
-    const bills = months.map((month, index) => ({
-      userId: demoUser._id,
-      month: month.split(' ')[0],
-      year: parseInt(month.split(' ')[1]),
-      amount: 3500 + (index * 200),
-      unitsConsumed: 400 + (index * 25),
-      solarCredits: 50 + (index * 10),
-      status: 'paid',
-      dueDate: new Date(2025, 9 + index, 15),
-      paidDate: new Date(2025, 9 + index, 10),
-      savings: index > 0 ? 100 + (index * 50) : 0
-    }));
+    const bills = months.map((month, index) => {
+      const period = getPeriodForMonth(2025, 9 + index);
+      return {
+        userId: demoUser._id,
+        month: period.month,
+        year: period.year,
+        periodStart: period.start,
+        periodEnd: period.end,
+        amount: 3500 + (index * 200),
+        unitsConsumed: 400 + (index * 25),
+        solarCredits: 50 + (index * 10),
+        status: 'paid',
+        dueDate: new Date(2025, 9 + index, 15),
+        paidDate: new Date(2025, 9 + index, 10),
+        savings: index > 0 ? 100 + (index * 50) : 0
+      };
+    });
 
     await Bill.insertMany(bills);
     console.log('✅ Created sample bills');
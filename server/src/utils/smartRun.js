@@ -0,0 +1,107 @@
+import mongoose from 'mongoose';
+import EnergyReading from '../models/EnergyReading.model.js';
+import { getRateAt } from './tariff.js';
+import { DAY_MS, DEFAULT_TIMEZONE, getZonedParts } from './time.js';
+
+const MINUTE_MS = 60 * 1000;
+
+// Candidate start times are this far apart, and runs are priced in slices of this length
+export const STEP_MINUTES = 15;
+
+// Days of readings used to estimate the solar surplus at each hour
+const SOLAR_HISTORY_DAYS = 14;
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// Average solar generation left over after household load for each local
+// hour of the day (kWh). This is what a shifted appliance could soak up.
+export const getSolarSurplusProfile = async (userId, timeZone = DEFAULT_TIMEZONE, now = new Date()) => {
+  const rows = await EnergyReading.aggregate([
+    {
+      $match: {
+        userId: new mongoose.Types.ObjectId(userId),
+        deviceId: null,
+        timestamp: { $gte: new Date(now.getTime() - SOLAR_HISTORY_DAYS * DAY_MS), $lt: now }
+      }
+    },
+    {
+      $group: {
+        _id: { $hour: { date: '$timestamp', timezone: timeZone } },
+        solar: { $sum: '$solarGeneration' },
+        usage: { $sum: '$usage' }
+      }
+    }
+  ]);
+
+  const profile = new Array(24).fill(0);
+  rows.forEach(row => {
+    profile[row._id] = Math.max(0, (row.solar - row.usage) / SOLAR_HISTORY_DAYS);
+  });
+  return profile;
+};
+
+// Cost of running a load (kW) for a duration from `start`, priced slice by
+// slice. Expected surplus solar covers part of the load; it is valued at the
+// export rate it would otherwise earn, so under net metering (no export rate)
+// it makes no difference to the cost.
+export const estimateRunCost = ({ tariff, loadKw, start, durationMinutes, timeZone, solarProfile, unitsSoFar = 0 }) => {
+  const exportRate = tariff?.solarExportRate ?? null;
+  let cost = 0;
+  let units = 0;
+  let solarUnits = 0;
+
+  for (let offset = 0; offset < durationMinutes; offset += STEP_MINUTES) {
+    const minutes = Math.min(STEP_MINUTES, durationMinutes - offset);
+    const at = new Date(start.getTime() + offset * MINUTE_MS);
+    const energy = loadKw * minutes / 60;
+
+    const surplus = exportRate !== null && solarProfile
+      ? solarProfile[getZonedParts(at, timeZone).hour] * minutes / 60
+      : 0;
+    const solar = Math.min(energy, surplus);
+    const rate = getRateAt(tariff, at, unitsSoFar, timeZone);
+
+    cost += (energy - solar) * rate + solar * (exportRate ?? 0);
+    units += energy;
+    solarUnits += solar;
+  }
+
+  return { cost, units, solarUnits };
+};
+
+// Pick the cheapest start for a run that must finish by the deadline.
+// Starts are tried now and then on every step boundary; ties go to the
+// earliest start. Returns null when the run cannot finish in time.
+export const findCheapestWindow = ({ tariff, loadKw, durationMinutes, deadline, now = new Date(), timeZone, solarProfile, unitsSoFar }) => {
+  const durationMs = durationMinutes * MINUTE_MS;
+  const latestStart = deadline.getTime() - durationMs;
+  if (latestStart < now.getTime()) return null;
+
+  const stepMs = STEP_MINUTES * MINUTE_MS;
+  const estimate = (start) => estimateRunCost({ tariff, loadKw, start, durationMinutes, timeZone, solarProfile, unitsSoFar });
+
+  const runNow = estimate(now);
+  let best = { start: now, ...runNow };
+
+  for (let t = Math.ceil(now.getTime() / stepMs) * stepMs; t <= latestStart; t += stepMs) {
+    const candidate = { start: new Date(t), ...estimate(new Date(t)) };
+    // Only move later for a saving of at least a paisa
+    if (candidate.cost < best.cost - 0.005) best = candidate;
+  }
+
+  const saving = runNow.cost - best.cost;
+
+  return {
+    start: best.start,
+    end: new Date(best.start.getTime() + durationMs),
+    durationMinutes,
+    deadline,
+    units: round2(best.units),
+    solarUnits: round2(best.solarUnits),
+    cost: round2(best.cost),
+    costNow: round2(runNow.cost),
+    saving: round2(saving),
+    savingPercentage: runNow.cost > 0 ? round2((saving / runNow.cost) * 100) : 0,
+    averageRate: best.units > 0 ? round2(best.cost / best.units) : 0
+  };
+};
@@ -0,0 +1,137 @@
+import TariffSchedule from '../models/TariffSchedule.model.js';
+import { DEFAULT_TIMEZONE, getZonedParts } from './time.js';
+
+// Fallback rate (₹/kWh) when no tariff schedule is configured
+export const DEFAULT_RATE = 6;
+
+const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Whether a minute-of-day falls inside a slab's time range.
+// Ranges wrap past midnight when end <= start (e.g. 22:00 - 06:00).
+const inTimeRange = (minuteOfDay, { start, end }) => {
+  const startMin = toMinutes(start);
+  const endMin = toMinutes(end);
+
+  if (startMin < endMin) {
+    return minuteOfDay >= startMin && minuteOfDay < endMin;
+  }
+  return minuteOfDay >= startMin || minuteOfDay < endMin;
+};
+
+// Find the user's active tariff, falling back to the shared default schedule
+export const getActiveTariff = async (userId) => {
+  const own = await TariffSchedule.findOne({ userId, isActive: true }).sort({ updatedAt: -1 });
+  if (own) return own;
+
+  return TariffSchedule.findOne({ userId: null, isActive: true }).sort({ updatedAt: -1 });
+};
+
+// Schedules active before their activations were recorded count as active
+// from the start
+const UNRECORDED_START = new Date(0);
+
+// Find the tariff that was in effect at `date`: the user's schedule whose
+// active periods cover it, else the shared default schedule
+export const getTariffAt = async (userId, date) => {
+  const own = await TariffSchedule.findOne({
+    userId,
+    $or: [
+      { activePeriods: { $elemMatch: { from: { $lte: date }, $or: [{ to: null }, { to: { $gt: date } }] } } },
+      { isActive: true, 'activePeriods.0': { $exists: false } }
+    ]
+  }).sort({ updatedAt: -1 });
+  if (own) return own;
+
+  return TariffSchedule.findOne({ userId: null, isActive: true }).sort({ updatedAt: -1 });
+};
+
+// Activate or deactivate one of the user's schedules, recording when
+export const setTariffActive = async (tariff, isActive, now = new Date()) => {
+  if (tariff.isActive === isActive) return tariff;
+
+  if (isActive) {
+    tariff.activePeriods.push({ from: now });
+  } else if (tariff.activePeriods.length) {
+    const open = tariff.activePeriods.find(p => !p.to);
+    if (open) open.to = now;
+  } else {
+    tariff.activePeriods.push({ from: UNRECORDED_START, to: now });
+  }
+  tariff.isActive = isActive;
+  return tariff.save();
+};
+
+// Slab times are wall-clock times in the user's timezone
+export const findSlab = (tariff, date = new Date(), timeZone = DEFAULT_TIMEZONE) => {
+  if (!tariff?.slabs?.length) return null;
+
+  const { hour, minute, weekday } = getZonedParts(date, timeZone);
+  const minuteOfDay = hour * 60 + minute;
+  const today = dayNames[weekday];
+  const yesterday = dayNames[(weekday + 6) % 7];
+
+  return tariff.slabs.find(slab => {
+    // The early-morning part of a wrapping slab belongs to the previous day's entry
+    const wraps = toMinutes(slab.timeRange.end) <= toMinutes(slab.timeRange.start);
+    const day = wraps && minuteOfDay < toMinutes(slab.timeRange.end) ? yesterday : today;
+    const appliesToDay = !slab.days?.length || slab.days.includes(day);
+    return appliesToDay && inTimeRange(minuteOfDay, slab.timeRange);
+  }) || null;
+};
+
+// Split a month's consumption across the tariff's consumption blocks.
+// The last block is treated as open-ended even if it declares a limit.
+export const splitIntoBlocks = (blocks, units) => {
+  const sorted = [...(blocks || [])].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  const parts = [];
+  let lower = 0;
+
+  sorted.forEach((block, index) => {
+    const isLast = index === sorted.length - 1;
+    const upper = isLast ? Infinity : (block.upTo ?? Infinity);
+    const inBlock = Math.min(units, upper) - lower;
+
+    if (inBlock > 0) {
+      parts.push({
+        from: lower,
+        upTo: isLast ? null : block.upTo,
+        units: inBlock,
+        rate: block.rate,
+        amount: inBlock * block.rate
+      });
+    }
+    lower = upper;
+  });
+
+  return parts;
+};
+
+const blockEnergyCharge = (blocks, units) => {
+  return splitIntoBlocks(blocks, units).reduce((sum, part) => sum + part.amount, 0);
+};
+
+// Rate at a point in time; block tariffs also depend on the units already
+// consumed in the month, so the marginal block rate is returned for those
+export const getRateAt = (tariff, date = new Date(), unitsSoFar = 0, timeZone = DEFAULT_TIMEZONE) => {
+  if (tariff?.type === 'block') {
+    const [part] = splitIntoBlocks(tariff.blocks, unitsSoFar + 1e-9).slice(-1);
+    return part?.rate ?? DEFAULT_RATE;
+  }
+  return findSlab(tariff, date, timeZone)?.rate ?? DEFAULT_RATE;
+};
+
+export const priceUsage = (tariff, usage, date = new Date(), unitsSoFar = 0, timeZone = DEFAULT_TIMEZONE) => {
+  if (tariff?.type === 'block' && tariff.blocks?.length) {
+    const cost = blockEnergyCharge(tariff.blocks, unitsSoFar + usage) - blockEnergyCharge(tariff.blocks, unitsSoFar);
+    const rate = usage > 0 ? cost / usage : getRateAt(tariff, date, unitsSoFar, timeZone);
+    return { rate, cost };
+  }
+
+  const rate = getRateAt(tariff, date, 0, timeZone);
+  return { rate, cost: usage * rate };
+};
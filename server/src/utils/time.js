@@ -0,0 +1,88 @@
+// Timezone helpers built on Intl so no extra date library is needed
+
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Timezone used to bucket a user's readings into local hours and days
+export const getUserTimezone = (user) => user?.settings?.timezone || DEFAULT_TIMEZONE;
+
+const formatters = new Map();
+
+const getFormatter = (timeZone) => {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short'
+    }));
+  }
+  return formatters.get(timeZone);
+};
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Wall-clock fields of an instant as seen in the given timezone
+export const getZonedParts = (date, timeZone = DEFAULT_TIMEZONE) => {
+  const parts = {};
+  getFormatter(timeZone).formatToParts(date).forEach(({ type, value }) => {
+    parts[type] = value;
+  });
+
+  return {
+    year: Number(parts.year),
+    monthIndex: Number(parts.month) - 1,
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: weekdays.indexOf(parts.weekday)
+  };
+};
+
+// Offset of the timezone from UTC (ms) at the given instant
+const getOffset = (date, timeZone) => {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.monthIndex, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// The instant at which a wall-clock time occurs in the given timezone.
+// Out-of-range fields roll over like Date.UTC (e.g. monthIndex 12, day 0).
+export const zonedTimeToUtc = (year, monthIndex, day, hour = 0, minute = 0, timeZone = DEFAULT_TIMEZONE) => {
+  const wallClock = Date.UTC(year, monthIndex, day, hour, minute);
+  const offset = getOffset(new Date(wallClock), timeZone);
+  const candidate = wallClock - offset;
+
+  // Re-check across a DST transition between the guess and the result
+  const correctedOffset = getOffset(new Date(candidate), timeZone);
+  return new Date(correctedOffset === offset ? candidate : wallClock - correctedOffset);
+};
+
+// Start of the local day containing the instant, optionally shifted by whole days
+export const startOfZonedDay = (date, timeZone = DEFAULT_TIMEZONE, dayOffset = 0) => {
+  const { year, monthIndex, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(year, monthIndex, day + dayOffset, 0, 0, timeZone);
+};
+
+// Start of the local hour containing the instant (differs from the UTC hour
+// in zones with a half-hour offset)
+export const startOfZonedHour = (date, timeZone = DEFAULT_TIMEZONE) => {
+  const { year, monthIndex, day, hour } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(year, monthIndex, day, hour, 0, timeZone);
+};
+
+export const isValidTimezone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { isValidTimezone } from '../utils/time.js';
 
 export const registerSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -19,6 +20,9 @@ export const updateProfileSchema = z.object({
 export const updateSettingsSchema = z.object({
   monthlyBudget: z.number().min(0).optional(),
   alertThreshold: z.number().min(0).max(100).optional(),
+  budgetThresholds: z.array(z.number().min(1).max(200)).max(10).optional(),
+  meterReadDay: z.number().int().min(1).max(28).optional(),
+  timezone: z.string().refine(isValidTimezone, 'Invalid timezone').optional(),
   notifications: z.object({
     energyAlerts: z.boolean().optional(),
     costWarnings: z.boolean().optional(),
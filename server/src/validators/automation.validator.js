@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+const timeString = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+const daysOfWeek = z.array(z.number().int().min(0).max(6)).min(1, 'Pick at least one day');
+
+const deviceId = z.string().min(1, 'Device is required');
+
+const operator = z.enum(['gt', 'gte', 'lt', 'lte']).optional();
+
+const thresholdTrigger = (type) => z.object({
+  type: z.literal(type),
+  operator,
+  value: z.number().min(0)
+});
+
+const triggerSchema = z.discriminatedUnion('type', [
+  thresholdTrigger('usage'),
+  thresholdTrigger('cost'),
+  thresholdTrigger('solar'),
+  // Without a value, budget rules use the user's alert threshold
+  z.object({
+    type: z.literal('budget'),
+    operator,
+    value: z.number().min(0).max(1000).nullable().optional()
+  }),
+  z.object({
+    type: z.literal('time'),
+    time: timeString,
+    daysOfWeek: daysOfWeek.optional()
+  }),
+  z.object({
+    type: z.literal('device_state'),
+    deviceId,
+    state: z.enum(['on', 'off'])
+  })
+]);
+
+const conditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('time_window'),
+    start: timeString,
+    end: timeString
+  }),
+  z.object({
+    type: z.literal('days_of_week'),
+    daysOfWeek
+  }),
+  z.object({
+    type: z.literal('device_state'),
+    deviceId,
+    state: z.enum(['on', 'off'])
+  })
+]);
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('toggle'),
+    deviceId,
+    status: z.boolean()
+  }),
+  z.object({
+    type: z.literal('intensity'),
+    deviceId,
+    intensity: z.number().min(0).max(100)
+  }),
+  z.object({
+    type: z.literal('notify'),
+    message: z.string().min(1, 'Message is required').max(200)
+  })
+]);
+
+export const createAutomationSchema = z.object({
+  name: z.string().min(1, 'Rule name is required').max(100),
+  trigger: triggerSchema,
+  conditions: z.array(conditionSchema).max(5)
+    .refine(
+      (conditions) => conditions.every(c => c.type !== 'time_window' || c.start !== c.end),
+      { message: 'End time must differ from start time' }
+    )
+    .optional(),
+  actions: z.array(actionSchema).min(1, 'Add at least one action').max(10),
+  isEnabled: z.boolean().optional()
+});
+
+export const updateAutomationSchema = createAutomationSchema.partial();
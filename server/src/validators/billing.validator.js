@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const recordPaymentSchema = z.object({
+  amount: z.number().positive('Amount must be positive'),
+  method: z.enum(['upi', 'card', 'netbanking', 'cash', 'cheque', 'other']),
+  reference: z.string().max(100).optional(),
+  paidAt: z.string().datetime()
+    .refine(value => new Date(value) <= new Date(), 'Payment date cannot be in the future')
+    .optional()
+});
@@ -15,7 +15,9 @@ export const updateDeviceSchema = z.object({
   type: z.enum(['AC', 'Light', 'Fan', 'Refrigerator', 'TV', 'Heater', 'WashingMachine', 'Router', 'Other']).optional(),
   powerRating: z.number().min(0).optional(),
   icon: z.string().optional(),
-  isSmart: z.boolean().optional()
+  isSmart: z.boolean().optional(),
+  metered: z.boolean().optional(),
+  offlineAfterMinutes: z.number().int().min(1).max(1440).optional()
 });
 
 export const toggleDeviceSchema = z.object({
@@ -25,3 +27,25 @@ export const toggleDeviceSchema = z.object({
 export const intensitySchema = z.object({
   intensity: z.number().min(0).max(100)
 });
+
+// Bulk operations act on a list of device ids or on every device in a room
+const bulkSchema = (shape = {}) => z.object({
+  ids: z.array(z.string().min(1)).min(1, 'Select at least one device').max(100).optional(),
+  room: z.string().min(1).optional(),
+  ...shape
+}).refine(
+  (data) => !data.ids !== !data.room,
+  { message: 'Provide either ids or room' }
+);
+
+export const bulkToggleSchema = bulkSchema({ status: z.boolean() });
+
+export const bulkIntensitySchema = bulkSchema({ intensity: z.number().min(0).max(100) });
+
+export const bulkDeleteSchema = bulkSchema();
+
+export const bulkMoveSchema = bulkSchema({ targetRoom: z.string().trim().min(1, 'Target room is required') });
+
+export const bulkRestoreSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1, 'Select at least one device').max(100)
+});
@@ -6,10 +6,41 @@ export const dateRangeSchema = z.object({
   deviceId: z.string().optional()
 });
 
+// A reading carries either interval usage or the meter's cumulative kWh
+// register, from which the server derives the usage
+const readingValueFields = {
+  usage: z.number().min(0, 'Usage must be positive').optional(),
+  register: z.number().min(0, 'Register must be positive').optional(),
+  solarGeneration: z.number().min(0).optional()
+};
+
+const hasOneReadingValue = (reading) => (reading.usage === undefined) !== (reading.register === undefined);
+const ONE_READING_VALUE = { message: 'Send either usage or register' };
+
 export const addReadingSchema = z.object({
   deviceId: z.string().optional(),
-  usage: z.number().min(0, 'Usage must be positive'),
-  cost: z.number().min(0, 'Cost must be positive'),
-  rate: z.number().min(0, 'Rate must be positive'),
-  solarGeneration: z.number().min(0).optional()
+  ...readingValueFields
+}).refine(hasOneReadingValue, ONE_READING_VALUE);
+
+// Most readings accepted in one batch request
+export const MAX_BATCH_READINGS = 5000;
+
+// Items are validated one by one so a bad reading doesn't reject the batch
+export const batchReadingsSchema = z.object({
+  readings: z.array(z.unknown()).min(1, 'Send at least one reading').max(MAX_BATCH_READINGS)
 });
+
+export const batchReadingItemSchema = z.object({
+  deviceId: z.string().nullable().optional(),
+  timestamp: z.string().datetime({ offset: true }),
+  ...readingValueFields
+}).refine(hasOneReadingValue, ONE_READING_VALUE);
+
+// A reading sent with an ingest key, which decides the device
+export const ingestReadingSchema = z.object(readingValueFields).refine(hasOneReadingValue, ONE_READING_VALUE);
+
+// A reading published over MQTT; `key` is the ingest key for the topic
+export const mqttReadingSchema = z.object({
+  key: z.string().min(1, 'Key is required'),
+  ...readingValueFields
+}).refine(hasOneReadingValue, ONE_READING_VALUE);
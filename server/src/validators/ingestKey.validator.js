@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const createIngestKeySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  // Omit for a whole-home meter
+  deviceId: z.string().min(1).nullable().optional()
+});
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+const sceneDeviceSchema = z.object({
+  deviceId: z.string().min(1, 'Device is required'),
+  status: z.boolean(),
+  intensity: z.number().min(0).max(100).nullable().optional()
+});
+
+const sceneDevices = z.array(sceneDeviceSchema)
+  .min(1, 'Add at least one device')
+  .max(50)
+  .refine(
+    (devices) => new Set(devices.map(d => d.deviceId)).size === devices.length,
+    { message: 'Each device can appear only once in a scene' }
+  );
+
+export const createSceneSchema = z.object({
+  name: z.string().min(1, 'Scene name is required').max(50),
+  icon: z.string().max(30).optional(),
+  devices: sceneDevices
+});
+
+export const updateSceneSchema = createSceneSchema.partial();
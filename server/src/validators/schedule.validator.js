@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+const timeString = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+const daysOfWeek = z.array(z.number().int().min(0).max(6)).min(1, 'Pick at least one day');
+
+const commonFields = {
+  deviceId: z.string().min(1, 'Device is required'),
+  name: z.string().max(100).optional(),
+  intensity: z.number().min(0).max(100).optional(),
+  isActive: z.boolean().optional()
+};
+
+const recurringSchema = z.object({
+  ...commonFields,
+  type: z.literal('recurring'),
+  daysOfWeek,
+  startTime: timeString,
+  endTime: timeString.nullable().optional()
+});
+
+const timerSchema = z.object({
+  ...commonFields,
+  type: z.literal('timer'),
+  action: z.enum(['on', 'off']),
+  runAt: z.string().datetime().optional(),
+  delayMinutes: z.number().int().min(1).max(7 * 24 * 60).optional()
+});
+
+export const createScheduleSchema = z.discriminatedUnion('type', [recurringSchema, timerSchema])
+  .refine(
+    (data) => data.type !== 'timer' || data.runAt || data.delayMinutes,
+    { message: 'Either runAt or delayMinutes is required for a timer' }
+  )
+  .refine(
+    (data) => data.type !== 'recurring' || data.startTime !== data.endTime,
+    { message: 'End time must differ from start time' }
+  );
+
+export const updateScheduleSchema = z.object({
+  name: z.string().max(100).optional(),
+  daysOfWeek: daysOfWeek.optional(),
+  startTime: timeString.optional(),
+  endTime: timeString.nullable().optional(),
+  intensity: z.number().min(0).max(100).optional(),
+  action: z.enum(['on', 'off']).optional(),
+  runAt: z.string().datetime().optional(),
+  isActive: z.boolean().optional()
+});
+
+export const cheapestRunSchema = z.object({
+  deviceId: z.string().min(1, 'Device is required'),
+  name: z.string().max(100).optional(),
+  durationMinutes: z.number().int().min(15, 'Run must be at least 15 minutes').max(12 * 60),
+  deadline: z.string().datetime(),
+  intensity: z.number().min(1).max(100).optional()
+});
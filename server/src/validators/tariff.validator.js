@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+const timeString = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+const slabSchema = z.object({
+  name: z.enum(['Off-Peak', 'Mid-Peak', 'Peak']),
+  timeRange: z.object({
+    start: timeString,
+    end: timeString
+  }),
+  rate: z.number().min(0, 'Rate must be positive'),
+  days: z.array(z.enum(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'])).optional()
+});
+
+const blockSchema = z.object({
+  upTo: z.number().min(0, 'Block limit must be positive').nullable().optional(),
+  rate: z.number().min(0, 'Rate must be positive')
+});
+
+const surchargeSchema = z.object({
+  name: z.string().min(1, 'Surcharge name is required'),
+  basis: z.enum(['per_unit', 'fixed']).optional(),
+  value: z.number().min(0, 'Surcharge must be positive')
+});
+
+const taxSchema = z.object({
+  name: z.string().min(1, 'Tax name is required'),
+  percentage: z.number().min(0, 'Tax percentage must be positive').max(100)
+});
+
+const tariffFields = {
+  name: z.string().min(2, 'Name must be at least 2 characters').max(100),
+  type: z.enum(['time_of_use', 'block']).optional(),
+  slabs: z.array(slabSchema).optional(),
+  blocks: z.array(blockSchema).optional(),
+  fixedCharge: z.number().min(0, 'Fixed charge must be positive').optional(),
+  surcharges: z.array(surchargeSchema).optional(),
+  taxes: z.array(taxSchema).optional(),
+  solarExportRate: z.number().min(0, 'Export rate must be positive').nullable().optional(),
+  isActive: z.boolean().optional()
+};
+
+export const createTariffSchema = z.object(tariffFields).refine(
+  (data) => (data.type === 'block' ? data.blocks?.length : data.slabs?.length),
+  { message: 'At least one slab or consumption block is required' }
+);
+
+export const updateTariffSchema = z.object(tariffFields).partial();
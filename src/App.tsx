@@ -9,8 +9,11 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Devices from "./pages/Devices";
+import DeviceDetail from "./pages/DeviceDetail";
 import Analytics from "./pages/Analytics";
 import Billing from "./pages/Billing";
+import Tariffs from "./pages/Tariffs";
+import Automations from "./pages/Automations";
 import Sustainability from "./pages/Sustainability";
 import SettingsPage from "./pages/SettingsPage";
 import NotFound from "./pages/NotFound";
@@ -29,8 +32,11 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
             <Route path="/dashboard/devices" element={<ProtectedRoute><Devices /></ProtectedRoute>} />
+            <Route path="/dashboard/devices/:id" element={<ProtectedRoute><DeviceDetail /></ProtectedRoute>} />
             <Route path="/dashboard/analytics" element={<ProtectedRoute><Analytics /></ProtectedRoute>} />
             <Route path="/dashboard/billing" element={<ProtectedRoute><Billing /></ProtectedRoute>} />
+            <Route path="/dashboard/tariffs" element={<ProtectedRoute><Tariffs /></ProtectedRoute>} />
+            <Route path="/dashboard/automations" element={<ProtectedRoute><Automations /></ProtectedRoute>} />
             <Route path="/dashboard/sustainability" element={<ProtectedRoute><Sustainability /></ProtectedRoute>} />
             <Route path="/dashboard/settings" element={<ProtectedRoute><SettingsPage /></ProtectedRoute>} />
             <Route path="*" element={<NotFound />} />
@@ -0,0 +1,130 @@
+import { TrendingUp, Gauge, Moon, IndianRupee, WifiOff, Check, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { alertService, UsageAlert } from "@/services/alert.service";
+import { toast } from "@/hooks/use-toast";
+
+const alertIcons: Record<UsageAlert["type"], React.ElementType> = {
+  spike: TrendingUp,
+  baseload: Gauge,
+  overnight: Moon,
+  budget: IndianRupee,
+  offline: WifiOff,
+};
+
+const severityStyles: Record<UsageAlert["severity"], string> = {
+  critical: "bg-destructive/10 text-destructive",
+  warning: "bg-energy-orange/10 text-energy-orange",
+  info: "bg-secondary text-muted-foreground",
+};
+
+interface AlertsInboxProps {
+  alerts: UsageAlert[];
+  onChange: (alerts: UsageAlert[]) => void;
+}
+
+const AlertsInbox = ({ alerts, onChange }: AlertsInboxProps) => {
+  const unacknowledged = alerts.filter((a) => !a.acknowledgedAt).length;
+
+  const acknowledgeAlert = async (id: string) => {
+    try {
+      const updated = await alertService.acknowledgeAlert(id);
+      onChange(alerts.map((a) => (a._id === id ? updated : a)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to acknowledge alert",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const acknowledgeAll = async () => {
+    try {
+      await alertService.acknowledgeAll();
+      const now = new Date().toISOString();
+      onChange(alerts.map((a) => (a.acknowledgedAt ? a : { ...a, acknowledgedAt: now })));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to acknowledge alerts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteAlert = async (id: string) => {
+    try {
+      await alertService.deleteAlert(id);
+      onChange(alerts.filter((a) => a._id !== id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete alert",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-2 flex-row items-center justify-between space-y-0">
+        <div className="flex items-center gap-2">
+          <CardTitle className="font-display text-lg">Alerts</CardTitle>
+          {unacknowledged > 0 && <Badge variant="destructive">{unacknowledged} new</Badge>}
+        </div>
+        {unacknowledged > 0 && (
+          <Button variant="ghost" size="sm" onClick={acknowledgeAll}>
+            Mark all read
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {alerts.length ? (
+          <div className="space-y-1 max-h-72 overflow-y-auto">
+            {alerts.map((alert) => {
+              const Icon = alertIcons[alert.type] || TrendingUp;
+              return (
+                <div
+                  key={alert._id}
+                  className={`flex items-start gap-3 py-2 border-b last:border-0 ${alert.acknowledgedAt ? "opacity-60" : ""}`}
+                >
+                  <div className={`p-2 rounded-lg shrink-0 ${severityStyles[alert.severity]}`}>
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm">{alert.message}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(alert.createdAt).toLocaleString([], { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })}
+                    </p>
+                  </div>
+                  {!alert.acknowledgedAt && (
+                    <button
+                      onClick={() => acknowledgeAlert(alert._id)}
+                      className="p-1.5 text-muted-foreground hover:text-foreground transition-colors"
+                      title="Acknowledge"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => deleteAlert(alert._id)}
+                    className="p-1.5 text-muted-foreground hover:text-destructive transition-colors"
+                    title="Delete"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">No unusual usage detected</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AlertsInbox;
@@ -0,0 +1,117 @@
+import { useState, useEffect } from "react";
+import { Zap } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { analyticsService, BreakdownPeriod, Disaggregation } from "@/services/analytics.service";
+import { getApiErrorMessage } from "@/services/api";
+import { iconMap, deviceTypes } from "@/lib/devices";
+import { toast } from "@/hooks/use-toast";
+
+const periods: { value: BreakdownPeriod; label: string }[] = [
+  { value: "day", label: "Today" },
+  { value: "week", label: "Week" },
+];
+
+const confidenceLabel = (confidence: number) => {
+  if (confidence >= 0.75) return { label: "High", variant: "default" as const };
+  if (confidence >= 0.5) return { label: "Medium", variant: "secondary" as const };
+  return { label: "Low", variant: "outline" as const };
+};
+
+const formatTime = (value: string, withDate: boolean) =>
+  new Date(value).toLocaleString([], withDate
+    ? { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" }
+    : { hour: "2-digit", minute: "2-digit" });
+
+const ApplianceActivityCard = () => {
+  const [period, setPeriod] = useState<BreakdownPeriod>("day");
+  const [data, setData] = useState<Disaggregation | null>(null);
+
+  useEffect(() => {
+    analyticsService
+      .getDisaggregation({ period })
+      .then(setData)
+      .catch((error) => {
+        toast({
+          title: "Error",
+          description: getApiErrorMessage(error, "Failed to load appliance activity"),
+          variant: "destructive",
+        });
+      });
+  }, [period]);
+
+  const events = [...(data?.events || [])].reverse();
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="space-y-3">
+        <div>
+          <CardTitle className="font-display text-lg">Detected Appliance Activity</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Inferred from step changes in your whole-home meter, matched against each device's power rating
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {periods.map((p) => (
+            <button
+              key={p.value}
+              onClick={() => setPeriod(p.value)}
+              className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                period === p.value ? "bg-primary text-primary-foreground" : "bg-secondary text-secondary-foreground hover:bg-accent"
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data && data.devices.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {data.devices.map((d) => (
+              <div key={d.deviceId} className="rounded-lg bg-secondary px-3 py-2 text-xs">
+                <p className="font-medium">{d.name}</p>
+                <p className="text-muted-foreground">
+                  {d.events} run{d.events === 1 ? "" : "s"} · ~{d.energy.toFixed(2)} kWh · {Math.round(d.confidence * 100)}%
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {events.length ? (
+          <div className="space-y-1 max-h-80 overflow-y-auto">
+            {events.map((e) => {
+              const Icon = iconMap[deviceTypes.find((t) => t.value === e.type)?.icon || ""] || Zap;
+              const confidence = confidenceLabel(e.confidence);
+              return (
+                <div key={`${e.deviceId}-${e.start}`} className="flex items-center gap-3 py-2 border-b last:border-0">
+                  <div className="p-2 rounded-lg bg-secondary text-muted-foreground">
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">{e.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatTime(e.start, period !== "day")} – {e.end ? formatTime(e.end, period !== "day") : "now"}
+                      {" · "}
+                      {e.power.toFixed(2)} kW step
+                    </p>
+                  </div>
+                  <Badge variant={confidence.variant} className="text-xs" title={`${Math.round(e.confidence * 100)}% confidence`}>
+                    {confidence.label} · {Math.round(e.confidence * 100)}%
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-10">
+            {data?.readings ? "No appliance switching detected in this period" : "No whole-home readings in this period"}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApplianceActivityCard;
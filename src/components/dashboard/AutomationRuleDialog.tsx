@@ -0,0 +1,456 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Device } from "@/services/device.service";
+import {
+  automationService,
+  AutomationRule,
+  AutomationTrigger,
+  AutomationCondition,
+  AutomationAction,
+  ComparisonOperator,
+  DeviceState,
+} from "@/services/automation.service";
+import { getApiErrorMessage } from "@/services/api";
+import { toast } from "@/hooks/use-toast";
+
+const dayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const triggerOptions: { type: AutomationTrigger["type"]; label: string; unit?: string }[] = [
+  { type: "usage", label: "Power usage", unit: "kW" },
+  { type: "cost", label: "Cost today", unit: "₹" },
+  { type: "budget", label: "Budget used", unit: "%" },
+  { type: "solar", label: "Solar generation", unit: "kW" },
+  { type: "time", label: "Time of day" },
+  { type: "device_state", label: "Device turns on/off" },
+];
+
+const operators: { value: ComparisonOperator; label: string }[] = [
+  { value: "gt", label: "Above" },
+  { value: "gte", label: "At least" },
+  { value: "lt", label: "Below" },
+  { value: "lte", label: "At most" },
+];
+
+const defaultTrigger = (type: AutomationTrigger["type"], deviceId: string): AutomationTrigger => {
+  switch (type) {
+    case "time":
+      return { type, time: "22:00" };
+    case "device_state":
+      return { type, deviceId, state: "on" };
+    case "budget":
+      return { type, operator: "gte", value: 80 };
+    default:
+      return { type, operator: "gt", value: 0 };
+  }
+};
+
+const defaultCondition = (type: AutomationCondition["type"], deviceId: string): AutomationCondition => {
+  switch (type) {
+    case "time_window":
+      return { type, start: "18:00", end: "22:00" };
+    case "days_of_week":
+      return { type, daysOfWeek: [1, 2, 3, 4, 5] };
+    default:
+      return { type, deviceId, state: "on" };
+  }
+};
+
+const defaultAction = (type: AutomationAction["type"], deviceId: string): AutomationAction => {
+  switch (type) {
+    case "toggle":
+      return { type, deviceId, status: false };
+    case "intensity":
+      return { type, deviceId, intensity: 50 };
+    default:
+      return { type, message: "" };
+  }
+};
+
+interface DeviceSelectProps {
+  devices: Device[];
+  value: string;
+  onChange: (deviceId: string) => void;
+}
+
+const DeviceSelect = ({ devices, value, onChange }: DeviceSelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger>
+      <SelectValue placeholder="Device" />
+    </SelectTrigger>
+    <SelectContent>
+      {devices.map((d) => (
+        <SelectItem key={d._id} value={d._id}>
+          {d.name}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface StateSelectProps {
+  value: DeviceState;
+  onChange: (state: DeviceState) => void;
+}
+
+const StateSelect = ({ value, onChange }: StateSelectProps) => (
+  <Select value={value} onValueChange={(state) => onChange(state as DeviceState)}>
+    <SelectTrigger className="w-24">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value="on">On</SelectItem>
+      <SelectItem value="off">Off</SelectItem>
+    </SelectContent>
+  </Select>
+);
+
+interface DayPickerProps {
+  value: number[];
+  onChange: (days: number[]) => void;
+}
+
+const DayPicker = ({ value, onChange }: DayPickerProps) => (
+  <ToggleGroup
+    type="multiple"
+    variant="outline"
+    size="sm"
+    value={value.map(String)}
+    onValueChange={(days) => onChange(days.map(Number))}
+    className="justify-start flex-wrap"
+  >
+    {dayLabels.map((label, day) => (
+      <ToggleGroupItem key={label} value={String(day)} className="w-10">
+        {label.slice(0, 2)}
+      </ToggleGroupItem>
+    ))}
+  </ToggleGroup>
+);
+
+interface AutomationRuleDialogProps {
+  open: boolean;
+  devices: Device[];
+  onOpenChange: (open: boolean) => void;
+  onCreated: (rule: AutomationRule) => void;
+}
+
+const AutomationRuleDialog = ({ open, devices, onOpenChange, onCreated }: AutomationRuleDialogProps) => {
+  const firstDeviceId = devices[0]?._id || "";
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [trigger, setTrigger] = useState<AutomationTrigger>(defaultTrigger("usage", firstDeviceId));
+  const [conditions, setConditions] = useState<AutomationCondition[]>([]);
+  const [actions, setActions] = useState<AutomationAction[]>([defaultAction("notify", firstDeviceId)]);
+
+  const resetForm = () => {
+    setName("");
+    setTrigger(defaultTrigger("usage", firstDeviceId));
+    setConditions([]);
+    setActions([defaultAction("notify", firstDeviceId)]);
+  };
+
+  const updateCondition = (index: number, condition: AutomationCondition) => {
+    setConditions((prev) => prev.map((c, i) => (i === index ? condition : c)));
+  };
+
+  const updateAction = (index: number, action: AutomationAction) => {
+    setActions((prev) => prev.map((a, i) => (i === index ? action : a)));
+  };
+
+  const createRule = async () => {
+    const missingDevice = [trigger, ...conditions, ...actions].some((part) => "deviceId" in part && !part.deviceId);
+    const missingMessage = actions.some((a) => a.type === "notify" && !a.message.trim());
+
+    if (!name.trim() || !actions.length || missingDevice || missingMessage) {
+      toast({
+        title: "Error",
+        description: "Please fill all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const rule = await automationService.createRule({ name: name.trim(), trigger, conditions, actions });
+      onCreated(rule);
+      resetForm();
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: "Automation created",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to create automation"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const triggerUnit = triggerOptions.find((t) => t.type === trigger.type)?.unit;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Automation</DialogTitle>
+          <DialogDescription>When the trigger fires and every condition holds, the actions run.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 pt-2">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Shed load at peak" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>When</Label>
+            <Select
+              value={trigger.type}
+              onValueChange={(type) => setTrigger(defaultTrigger(type as AutomationTrigger["type"], firstDeviceId))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {triggerOptions.map((option) => (
+                  <SelectItem key={option.type} value={option.type}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {"operator" in trigger && (
+              <div className="flex items-center gap-2">
+                <Select
+                  value={trigger.operator || "gt"}
+                  onValueChange={(operator) => setTrigger({ ...trigger, operator: operator as ComparisonOperator })}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operators.map((op) => (
+                      <SelectItem key={op.value} value={op.value}>
+                        {op.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.1"
+                  min={0}
+                  value={trigger.value ?? ""}
+                  onChange={(e) => setTrigger({ ...trigger, value: parseFloat(e.target.value) || 0 })}
+                />
+                <span className="text-sm text-muted-foreground w-8">{triggerUnit}</span>
+              </div>
+            )}
+
+            {trigger.type === "time" && (
+              <div className="space-y-2">
+                <Input type="time" value={trigger.time} onChange={(e) => setTrigger({ ...trigger, time: e.target.value })} />
+                <DayPicker
+                  value={trigger.daysOfWeek || [0, 1, 2, 3, 4, 5, 6]}
+                  onChange={(daysOfWeek) => setTrigger({ ...trigger, daysOfWeek })}
+                />
+              </div>
+            )}
+
+            {trigger.type === "device_state" && (
+              <div className="flex items-center gap-2">
+                <DeviceSelect
+                  devices={devices}
+                  value={trigger.deviceId}
+                  onChange={(deviceId) => setTrigger({ ...trigger, deviceId })}
+                />
+                <span className="text-sm text-muted-foreground">turns</span>
+                <StateSelect value={trigger.state} onChange={(state) => setTrigger({ ...trigger, state })} />
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Only if</Label>
+            {conditions.map((condition, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <div className="flex-1">
+                  {condition.type === "time_window" && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        value={condition.start}
+                        onChange={(e) => updateCondition(index, { ...condition, start: e.target.value })}
+                      />
+                      <span className="text-sm text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        value={condition.end}
+                        onChange={(e) => updateCondition(index, { ...condition, end: e.target.value })}
+                      />
+                    </div>
+                  )}
+                  {condition.type === "days_of_week" && (
+                    <DayPicker
+                      value={condition.daysOfWeek}
+                      onChange={(daysOfWeek) => updateCondition(index, { ...condition, daysOfWeek })}
+                    />
+                  )}
+                  {condition.type === "device_state" && (
+                    <div className="flex items-center gap-2">
+                      <DeviceSelect
+                        devices={devices}
+                        value={condition.deviceId}
+                        onChange={(deviceId) => updateCondition(index, { ...condition, deviceId })}
+                      />
+                      <span className="text-sm text-muted-foreground">is</span>
+                      <StateSelect
+                        value={condition.state}
+                        onChange={(state) => updateCondition(index, { ...condition, state })}
+                      />
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => setConditions((prev) => prev.filter((_, i) => i !== index))}
+                  className="p-2 text-muted-foreground hover:text-destructive transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConditions((prev) => [...prev, defaultCondition("time_window", firstDeviceId)])}
+              >
+                Time Window
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConditions((prev) => [...prev, defaultCondition("days_of_week", firstDeviceId)])}
+              >
+                Days
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!devices.length}
+                onClick={() => setConditions((prev) => [...prev, defaultCondition("device_state", firstDeviceId)])}
+              >
+                Device State
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Then</Label>
+            {actions.map((action, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <div className="flex-1">
+                  {action.type === "toggle" && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">Turn</span>
+                      <StateSelect
+                        value={action.status ? "on" : "off"}
+                        onChange={(state) => updateAction(index, { ...action, status: state === "on" })}
+                      />
+                      <DeviceSelect
+                        devices={devices}
+                        value={action.deviceId}
+                        onChange={(deviceId) => updateAction(index, { ...action, deviceId })}
+                      />
+                    </div>
+                  )}
+                  {action.type === "intensity" && (
+                    <div className="flex items-center gap-2">
+                      <DeviceSelect
+                        devices={devices}
+                        value={action.deviceId}
+                        onChange={(deviceId) => updateAction(index, { ...action, deviceId })}
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        className="w-20"
+                        value={action.intensity}
+                        onChange={(e) =>
+                          updateAction(index, { ...action, intensity: Math.min(100, parseInt(e.target.value) || 0) })
+                        }
+                      />
+                      <span className="text-sm text-muted-foreground">%</span>
+                    </div>
+                  )}
+                  {action.type === "notify" && (
+                    <Input
+                      value={action.message}
+                      placeholder="Notification message"
+                      onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+                    />
+                  )}
+                </div>
+                <button
+                  onClick={() => setActions((prev) => prev.filter((_, i) => i !== index))}
+                  disabled={actions.length === 1}
+                  className="p-2 text-muted-foreground hover:text-destructive transition-colors disabled:opacity-30"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!devices.length}
+                onClick={() => setActions((prev) => [...prev, defaultAction("toggle", firstDeviceId)])}
+              >
+                Turn On/Off
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!devices.length}
+                onClick={() => setActions((prev) => [...prev, defaultAction("intensity", firstDeviceId)])}
+              >
+                Set Intensity
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setActions((prev) => [...prev, defaultAction("notify", firstDeviceId)])}
+              >
+                Notify
+              </Button>
+            </div>
+          </div>
+
+          <Button onClick={createRule} className="w-full" disabled={saving}>
+            Create Automation
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AutomationRuleDialog;
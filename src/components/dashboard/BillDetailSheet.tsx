@@ -0,0 +1,317 @@
+import { useState, useEffect } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { billingService, Bill, BillLineItem, PaymentMethod } from "@/services/billing.service";
+import { getApiErrorMessage } from "@/services/api";
+import { toast } from "@/hooks/use-toast";
+import { formatPeriodRange } from "@/lib/utils";
+
+const sections: { title: string; categories: BillLineItem["category"][] }[] = [
+  { title: "Energy Charges", categories: ["energy"] },
+  { title: "Fixed Charges & Surcharges", categories: ["fixed", "surcharge"] },
+  { title: "Taxes", categories: ["tax"] },
+  { title: "Credits", categories: ["credit"] },
+];
+
+const paymentMethods: { value: PaymentMethod; label: string }[] = [
+  { value: "upi", label: "UPI" },
+  { value: "card", label: "Card" },
+  { value: "netbanking", label: "Net Banking" },
+  { value: "cash", label: "Cash" },
+  { value: "cheque", label: "Cheque" },
+  { value: "other", label: "Other" },
+];
+
+const formatAmount = (amount: number) =>
+  `${amount < 0 ? "−" : ""}₹${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const lineItemDetail = (item: BillLineItem) =>
+  item.units !== null && item.rate !== null
+    ? `${item.units.toFixed(1)} kWh × ₹${item.rate.toFixed(2)}`
+    : null;
+
+interface BillDetailSheetProps {
+  bill: Bill | null;
+  onOpenChange: (open: boolean) => void;
+  onBillUpdated?: (bill: Bill) => void;
+}
+
+const BillDetailSheet = ({ bill, onOpenChange, onBillUpdated }: BillDetailSheetProps) => {
+  const [detail, setDetail] = useState<Bill | null>(bill);
+  const [loading, setLoading] = useState(false);
+  const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [payment, setPayment] = useState({
+    amount: "",
+    method: "upi" as PaymentMethod,
+    reference: "",
+    paidAt: new Date().toISOString().slice(0, 10),
+  });
+
+  // Saved bills are refetched so the drawer always shows the stored breakdown
+  useEffect(() => {
+    setDetail(bill);
+    setShowPaymentForm(false);
+    if (!bill?._id) return;
+
+    const fetchBill = async () => {
+      try {
+        setLoading(true);
+        setDetail(await billingService.getBill(bill._id));
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load bill details",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBill();
+  }, [bill]);
+
+  const balance = detail ? Math.max(0, detail.amount - (detail.amountPaid || 0)) : 0;
+
+  const openPaymentForm = () => {
+    setPayment((prev) => ({ ...prev, amount: balance.toFixed(2), reference: "" }));
+    setShowPaymentForm(true);
+  };
+
+  const recordPayment = async () => {
+    if (!detail?._id) return;
+    const amount = parseFloat(payment.amount);
+    if (!amount || amount <= 0) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid amount",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (amount > balance + 0.01) {
+      toast({
+        title: "Error",
+        description: `Amount can't be more than the ₹${balance.toFixed(2)} outstanding`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await billingService.recordPayment(detail._id, {
+        amount,
+        method: payment.method,
+        reference: payment.reference || undefined,
+        paidAt: new Date(payment.paidAt).toISOString(),
+      });
+      setDetail(updated);
+      setShowPaymentForm(false);
+      onBillUpdated?.(updated);
+      toast({
+        title: "Success",
+        description: updated.status === "paid" ? "Bill marked as paid" : "Payment recorded",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to record payment"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const payments = [...(detail?.payments || [])].sort(
+    (a, b) => new Date(b.paidAt).getTime() - new Date(a.paidAt).getTime()
+  );
+  const lineItems = detail?.lineItems || [];
+  const deviceBreakdown = detail?.deviceBreakdown || [];
+  const deviceTotal = deviceBreakdown.reduce((sum, d) => sum + d.units, 0);
+
+  return (
+    <Sheet open={!!bill} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="font-display">
+            {detail ? `${detail.month} ${detail.year}` : "Bill"}
+          </SheetTitle>
+          <SheetDescription>
+            {detail?.tariffName || "Itemised bill"}
+            {detail?.periodStart && detail.periodEnd && ` · ${formatPeriodRange(detail.periodStart, detail.periodEnd)}`}
+            {detail?.dueDate && ` · Due ${new Date(detail.dueDate).toLocaleDateString()}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading || !detail ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-6 pt-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-xs text-muted-foreground">Units Consumed</p>
+                <p className="font-display text-xl font-bold">{detail.unitsConsumed.toFixed(1)} kWh</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Solar Generated</p>
+                <p className="font-display text-xl font-bold">{detail.solarCredits.toFixed(1)} kWh</p>
+              </div>
+            </div>
+
+            {lineItems.length === 0 && (
+              <p className="text-sm text-muted-foreground">No itemised breakdown is available for this bill.</p>
+            )}
+
+            {sections.map(({ title, categories }) => {
+              const items = lineItems.filter((item) => categories.includes(item.category));
+              if (!items.length) return null;
+              return (
+                <div key={title} className="space-y-2">
+                  <p className="text-xs font-medium uppercase text-muted-foreground">{title}</p>
+                  {items.map((item, i) => (
+                    <div key={`${item.label}-${i}`} className="flex items-start justify-between text-sm">
+                      <div>
+                        <p>{item.label}</p>
+                        {lineItemDetail(item) && (
+                          <p className="text-xs text-muted-foreground">{lineItemDetail(item)}</p>
+                        )}
+                      </div>
+                      <span className={item.amount < 0 ? "text-energy-green" : ""}>{formatAmount(item.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+
+            <Separator />
+            <div className="flex items-center justify-between font-medium">
+              <span>Total</span>
+              <span>{formatAmount(detail.amount)}</span>
+            </div>
+
+            {detail._id && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-medium uppercase text-muted-foreground">Payments</p>
+                  {detail.status !== "paid" && !showPaymentForm && (
+                    <Button size="sm" variant="outline" onClick={openPaymentForm}>
+                      Record Payment
+                    </Button>
+                  )}
+                </div>
+                {payments.length === 0 && !showPaymentForm && (
+                  <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+                )}
+                {payments.map((p) => (
+                  <div key={p._id} className="flex items-center justify-between text-sm">
+                    <div>
+                      <p>{paymentMethods.find((m) => m.value === p.method)?.label || p.method}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(p.paidAt).toLocaleDateString()}
+                        {p.reference && ` · ${p.reference}`}
+                      </p>
+                    </div>
+                    <span>{formatAmount(p.amount)}</span>
+                  </div>
+                ))}
+                {payments.length > 0 && detail.status !== "paid" && (
+                  <div className="flex items-center justify-between text-sm font-medium">
+                    <span>Balance Due</span>
+                    <span>{formatAmount(balance)}</span>
+                  </div>
+                )}
+                {showPaymentForm && (
+                  <div className="space-y-3 rounded-lg border p-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <Label>Amount (₹)</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          max={balance.toFixed(2)}
+                          value={payment.amount}
+                          onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Method</Label>
+                        <Select
+                          value={payment.method}
+                          onValueChange={(value) => setPayment({ ...payment, method: value as PaymentMethod })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {paymentMethods.map((m) => (
+                              <SelectItem key={m.value} value={m.value}>
+                                {m.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Reference</Label>
+                        <Input
+                          value={payment.reference}
+                          onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+                          placeholder="e.g., UPI txn ID"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Date</Label>
+                        <Input
+                          type="date"
+                          max={new Date().toISOString().slice(0, 10)}
+                          value={payment.paidAt}
+                          onChange={(e) => setPayment({ ...payment, paidAt: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={recordPayment} disabled={saving}>
+                        {saving ? "Saving..." : "Save Payment"}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setShowPaymentForm(false)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {deviceBreakdown.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium uppercase text-muted-foreground">Device Attribution</p>
+                {deviceBreakdown.map((d) => (
+                  <div key={d.deviceId} className="flex items-center justify-between text-sm">
+                    <div>
+                      <p>{d.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {d.units.toFixed(1)} kWh · {deviceTotal > 0 ? ((d.units / deviceTotal) * 100).toFixed(0) : 0}%
+                      </p>
+                    </div>
+                    <span>{formatAmount(d.cost)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default BillDetailSheet;
@@ -0,0 +1,150 @@
+import { useState, useEffect } from "react";
+import { Zap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Device } from "@/services/device.service";
+import { scheduleService, Schedule, CheapestRunPlan } from "@/services/schedule.service";
+import { getApiErrorMessage } from "@/services/api";
+import { toast } from "@/hooks/use-toast";
+
+const durations = [
+  { minutes: 30, label: "30 min" },
+  { minutes: 60, label: "1 hr" },
+  { minutes: 90, label: "1.5 hr" },
+  { minutes: 120, label: "2 hr" },
+  { minutes: 180, label: "3 hr" },
+];
+
+// datetime-local value for the next 7 AM, a typical "done by morning" deadline
+const defaultDeadline = () => {
+  const date = new Date();
+  if (date.getHours() >= 7) date.setDate(date.getDate() + 1);
+  date.setHours(7, 0, 0, 0);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" });
+
+interface CheapestRunPanelProps {
+  device: Device;
+  onScheduled: (schedule: Schedule) => void;
+}
+
+const CheapestRunPanel = ({ device, onScheduled }: CheapestRunPanelProps) => {
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [deadline, setDeadline] = useState(defaultDeadline);
+  const [plan, setPlan] = useState<CheapestRunPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // A changed request invalidates the previous plan
+  useEffect(() => {
+    setPlan(null);
+  }, [device, durationMinutes, deadline]);
+
+  const request = () => ({
+    deviceId: device._id,
+    durationMinutes,
+    deadline: new Date(deadline).toISOString(),
+  });
+
+  const findWindow = async () => {
+    setLoading(true);
+    try {
+      setPlan(await scheduleService.previewCheapestRun(request()));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to find a window"),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const schedule = async () => {
+    setLoading(true);
+    try {
+      const result = await scheduleService.scheduleCheapestRun(request());
+      onScheduled(result.schedule);
+      setPlan(null);
+      toast({
+        title: "Success",
+        description:
+          result.plan.saving > 0
+            ? `${device.name} will run at ${formatTime(result.plan.start)}, saving ₹${result.plan.saving.toFixed(2)}`
+            : `${device.name} will run now`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to schedule run"),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Run Cheapest</Label>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Run for</Label>
+          <Select value={String(durationMinutes)} onValueChange={(value) => setDurationMinutes(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {durations.map((d) => (
+                <SelectItem key={d.minutes} value={String(d.minutes)}>
+                  {d.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Finish by</Label>
+          <Input type="datetime-local" value={deadline} onChange={(e) => setDeadline(e.target.value)} />
+        </div>
+      </div>
+
+      {plan && (
+        <div className="rounded-lg border p-3 space-y-1 text-sm">
+          <div className="flex items-center justify-between">
+            <span>
+              {formatTime(plan.start)} – {new Date(plan.end).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+            </span>
+            <span className="font-medium">₹{plan.cost.toFixed(2)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {plan.saving > 0
+              ? `Saves ₹${plan.saving.toFixed(2)} (${plan.savingPercentage.toFixed(0)}%) vs ₹${plan.costNow.toFixed(2)} if run now`
+              : "Running now is already the cheapest option"}
+            {plan.solarUnits > 0 && ` · ${plan.solarUnits.toFixed(1)} kWh from solar`}
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={findWindow} disabled={loading}>
+          Find Cheapest Time
+        </Button>
+        {plan && (
+          <Button size="sm" className="gap-1" onClick={schedule} disabled={loading}>
+            <Zap className="w-3.5 h-3.5" />
+            Schedule Run
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheapestRunPanel;
@@ -0,0 +1,29 @@
+import { Device } from "@/services/device.service";
+
+const connectivityStyles: Record<Device["connectivity"], { dot: string; label: string }> = {
+  online: { dot: "bg-energy-green", label: "Online" },
+  offline: { dot: "bg-energy-red", label: "Offline" },
+  unknown: { dot: "bg-muted-foreground/40", label: "Not seen yet" },
+};
+
+interface ConnectivityBadgeProps {
+  device: Pick<Device, "connectivity" | "lastSeenAt">;
+  showLabel?: boolean;
+}
+
+// Whether a smart device is reporting, with when it was last heard from on hover
+const ConnectivityBadge = ({ device, showLabel = true }: ConnectivityBadgeProps) => {
+  const style = connectivityStyles[device.connectivity] || connectivityStyles.unknown;
+  const title = device.lastSeenAt
+    ? `Last seen ${new Date(device.lastSeenAt).toLocaleString([], { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })}`
+    : "Never reported";
+
+  return (
+    <span className="inline-flex items-center gap-1.5 text-xs text-muted-foreground" title={title}>
+      <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+      {showLabel && style.label}
+    </span>
+  );
+};
+
+export default ConnectivityBadge;
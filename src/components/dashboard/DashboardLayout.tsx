@@ -3,15 +3,18 @@ import { Link, useLocation } from "react-router-dom";
 import { motion } from "framer-motion";
 import {
   Zap, LayoutDashboard, Smartphone, BarChart3, IndianRupee,
-  Leaf, Settings, Menu, X, ChevronLeft, LogOut
+  Leaf, Settings, Menu, X, ChevronLeft, LogOut, Clock, Workflow
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import NotificationBell from "@/components/dashboard/NotificationBell";
 
 const navItems = [
   { icon: LayoutDashboard, label: "Overview", path: "/dashboard" },
   { icon: Smartphone, label: "Devices", path: "/dashboard/devices" },
   { icon: BarChart3, label: "Analytics", path: "/dashboard/analytics" },
   { icon: IndianRupee, label: "Billing", path: "/dashboard/billing" },
+  { icon: Clock, label: "Tariffs", path: "/dashboard/tariffs" },
+  { icon: Workflow, label: "Automations", path: "/dashboard/automations" },
   { icon: Leaf, label: "Sustainability", path: "/dashboard/sustainability" },
   { icon: Settings, label: "Settings", path: "/dashboard/settings" },
 ];
@@ -46,7 +49,8 @@ const DashboardLayout = ({ children }: { children: React.ReactNode }) => {
       </div>
       <nav className="flex-1 p-2 space-y-1">
         {navItems.map((item) => {
-          const active = location.pathname === item.path;
+          const active = location.pathname === item.path
+            || (item.path !== "/dashboard" && location.pathname.startsWith(`${item.path}/`));
           return (
             <Link
               key={item.path}
@@ -96,6 +100,7 @@ const DashboardLayout = ({ children }: { children: React.ReactNode }) => {
           </button>
           <div />
           <div className="flex items-center gap-3">
+            <NotificationBell />
             <span className="text-sm text-muted-foreground hidden sm:block">{user?.email}</span>
             <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center text-primary-foreground text-sm font-medium">
               {user?.user_metadata?.full_name?.[0]?.toUpperCase() || "U"}
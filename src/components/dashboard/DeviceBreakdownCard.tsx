@@ -0,0 +1,119 @@
+import { useState, useEffect } from "react";
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { analyticsService, BreakdownPeriod, DeviceBreakdown } from "@/services/analytics.service";
+import { getApiErrorMessage } from "@/services/api";
+import { toast } from "@/hooks/use-toast";
+
+const COLORS = ["hsl(210, 100%, 50%)", "hsl(25, 95%, 53%)", "hsl(45, 93%, 58%)", "hsl(152, 60%, 42%)", "hsl(280, 65%, 60%)"];
+const UNATTRIBUTED_COLOR = "hsl(220, 10%, 70%)";
+
+const periods: { value: BreakdownPeriod; label: string }[] = [
+  { value: "day", label: "Today" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Billing Month" },
+  { value: "custom", label: "Custom" },
+];
+
+const toDateInput = (date: Date) => date.toLocaleDateString("en-CA");
+
+const DeviceBreakdownCard = () => {
+  const [period, setPeriod] = useState<BreakdownPeriod>("week");
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [data, setData] = useState<DeviceBreakdown | null>(null);
+
+  useEffect(() => {
+    if (period === "custom" && (!from || !to)) return;
+
+    analyticsService
+      .getDeviceBreakdown(period === "custom" ? { period, from, to } : { period })
+      .then(setData)
+      .catch((error) => {
+        toast({
+          title: "Error",
+          description: getApiErrorMessage(error, "Failed to load device breakdown"),
+          variant: "destructive",
+        });
+      });
+  }, [period, from, to]);
+
+  const breakdown = data?.breakdown || [];
+  const colorOf = (index: number) =>
+    breakdown[index].deviceId === null ? UNATTRIBUTED_COLOR : COLORS[index % COLORS.length];
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="space-y-3">
+        <CardTitle className="font-display text-lg">Device Breakdown</CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          {periods.map((p) => (
+            <button
+              key={p.value}
+              onClick={() => setPeriod(p.value)}
+              className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                period === p.value ? "bg-primary text-primary-foreground" : "bg-secondary text-secondary-foreground hover:bg-accent"
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+          {period === "custom" && (
+            <div className="flex items-center gap-1">
+              <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="h-8 w-36 text-xs" />
+              <span className="text-xs text-muted-foreground">–</span>
+              <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="h-8 w-36 text-xs" />
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {breakdown.length ? (
+          <div className="flex items-center gap-6">
+            <ResponsiveContainer width="50%" height={200}>
+              <PieChart>
+                <Pie
+                  data={breakdown}
+                  dataKey="usage"
+                  nameKey="name"
+                  cx="50%"
+                  cy="50%"
+                  innerRadius={50}
+                  outerRadius={80}
+                  paddingAngle={3}
+                >
+                  {breakdown.map((d, index) => (
+                    <Cell key={d.deviceId || "unattributed"} fill={colorOf(index)} />
+                  ))}
+                </Pie>
+                <Tooltip formatter={(value: number) => `${value.toFixed(2)} kWh`} />
+              </PieChart>
+            </ResponsiveContainer>
+            <div className="flex-1 space-y-2">
+              {breakdown.map((d, index) => (
+                <div key={d.deviceId || "unattributed"} className="flex items-center gap-2 text-sm">
+                  <div className="w-3 h-3 rounded-full shrink-0" style={{ background: colorOf(index) }} />
+                  <span className="text-muted-foreground truncate">
+                    {d.name}
+                    {d.estimated && <span className="text-xs"> (est.)</span>}
+                  </span>
+                  <span className="text-xs text-muted-foreground ml-auto">₹{d.cost.toFixed(2)}</span>
+                  <span className="font-medium w-12 text-right">{d.percentage}%</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-xs text-muted-foreground pt-2 border-t">
+                <span>{data?.totalUsage.toFixed(2)} kWh</span>
+                <span>₹{data?.totalCost.toFixed(2)}</span>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-16">No usage recorded in this period</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeviceBreakdownCard;
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Power, PowerOff, SlidersHorizontal, FolderInput, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface DeviceBulkBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  rooms: string[];
+  busy: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onToggle: (status: boolean) => void;
+  onIntensity: (intensity: number) => void;
+  onMove: (room: string) => void;
+  onDelete: () => void;
+}
+
+const DeviceBulkBar = ({
+  selectedCount, visibleCount, rooms, busy, onSelectAll, onClear, onToggle, onIntensity, onMove, onDelete,
+}: DeviceBulkBarProps) => {
+  const [intensity, setIntensity] = useState(50);
+  const [targetRoom, setTargetRoom] = useState("");
+  const disabled = busy || selectedCount === 0;
+
+  return (
+    <div className="glass-card rounded-xl p-3 flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium px-1">{selectedCount} selected</span>
+      <Button variant="ghost" size="sm" onClick={onSelectAll} disabled={busy || selectedCount === visibleCount}>
+        Select all
+      </Button>
+      <div className="flex-1" />
+      <Button variant="outline" size="sm" className="gap-1" disabled={disabled} onClick={() => onToggle(true)}>
+        <Power className="w-3.5 h-3.5" />
+        On
+      </Button>
+      <Button variant="outline" size="sm" className="gap-1" disabled={disabled} onClick={() => onToggle(false)}>
+        <PowerOff className="w-3.5 h-3.5" />
+        Off
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-1" disabled={disabled}>
+            <SlidersHorizontal className="w-3.5 h-3.5" />
+            Intensity
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3">
+          <div className="flex justify-between text-sm">
+            <Label>Intensity</Label>
+            <span>{intensity}%</span>
+          </div>
+          <Slider value={[intensity]} max={100} step={5} onValueChange={([v]) => setIntensity(v)} />
+          <Button size="sm" className="w-full" disabled={disabled} onClick={() => onIntensity(intensity)}>
+            Apply
+          </Button>
+        </PopoverContent>
+      </Popover>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-1" disabled={disabled}>
+            <FolderInput className="w-3.5 h-3.5" />
+            Move
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3">
+          <Label>Move to room</Label>
+          <Input
+            value={targetRoom}
+            onChange={(e) => setTargetRoom(e.target.value)}
+            placeholder="e.g., Bedroom"
+            list="device-bulk-rooms"
+          />
+          <datalist id="device-bulk-rooms">
+            {rooms.filter((r) => r !== "All").map((r) => (
+              <option key={r} value={r} />
+            ))}
+          </datalist>
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={disabled || !targetRoom.trim()}
+            onClick={() => onMove(targetRoom.trim())}
+          >
+            Move
+          </Button>
+        </PopoverContent>
+      </Popover>
+      <Button variant="outline" size="sm" className="gap-1 text-destructive" disabled={disabled} onClick={onDelete}>
+        <Trash2 className="w-3.5 h-3.5" />
+        Delete
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onClear} title="Done">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default DeviceBulkBar;
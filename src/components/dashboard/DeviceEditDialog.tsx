@@ -0,0 +1,178 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { deviceService, Device, UpdateDeviceData } from "@/services/device.service";
+import { getApiErrorMessage } from "@/services/api";
+import { iconMap, deviceTypes } from "@/lib/devices";
+import { toast } from "@/hooks/use-toast";
+
+interface DeviceEditDialogProps {
+  device: Device | null;
+  rooms: string[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: (device: Device) => void;
+}
+
+const DeviceEditDialog = ({ device, rooms, onOpenChange, onSaved }: DeviceEditDialogProps) => {
+  const [form, setForm] = useState<UpdateDeviceData>({});
+  const [saving, setSaving] = useState(false);
+
+  // Start from the device's current values each time the dialog opens
+  useEffect(() => {
+    if (device) {
+      setForm({
+        name: device.name,
+        room: device.room,
+        type: device.type,
+        powerRating: device.powerRating,
+        icon: device.icon,
+        isSmart: device.isSmart,
+        metered: device.metered,
+        offlineAfterMinutes: device.offlineAfterMinutes,
+      });
+    }
+  }, [device]);
+
+  const saveDevice = async () => {
+    if (!device) return;
+    if (!form.name?.trim() || !form.room?.trim() || !form.powerRating) {
+      toast({
+        title: "Error",
+        description: "Please fill all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await deviceService.updateDevice(device._id, {
+        ...form,
+        name: form.name.trim(),
+        room: form.room.trim(),
+      });
+      onSaved(updated);
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: "Device updated successfully",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update device"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!device} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Device</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-4">
+          <div className="space-y-2">
+            <Label>Device Name</Label>
+            <Input value={form.name || ""} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Room</Label>
+            <Input
+              value={form.room || ""}
+              onChange={(e) => setForm({ ...form, room: e.target.value })}
+              list="device-edit-rooms"
+            />
+            <datalist id="device-edit-rooms">
+              {rooms.filter((r) => r !== "All").map((r) => (
+                <option key={r} value={r} />
+              ))}
+            </datalist>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Device Type</Label>
+              <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {deviceTypes.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Power Rating (kW)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={form.powerRating ?? ""}
+                onChange={(e) => setForm({ ...form, powerRating: parseFloat(e.target.value) })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(iconMap).map(([key, Icon]) => (
+                <button
+                  key={key}
+                  onClick={() => setForm({ ...form, icon: key })}
+                  title={key}
+                  className={`p-2 rounded-lg transition-colors ${
+                    form.icon === key ? "bg-primary text-primary-foreground" : "bg-secondary text-muted-foreground hover:bg-accent"
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Smart Device</Label>
+              <p className="text-xs text-muted-foreground">Can be controlled remotely</p>
+            </div>
+            <Switch checked={!!form.isSmart} onCheckedChange={(isSmart) => setForm({ ...form, isSmart })} />
+          </div>
+          {form.isSmart && (
+            <div className="space-y-2">
+              <Label>Offline After (minutes)</Label>
+              <Input
+                type="number"
+                min={1}
+                max={1440}
+                value={form.offlineAfterMinutes || ""}
+                onChange={(e) => setForm({ ...form, offlineAfterMinutes: parseInt(e.target.value) || undefined })}
+              />
+              <p className="text-xs text-muted-foreground">Alert when the device hasn't reported for this long</p>
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Has Its Own Meter</Label>
+              <p className="text-xs text-muted-foreground">Otherwise usage is estimated from runtime and power rating</p>
+            </div>
+            <Switch checked={!!form.metered} onCheckedChange={(metered) => setForm({ ...form, metered })} />
+          </div>
+          <Button onClick={saveDevice} className="w-full" disabled={saving}>
+            Save Changes
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeviceEditDialog;
@@ -0,0 +1,306 @@
+import { useState, useEffect } from "react";
+import { Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import CheapestRunPanel from "@/components/dashboard/CheapestRunPanel";
+import { Device } from "@/services/device.service";
+import { scheduleService, Schedule, ScheduleAction } from "@/services/schedule.service";
+import { toast } from "@/hooks/use-toast";
+
+const dayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Appliances whose runs can be shifted to cheaper hours
+const deferrableTypes = ["WashingMachine", "Heater"];
+
+const timerPresets = [
+  { minutes: 30, label: "30 min" },
+  { minutes: 60, label: "1 hr" },
+  { minutes: 120, label: "2 hr" },
+  { minutes: 240, label: "4 hr" },
+];
+
+const formatNextRun = (schedule: Schedule) =>
+  schedule.nextRunAt
+    ? `${schedule.nextAction === "on" ? "On" : "Off"} ${new Date(schedule.nextRunAt).toLocaleString([], {
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      })}`
+    : null;
+
+const describeDays = (days: number[] = []) => {
+  const sorted = [...days].sort();
+  if (sorted.length === 7) return "Every day";
+  if (sorted.join() === "1,2,3,4,5") return "Weekdays";
+  if (sorted.join() === "0,6") return "Weekends";
+  return sorted.map((d) => dayLabels[d]).join(", ");
+};
+
+const formatClock = (iso?: string) =>
+  iso ? new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "";
+
+const describeSchedule = (schedule: Schedule) => {
+  if (schedule.type === "window") {
+    const saving = schedule.plan?.saving ? ` · saves ₹${schedule.plan.saving.toFixed(2)}` : "";
+    return `Run ${formatClock(schedule.runAt)}–${formatClock(schedule.endAt)}${saving}${schedule.completedAt ? " (done)" : ""}`;
+  }
+  if (schedule.type === "timer") {
+    return `Turn ${schedule.action} at ${formatClock(schedule.runAt)}${schedule.completedAt ? " (done)" : ""}`;
+  }
+  const range = schedule.endTime ? `${schedule.startTime}–${schedule.endTime}` : `from ${schedule.startTime}`;
+  return `${describeDays(schedule.daysOfWeek)} · ${range} · ${schedule.intensity}%`;
+};
+
+interface DeviceScheduleDialogProps {
+  device: Device | null;
+  schedules: Schedule[];
+  onOpenChange: (open: boolean) => void;
+  onSchedulesChange: (update: (prev: Schedule[]) => Schedule[]) => void;
+}
+
+const DeviceScheduleDialog = ({ device, schedules, onOpenChange, onSchedulesChange }: DeviceScheduleDialogProps) => {
+  const [saving, setSaving] = useState(false);
+  const [timerAction, setTimerAction] = useState<ScheduleAction>("off");
+  const [rule, setRule] = useState({
+    daysOfWeek: ["1", "2", "3", "4", "5"],
+    startTime: "18:00",
+    endTime: "22:00",
+    intensity: 100,
+  });
+
+  // Offer the opposite of the device's current state as the timer action
+  useEffect(() => {
+    if (device) setTimerAction(device.status ? "off" : "on");
+  }, [device]);
+
+  const addTimer = async (delayMinutes: number) => {
+    if (!device) return;
+    setSaving(true);
+    try {
+      const created = await scheduleService.createSchedule({
+        deviceId: device._id,
+        type: "timer",
+        action: timerAction,
+        delayMinutes,
+      });
+      onSchedulesChange((prev) => [created, ...prev]);
+      toast({
+        title: "Success",
+        description: `${device.name} will turn ${timerAction} in ${timerPresets.find((p) => p.minutes === delayMinutes)?.label}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to set timer",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addRule = async () => {
+    if (!device) return;
+    if (!rule.daysOfWeek.length || !rule.startTime) {
+      toast({
+        title: "Error",
+        description: "Pick at least one day and a start time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const created = await scheduleService.createSchedule({
+        deviceId: device._id,
+        type: "recurring",
+        daysOfWeek: rule.daysOfWeek.map(Number),
+        startTime: rule.startTime,
+        endTime: rule.endTime || null,
+        intensity: rule.intensity,
+      });
+      onSchedulesChange((prev) => [created, ...prev]);
+      toast({
+        title: "Success",
+        description: "Schedule added",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleSchedule = async (schedule: Schedule) => {
+    try {
+      const updated = await scheduleService.updateSchedule(schedule._id, { isActive: !schedule.isActive });
+      onSchedulesChange((prev) => prev.map((s) => (s._id === updated._id ? updated : s)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteSchedule = async (id: string) => {
+    try {
+      await scheduleService.deleteSchedule(id);
+      onSchedulesChange((prev) => prev.filter((s) => s._id !== id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!device} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedules</DialogTitle>
+          <DialogDescription>{device?.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 pt-2">
+          <div className="space-y-2">
+            <Label>Quick Timer</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={timerAction} onValueChange={(value) => setTimerAction(value as ScheduleAction)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Turn off</SelectItem>
+                  <SelectItem value="on">Turn on</SelectItem>
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">in</span>
+              {timerPresets.map((preset) => (
+                <Button
+                  key={preset.minutes}
+                  size="sm"
+                  variant="outline"
+                  disabled={saving}
+                  onClick={() => addTimer(preset.minutes)}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {device && deferrableTypes.includes(device.type) && (
+            <>
+              <Separator />
+              <CheapestRunPanel
+                device={device}
+                onScheduled={(schedule) => onSchedulesChange((prev) => [schedule, ...prev])}
+              />
+            </>
+          )}
+
+          <Separator />
+
+          <div className="space-y-3">
+            <Label>Recurring Schedule</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              value={rule.daysOfWeek}
+              onValueChange={(value) => setRule({ ...rule, daysOfWeek: value })}
+            >
+              {dayLabels.map((label, i) => (
+                <ToggleGroupItem key={label} value={String(i)} className="px-2 text-xs">
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Turn on at</Label>
+                <Input
+                  type="time"
+                  value={rule.startTime}
+                  onChange={(e) => setRule({ ...rule, startTime: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Turn off at (optional)</Label>
+                <Input
+                  type="time"
+                  value={rule.endTime}
+                  onChange={(e) => setRule({ ...rule, endTime: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Intensity</span>
+                <span>{rule.intensity}%</span>
+              </div>
+              <Slider
+                value={[rule.intensity]}
+                max={100}
+                step={5}
+                onValueChange={([v]) => setRule({ ...rule, intensity: v })}
+              />
+            </div>
+            <Button size="sm" onClick={addRule} disabled={saving}>
+              {saving ? "Saving..." : "Add Schedule"}
+            </Button>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium uppercase text-muted-foreground">Current Schedules</p>
+            {schedules.length === 0 && (
+              <p className="text-sm text-muted-foreground">No schedules for this device yet.</p>
+            )}
+            {schedules.map((schedule) => (
+              <div key={schedule._id} className="flex items-center justify-between gap-3 text-sm">
+                <div className={schedule.isActive ? "" : "opacity-60"}>
+                  <p>{describeSchedule(schedule)}</p>
+                  {formatNextRun(schedule) && (
+                    <p className="text-xs text-muted-foreground">Next: {formatNextRun(schedule)}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {!(schedule.type !== "recurring" && schedule.completedAt) && (
+                    <Switch checked={schedule.isActive} onCheckedChange={() => toggleSchedule(schedule)} />
+                  )}
+                  <button
+                    onClick={() => deleteSchedule(schedule._id)}
+                    className="p-1.5 text-muted-foreground hover:text-destructive transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeviceScheduleDialog;
@@ -0,0 +1,249 @@
+import { useState, useEffect } from "react";
+import { KeyRound, RefreshCw, Trash2, Copy } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ingestKeyService, IngestKey, IngestKeySecret } from "@/services/ingestKey.service";
+import { deviceService, Device } from "@/services/device.service";
+import { getApiErrorMessage } from "@/services/api";
+import { toast } from "@/hooks/use-toast";
+
+// Select value standing for the whole-home meter
+const WHOLE_HOME = "home";
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString([], { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+const IngestKeysCard = () => {
+  const [keys, setKeys] = useState<IngestKey[]>([]);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [name, setName] = useState("");
+  const [target, setTarget] = useState(WHOLE_HOME);
+  const [saving, setSaving] = useState(false);
+  const [secret, setSecret] = useState<IngestKeySecret | null>(null);
+  const [pendingRevoke, setPendingRevoke] = useState<IngestKey | null>(null);
+
+  useEffect(() => {
+    Promise.all([ingestKeyService.getKeys(), deviceService.getDevices()])
+      .then(([keysData, devicesData]) => {
+        setKeys(keysData);
+        setDevices(devicesData);
+      })
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to load API keys",
+          variant: "destructive",
+        });
+      });
+  }, []);
+
+  const deviceName = (deviceId: string | null) => {
+    if (!deviceId) return "Whole-home meter";
+    return devices.find((d) => d._id === deviceId)?.name || "Deleted device";
+  };
+
+  const createKey = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please name the key",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const created = await ingestKeyService.createKey({
+        name: name.trim(),
+        deviceId: target === WHOLE_HOME ? null : target,
+      });
+      setKeys((prev) => [created.ingestKey, ...prev]);
+      setSecret(created);
+      setName("");
+      setTarget(WHOLE_HOME);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to create API key"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rotateKey = async (key: IngestKey) => {
+    try {
+      const rotated = await ingestKeyService.rotateKey(key._id);
+      setKeys((prev) => prev.map((k) => (k._id === key._id ? rotated.ingestKey : k)));
+      setSecret(rotated);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to rotate API key"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revokeKey = async () => {
+    if (!pendingRevoke) return;
+    try {
+      await ingestKeyService.revokeKey(pendingRevoke._id);
+      setKeys((prev) => prev.filter((k) => k._id !== pendingRevoke._id));
+      toast({
+        title: "Success",
+        description: `${pendingRevoke.name} revoked`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to revoke API key"),
+        variant: "destructive",
+      });
+    } finally {
+      setPendingRevoke(null);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!secret) return;
+    try {
+      await navigator.clipboard.writeText(secret.key);
+      toast({
+        title: "Success",
+        description: "Key copied to clipboard",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Copy failed; select the key and copy it manually",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="font-display text-lg">Device API Keys</CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Let meters, smart plugs and gateways send readings. A key can only send readings, for the device it belongs to.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {keys.length ? (
+          <div className="space-y-1">
+            {keys.map((key) => (
+              <div key={key._id} className="flex items-center gap-3 py-2 border-b last:border-0">
+                <div className="p-2 rounded-lg bg-secondary text-muted-foreground shrink-0">
+                  <KeyRound className="w-4 h-4" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">
+                    {key.name} <span className="font-mono text-xs text-muted-foreground">{key.prefix}…</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {deviceName(key.deviceId)} · {key.lastUsedAt ? `Last used ${formatDate(key.lastUsedAt)}` : "Never used"}
+                  </p>
+                </div>
+                <button
+                  onClick={() => rotateKey(key)}
+                  className="p-1.5 text-muted-foreground hover:text-foreground transition-colors"
+                  title="Rotate"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setPendingRevoke(key)}
+                  className="p-1.5 text-muted-foreground hover:text-destructive transition-colors"
+                  title="Revoke"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No API keys yet</p>
+        )}
+
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input value={name} placeholder="e.g. Main meter" onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Sends Readings For</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_HOME}>Whole-home meter</SelectItem>
+                {devices.map((d) => (
+                  <SelectItem key={d._id} value={d._id}>
+                    {d.name} · {d.room}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button size="sm" onClick={createKey} disabled={saving}>
+          {saving ? "Creating..." : "Create Key"}
+        </Button>
+      </CardContent>
+
+      <Dialog open={!!secret} onOpenChange={(open) => !open && setSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{secret?.ingestKey.name}</DialogTitle>
+            <DialogDescription>Copy this key now. It won't be shown again.</DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={secret?.key || ""} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button size="icon" variant="outline" onClick={copySecret} title="Copy">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Send it as the <code>X-Api-Key</code> header to <code>POST /api/ingest/reading</code>, or publish to{" "}
+            <code>urjasync/{secret?.ingestKey._id}/reading</code> over MQTT with the key in the payload.
+          </p>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingRevoke} onOpenChange={(open) => !open && setPendingRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke {pendingRevoke?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anything still using this key will stop being able to send readings. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={revokeKey}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default IngestKeysCard;
@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback } from "react";
+import { Bell, TrendingUp, IndianRupee, WifiOff, FileText, Workflow, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { notificationService, AppNotification } from "@/services/notification.service";
+import { toast } from "@/hooks/use-toast";
+
+// How often the unread count is refreshed while the bell is closed
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const categoryIcons: Record<AppNotification["category"], React.ElementType> = {
+  energyAlerts: TrendingUp,
+  costWarnings: IndianRupee,
+  deviceOffline: WifiOff,
+  weeklyReports: FileText,
+  general: Workflow,
+};
+
+const NotificationBell = () => {
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const data = await notificationService.getNotifications({ limit: 30 });
+      setNotifications(data.notifications);
+      setUnread(data.unread);
+    } catch (error) {
+      // The bell simply keeps its last count; the next poll retries
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    const timer = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadNotifications]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) loadNotifications();
+  };
+
+  const markRead = async (notification: AppNotification) => {
+    if (notification.readAt) return;
+    try {
+      const updated = await notificationService.markRead(notification._id);
+      setNotifications((prev) => prev.map((n) => (n._id === updated._id ? updated : n)));
+      setUnread((prev) => Math.max(0, prev - 1));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to mark notification as read",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      await notificationService.markAllRead();
+      const now = new Date().toISOString();
+      setNotifications((prev) => prev.map((n) => (n.readAt ? n : { ...n, readAt: now })));
+      setUnread(0);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to mark notifications as read",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteNotification = async (notification: AppNotification) => {
+    try {
+      await notificationService.deleteNotification(notification._id);
+      setNotifications((prev) => prev.filter((n) => n._id !== notification._id));
+      if (!notification.readAt) setUnread((prev) => Math.max(0, prev - 1));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete notification",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button className="relative p-2 rounded-lg text-muted-foreground hover:bg-secondary hover:text-foreground" title="Notifications">
+          <Bell className="w-5 h-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-medium flex items-center justify-center">
+              {unread > 99 ? "99+" : unread}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-display font-semibold text-sm">Notifications</p>
+          {unread > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length ? (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = categoryIcons[notification.category] || Bell;
+              return (
+                <div
+                  key={notification._id}
+                  onClick={() => markRead(notification)}
+                  className={`flex items-start gap-3 px-4 py-3 border-b last:border-0 cursor-pointer hover:bg-secondary/50 ${
+                    notification.readAt ? "opacity-60" : ""
+                  }`}
+                >
+                  <div className="p-1.5 rounded-lg bg-secondary text-muted-foreground shrink-0">
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm">{notification.message}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(notification.createdAt).toLocaleString([], { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })}
+                    </p>
+                  </div>
+                  {!notification.readAt && <span className="w-2 h-2 mt-1.5 rounded-full bg-primary shrink-0" />}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteNotification(notification);
+                    }}
+                    className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                    title="Delete"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">You're all caught up</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
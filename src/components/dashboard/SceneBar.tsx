@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { Sparkles, Moon, Sun, Home, Film, Plane, Coffee, Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Device } from "@/services/device.service";
+import { sceneService, Scene, SceneDevice } from "@/services/scene.service";
+import { getApiErrorMessage } from "@/services/api";
+import { toast } from "@/hooks/use-toast";
+
+const sceneIcons: Record<string, React.ElementType> = {
+  Sparkles, Moon, Sun, Home, Film, Plane, Coffee,
+};
+
+interface SceneBarProps {
+  devices: Device[];
+  onActivated: (devices: Device[]) => void;
+}
+
+const SceneBar = ({ devices, onActivated }: SceneBarProps) => {
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [activatingId, setActivatingId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [icon, setIcon] = useState("Sparkles");
+  const [targets, setTargets] = useState<Record<string, SceneDevice>>({});
+
+  useEffect(() => {
+    sceneService.getScenes().then(setScenes).catch(() => {
+      toast({
+        title: "Error",
+        description: "Failed to load scenes",
+        variant: "destructive",
+      });
+    });
+  }, []);
+
+  // New scenes start from the devices' current states
+  const openDialog = () => {
+    setName("");
+    setIcon("Sparkles");
+    setTargets({});
+    setIsDialogOpen(true);
+  };
+
+  const toggleTarget = (device: Device, included: boolean) => {
+    setTargets((prev) => {
+      const next = { ...prev };
+      if (included) {
+        next[device._id] = { deviceId: device._id, status: device.status, intensity: device.intensity };
+      } else {
+        delete next[device._id];
+      }
+      return next;
+    });
+  };
+
+  const activateScene = async (scene: Scene) => {
+    setActivatingId(scene._id);
+    try {
+      const result = await sceneService.activateScene(scene._id);
+      onActivated(result.devices);
+      setScenes((prev) => prev.map((s) => (s._id === result.scene._id ? result.scene : s)));
+      toast({
+        title: "Success",
+        description: result.devices.length
+          ? `${scene.name} activated · ${result.devices.length} device${result.devices.length === 1 ? "" : "s"} changed`
+          : `${scene.name} is already active`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to activate scene"),
+        variant: "destructive",
+      });
+    } finally {
+      setActivatingId(null);
+    }
+  };
+
+  const createScene = async () => {
+    const sceneDevices = Object.values(targets);
+    if (!name.trim() || !sceneDevices.length) {
+      toast({
+        title: "Error",
+        description: "Name the scene and pick at least one device",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const created = await sceneService.createScene({ name: name.trim(), icon, devices: sceneDevices });
+      setScenes((prev) => [...prev, created]);
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: "Scene created",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to create scene"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteScene = async (id: string) => {
+    try {
+      await sceneService.deleteScene(id);
+      setScenes((prev) => prev.filter((s) => s._id !== id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete scene",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {scenes.map((scene) => {
+        const Icon = sceneIcons[scene.icon] || Sparkles;
+        return (
+          <Button
+            key={scene._id}
+            variant="outline"
+            size="sm"
+            className="gap-1.5"
+            disabled={activatingId !== null}
+            onClick={() => activateScene(scene)}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {scene.name}
+          </Button>
+        );
+      })}
+      <Button variant="ghost" size="sm" className="gap-1 text-muted-foreground" onClick={openDialog}>
+        <Plus className="w-3.5 h-3.5" />
+        {scenes.length ? "Scenes" : "Add Scene"}
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Scenes</DialogTitle>
+            <DialogDescription>Save the state of several devices and restore it with one tap.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-5 pt-2">
+            {scenes.length > 0 && (
+              <>
+                <div className="space-y-1">
+                  {scenes.map((scene) => {
+                    const Icon = sceneIcons[scene.icon] || Sparkles;
+                    return (
+                      <div key={scene._id} className="flex items-center justify-between py-1.5">
+                        <div className="flex items-center gap-2">
+                          <Icon className="w-4 h-4 text-muted-foreground" />
+                          <span className="text-sm font-medium">{scene.name}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {scene.devices.length} device{scene.devices.length === 1 ? "" : "s"}
+                          </span>
+                        </div>
+                        <button
+                          onClick={() => deleteScene(scene._id)}
+                          className="p-1.5 text-muted-foreground hover:text-destructive transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+                <Separator />
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label>New Scene</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Night, Away, Movie" />
+              <div className="flex gap-1">
+                {Object.entries(sceneIcons).map(([key, Icon]) => (
+                  <button
+                    key={key}
+                    onClick={() => setIcon(key)}
+                    className={`p-2 rounded-lg transition-colors ${
+                      icon === key ? "bg-primary text-primary-foreground" : "bg-secondary text-muted-foreground hover:bg-accent"
+                    }`}
+                  >
+                    <Icon className="w-4 h-4" />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              {devices.map((device) => {
+                const target = targets[device._id];
+                return (
+                  <div key={device._id} className="flex items-center justify-between py-1.5">
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <Checkbox
+                        checked={!!target}
+                        onCheckedChange={(checked) => toggleTarget(device, checked === true)}
+                      />
+                      <div>
+                        <p className="text-sm font-medium">{device.name}</p>
+                        <p className="text-xs text-muted-foreground">{device.room}</p>
+                      </div>
+                    </label>
+                    {target && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {target.status ? `On · ${target.intensity}%` : "Off"}
+                        <Switch
+                          checked={target.status}
+                          onCheckedChange={(status) =>
+                            setTargets((prev) => ({ ...prev, [device._id]: { ...target, status } }))
+                          }
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <Button onClick={createScene} className="w-full" disabled={saving}>
+              Save Scene
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SceneBar;
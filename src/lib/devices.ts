@@ -0,0 +1,21 @@
+import {
+  Thermometer, Lightbulb, Refrigerator, Tv, Flame, Fan, Wifi, WashingMachine, Power,
+} from "lucide-react";
+
+// Icons a device can be shown with, keyed by the name stored on the device
+export const iconMap: Record<string, React.ElementType> = {
+  Thermometer, Lightbulb, Refrigerator, WashingMachine, Tv, Flame, Fan, Wifi, Power,
+};
+
+// Each type's usual icon, for places that only know a device's type
+export const deviceTypes = [
+  { value: "AC", label: "Air Conditioner", icon: "Thermometer" },
+  { value: "Light", label: "Light", icon: "Lightbulb" },
+  { value: "Fan", label: "Fan", icon: "Fan" },
+  { value: "Refrigerator", label: "Refrigerator", icon: "Refrigerator" },
+  { value: "TV", label: "TV", icon: "Tv" },
+  { value: "Heater", label: "Heater", icon: "Flame" },
+  { value: "WashingMachine", label: "Washing Machine", icon: "WashingMachine" },
+  { value: "Router", label: "Router", icon: "Wifi" },
+  { value: "Other", label: "Other", icon: "Power" },
+];
@@ -39,9 +39,3 @@ export const carbonData = [
   { month: "May", emissions: 98 },
   { month: "Jun", emissions: 87 },
 ];
-
-export const tariffSchedule = [
-  { period: "Off-Peak", time: "10PM - 6AM", rate: 4.0, color: "energy-green" },
-  { period: "Mid-Peak", time: "6AM - 10AM & 6PM - 10PM", rate: 6.0, color: "energy-yellow" },
-  { period: "Peak", time: "10AM - 6PM", rate: 8.5, color: "energy-red" },
-];
@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Billing periods end exclusively, so the last billed day is the one before `end`
+export function formatPeriodRange(start: string, end: string) {
+  const options: Intl.DateTimeFormatOptions = { day: "numeric", month: "short" };
+  const lastDay = new Date(new Date(end).getTime() - 1);
+  return `${new Date(start).toLocaleDateString(undefined, options)} – ${lastDay.toLocaleDateString(undefined, options)}`;
+}
@@ -3,19 +3,18 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
-  BarChart, Bar, LineChart, Line, PieChart, Pie, Cell
+  BarChart, Bar, LineChart, Line
 } from "recharts";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
-import { analyticsService, DeviceBreakdownItem, CarbonData } from "@/services/analytics.service";
+import DeviceBreakdownCard from "@/components/dashboard/DeviceBreakdownCard";
+import ApplianceActivityCard from "@/components/dashboard/ApplianceActivityCard";
+import { analyticsService, CarbonData } from "@/services/analytics.service";
 import { energyService, HourlyData } from "@/services/energy.service";
 import { toast } from "@/hooks/use-toast";
 
-const COLORS = ["hsl(210, 100%, 50%)", "hsl(25, 95%, 53%)", "hsl(45, 93%, 58%)", "hsl(152, 60%, 42%)", "hsl(220, 10%, 50%)"];
-
 const AnalyticsPage = () => {
   const [usageData, setUsageData] = useState<HourlyData[]>([]);
   const [costData, setCostData] = useState<{ time: string; cost: number; usage: number }[]>([]);
-  const [deviceBreakdown, setDeviceBreakdown] = useState<DeviceBreakdownItem[]>([]);
   const [carbonData, setCarbonData] = useState<CarbonData[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -23,16 +22,14 @@ const AnalyticsPage = () => {
     const fetchAnalyticsData = async () => {
       try {
         setLoading(true);
-        const [todayData, costAnalysis, breakdown, carbon] = await Promise.all([
+        const [todayData, costAnalysis, carbon] = await Promise.all([
           energyService.getToday(),
           analyticsService.getCostAnalysis(),
-          analyticsService.getDeviceBreakdown(),
           analyticsService.getCarbonTrend(),
         ]);
 
         setUsageData(todayData.hourlyData);
         setCostData(costAnalysis.hourlyCosts);
-        setDeviceBreakdown(breakdown.breakdown);
         setCarbonData(carbon.carbonData);
       } catch (error) {
         console.error("Error fetching analytics data:", error);
@@ -109,39 +106,7 @@ const AnalyticsPage = () => {
           </motion.div>
 
           <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.15 }}>
-            <Card className="glass-card">
-              <CardHeader><CardTitle className="font-display text-lg">Device Breakdown</CardTitle></CardHeader>
-              <CardContent className="flex items-center gap-6">
-                <ResponsiveContainer width="50%" height={200}>
-                  <PieChart>
-                    <Pie 
-                      data={deviceBreakdown} 
-                      dataKey="usage" 
-                      nameKey="name"
-                      cx="50%" 
-                      cy="50%" 
-                      innerRadius={50} 
-                      outerRadius={80} 
-                      paddingAngle={3}
-                    >
-                      {deviceBreakdown.map((d, index) => (
-                        <Cell key={d.name} fill={COLORS[index % COLORS.length]} />
-                      ))}
-                    </Pie>
-                    <Tooltip />
-                  </PieChart>
-                </ResponsiveContainer>
-                <div className="space-y-2">
-                  {deviceBreakdown.map((d, index) => (
-                    <div key={d.name} className="flex items-center gap-2 text-sm">
-                      <div className="w-3 h-3 rounded-full" style={{ background: COLORS[index % COLORS.length] }} />
-                      <span className="text-muted-foreground">{d.name}</span>
-                      <span className="font-medium ml-auto">{d.percentage}%</span>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
+            <DeviceBreakdownCard />
           </motion.div>
 
           <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
@@ -161,6 +126,10 @@ const AnalyticsPage = () => {
             </Card>
           </motion.div>
         </div>
+
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.25 }}>
+          <ApplianceActivityCard />
+        </motion.div>
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,300 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Workflow, Plus, Play, Trash2, CheckCircle2, AlertTriangle, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import AutomationRuleDialog from "@/components/dashboard/AutomationRuleDialog";
+import { deviceService, Device } from "@/services/device.service";
+import {
+  automationService,
+  AutomationRule,
+  AutomationRun,
+  AutomationTrigger,
+  AutomationCondition,
+  AutomationAction,
+} from "@/services/automation.service";
+import { getApiErrorMessage } from "@/services/api";
+import { toast } from "@/hooks/use-toast";
+
+const dayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const operatorLabels = { gt: "above", gte: "at least", lt: "below", lte: "at most" };
+
+const runStatusIcons = {
+  success: <CheckCircle2 className="w-4 h-4 text-energy-green" />,
+  partial: <AlertTriangle className="w-4 h-4 text-energy-yellow" />,
+  failed: <XCircle className="w-4 h-4 text-energy-red" />,
+};
+
+const describeDays = (days?: number[]) =>
+  !days?.length || days.length === 7 ? "every day" : days.map((d) => dayLabels[d]).join(", ");
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+const AutomationsPage = () => {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+
+  useEffect(() => {
+    fetchAutomations();
+  }, []);
+
+  const fetchAutomations = async () => {
+    try {
+      setLoading(true);
+      const [rulesData, runsData, devicesData] = await Promise.all([
+        automationService.getRules(),
+        automationService.getRuns(),
+        deviceService.getDevices(),
+      ]);
+      setRules(rulesData);
+      setRuns(runsData);
+      setDevices(devicesData);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load automations",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deviceName = (id: string) => devices.find((d) => d._id === id)?.name || "Removed device";
+
+  const describeTrigger = (trigger: AutomationTrigger) => {
+    switch (trigger.type) {
+      case "usage":
+        return `Power usage is ${operatorLabels[trigger.operator || "gt"]} ${trigger.value} kW`;
+      case "solar":
+        return `Solar generation is ${operatorLabels[trigger.operator || "gt"]} ${trigger.value} kW`;
+      case "cost":
+        return `Today's cost is ${operatorLabels[trigger.operator || "gt"]} ₹${trigger.value}`;
+      case "budget":
+        return trigger.value == null
+          ? "Budget reaches the alert threshold"
+          : `Budget used is ${operatorLabels[trigger.operator || "gt"]} ${trigger.value}%`;
+      case "time":
+        return `At ${trigger.time}, ${describeDays(trigger.daysOfWeek)}`;
+      case "device_state":
+        return `${deviceName(trigger.deviceId)} turns ${trigger.state}`;
+    }
+  };
+
+  const describeCondition = (condition: AutomationCondition) => {
+    switch (condition.type) {
+      case "time_window":
+        return `between ${condition.start} and ${condition.end}`;
+      case "days_of_week":
+        return `on ${describeDays(condition.daysOfWeek)}`;
+      case "device_state":
+        return `${deviceName(condition.deviceId)} is ${condition.state}`;
+    }
+  };
+
+  const describeAction = (action: AutomationAction) => {
+    switch (action.type) {
+      case "toggle":
+        return `Turn ${action.status ? "on" : "off"} ${deviceName(action.deviceId)}`;
+      case "intensity":
+        return `Set ${deviceName(action.deviceId)} to ${action.intensity}%`;
+      case "notify":
+        return `Notify: "${action.message}"`;
+    }
+  };
+
+  const toggleRule = async (rule: AutomationRule) => {
+    try {
+      const updated = await automationService.updateRule(rule._id, { isEnabled: !rule.isEnabled });
+      setRules((prev) => prev.map((r) => (r._id === updated._id ? updated : r)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update automation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const runRule = async (rule: AutomationRule) => {
+    try {
+      const result = await automationService.runRule(rule._id);
+      setRules((prev) => prev.map((r) => (r._id === result.rule._id ? result.rule : r)));
+      setRuns((prev) => [result.run, ...prev]);
+      toast({
+        title: result.run.status === "failed" ? "Error" : "Success",
+        description: `${rule.name} ran: ${result.run.results.map((r) => r.message).join(", ")}`,
+        variant: result.run.status === "failed" ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to run automation"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    try {
+      await automationService.deleteRule(id);
+      setRules((prev) => prev.filter((r) => r._id !== id));
+      setRuns((prev) => prev.filter((r) => r.ruleId !== id));
+      toast({
+        title: "Success",
+        description: "Automation deleted successfully",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete automation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-96">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="font-display text-2xl font-bold">Automations</h1>
+            <p className="text-sm text-muted-foreground">
+              {rules.filter((r) => r.isEnabled).length} of {rules.length} rules enabled
+            </p>
+          </div>
+          <Button size="sm" className="gap-2" onClick={() => setIsAddDialogOpen(true)}>
+            <Plus className="w-4 h-4" />
+            New Automation
+          </Button>
+        </div>
+
+        {rules.length === 0 ? (
+          <Card className="glass-card">
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <Workflow className="w-10 h-10 text-muted-foreground mb-3" />
+              <p className="font-medium">No automations yet</p>
+              <p className="text-sm text-muted-foreground">
+                Turn devices off when usage spikes, or get notified when the budget runs low.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-6">
+            {rules.map((rule, i) => (
+              <motion.div key={rule._id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.05 }}>
+                <Card className={`glass-card ${rule.isEnabled ? "" : "opacity-60"}`}>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <div>
+                      <CardTitle className="font-display text-lg">{rule.name}</CardTitle>
+                      <p className="text-xs text-muted-foreground">
+                        {rule.lastTriggeredAt
+                          ? `Ran ${rule.runCount} times · last ${formatDateTime(rule.lastTriggeredAt)}`
+                          : "Never run"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch checked={rule.isEnabled} onCheckedChange={() => toggleRule(rule)} />
+                      <button
+                        onClick={() => runRule(rule)}
+                        title="Run now"
+                        className="p-1.5 text-muted-foreground hover:text-primary transition-colors"
+                      >
+                        <Play className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteRule(rule._id)}
+                        className="p-1.5 text-muted-foreground hover:text-destructive transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-2 text-sm">
+                    <p>
+                      <span className="text-muted-foreground">When </span>
+                      {describeTrigger(rule.trigger)}
+                    </p>
+                    {rule.conditions.length > 0 && (
+                      <p>
+                        <span className="text-muted-foreground">Only if </span>
+                        {rule.conditions.map(describeCondition).join(" and ")}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {rule.actions.map((action, index) => (
+                        <Badge key={index} variant="secondary" className="font-normal">
+                          {describeAction(action)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))}
+          </div>
+        )}
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="font-display text-lg">Run Log</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Automation runs will appear here.</p>
+            ) : (
+              <div className="space-y-1">
+                {runs.map((run) => (
+                  <div key={run._id} className="flex items-start justify-between gap-4 py-2 border-b last:border-0">
+                    <div className="flex items-start gap-3">
+                      {runStatusIcons[run.status]}
+                      <div>
+                        <p className="text-sm font-medium">{run.ruleName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {run.results.map((r) => r.message).join(" · ")}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="text-xs">{formatDateTime(run.createdAt)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {run.triggeredBy === "manual" ? "Run manually" : `Trigger: ${run.triggeredBy.replace("_", " ")}`}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AutomationRuleDialog
+        open={isAddDialogOpen}
+        devices={devices}
+        onOpenChange={setIsAddDialogOpen}
+        onCreated={(rule) => setRules((prev) => [rule, ...prev])}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default AutomationsPage;
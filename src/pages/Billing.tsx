@@ -3,12 +3,17 @@ import { useState, useEffect } from "react";
 import { IndianRupee, TrendingDown, Receipt, Calendar } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import BillDetailSheet from "@/components/dashboard/BillDetailSheet";
 import { billingService, Bill, SavingsData, BudgetStatus } from "@/services/billing.service";
 import { toast } from "@/hooks/use-toast";
+import { formatPeriodRange } from "@/lib/utils";
 
 const BillingPage = () => {
   const [bills, setBills] = useState<Bill[]>([]);
+  const [currentBill, setCurrentBill] = useState<Bill | null>(null);
+  const [selectedBill, setSelectedBill] = useState<Bill | null>(null);
   const [savings, setSavings] = useState<SavingsData | null>(null);
   const [budget, setBudget] = useState<BudgetStatus | null>(null);
   const [loading, setLoading] = useState(true);
@@ -17,12 +22,14 @@ const BillingPage = () => {
     const fetchBillingData = async () => {
       try {
         setLoading(true);
-        const [billsData, savingsData, budgetData] = await Promise.all([
+        const [billsData, currentData, savingsData, budgetData] = await Promise.all([
           billingService.getBillHistory(),
+          billingService.getCurrentBill(),
           billingService.getSavings(),
           billingService.getBudgetStatus(),
         ]);
         setBills(billsData);
+        setCurrentBill(currentData.bill);
         setSavings(savingsData);
         setBudget(budgetData);
       } catch (error) {
@@ -46,13 +53,13 @@ const BillingPage = () => {
           icon: IndianRupee,
           label: "Current Bill",
           value: `₹${parseFloat(budget.spent).toLocaleString()}`,
-          sub: `${budget.daysElapsed} days tracked`,
+          sub: `Day ${budget.daysElapsed} of ${budget.daysInMonth}`,
         },
         {
           icon: TrendingDown,
-          label: "Savings This Month",
+          label: "Savings This Period",
           value: `₹${parseFloat(savings.savings).toLocaleString()}`,
-          sub: savings.isSaving ? "vs last month" : "more than last month",
+          sub: savings.isSaving ? "vs last period" : "more than last period",
         },
         {
           icon: Calendar,
@@ -100,7 +107,12 @@ const BillingPage = () => {
           <CardHeader><CardTitle className="font-display text-lg">Budget Tracker</CardTitle></CardHeader>
           <CardContent className="space-y-4">
             <div className="flex justify-between text-sm">
-              <span>Monthly Budget</span>
+              <span>
+                Monthly Budget
+                {budget?.period && (
+                  <span className="text-muted-foreground"> · {formatPeriodRange(budget.period.start, budget.period.end)}</span>
+                )}
+              </span>
               <span className="font-medium">₹{parseFloat(budget?.spent || "0").toLocaleString()} / ₹{budget?.budget.toLocaleString()}</span>
             </div>
             <Progress value={parseFloat(budget?.percentage || "0")} className="h-3" />
@@ -109,15 +121,45 @@ const BillingPage = () => {
                 ? "⚠️ Budget threshold reached! Consider reducing usage."
                 : `You're on track. Projected monthly: ₹${parseFloat(budget?.projectedMonthly || "0").toLocaleString()}`}
             </p>
+            {parseFloat(budget?.projectedOverspend || "0") > 0 && (
+              <p className="text-xs text-destructive">
+                At this rate you'll go ₹{parseFloat(budget?.projectedOverspend || "0").toLocaleString()} over budget this period
+              </p>
+            )}
           </CardContent>
         </Card>
 
+        {currentBill && (
+          <Card className="glass-card">
+            <CardContent className="p-5 flex items-center justify-between">
+              <div>
+                <p className="text-xs text-muted-foreground">
+                  {currentBill.month} {currentBill.year}
+                  {currentBill.periodStart && currentBill.periodEnd && ` (${formatPeriodRange(currentBill.periodStart, currentBill.periodEnd)})`}
+                  {" "}· so far
+                </p>
+                <p className="font-display text-2xl font-bold">₹{currentBill.amount.toLocaleString()}</p>
+                <p className="text-xs text-muted-foreground">
+                  {currentBill.unitsConsumed.toFixed(1)} kWh · {currentBill.lineItems?.length || 0} line items
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setSelectedBill(currentBill)}>
+                View Breakdown
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="glass-card">
           <CardHeader><CardTitle className="font-display text-lg">Billing History</CardTitle></CardHeader>
           <CardContent>
             <div className="space-y-3">
               {bills.map((b) => (
-                <div key={`${b.month}-${b.year}`} className="flex items-center justify-between py-3 border-b last:border-0">
+                <button
+                  key={`${b.month}-${b.year}`}
+                  onClick={() => setSelectedBill(b)}
+                  className="w-full flex items-center justify-between py-3 border-b last:border-0 text-left hover:bg-secondary/50 transition-colors"
+                >
                   <div className="flex items-center gap-3">
                     <Receipt className="w-4 h-4 text-muted-foreground" />
                     <span className="text-sm">{b.month} {b.year}</span>
@@ -134,12 +176,18 @@ const BillingPage = () => {
                       {b.status === "paid" ? "Paid" : b.status === "overdue" ? "Overdue" : "Pending"}
                     </span>
                   </div>
-                </div>
+                </button>
               ))}
             </div>
           </CardContent>
         </Card>
       </div>
+
+      <BillDetailSheet
+        bill={selectedBill}
+        onOpenChange={(open) => !open && setSelectedBill(null)}
+        onBillUpdated={(updated) => setBills((prev) => prev.map((b) => (b._id === updated._id ? updated : b)))}
+      />
     </DashboardLayout>
   );
 };
@@ -1,7 +1,6 @@
 import { motion } from "framer-motion";
 import {
-  Zap, TrendingDown, IndianRupee, Leaf, Thermometer, Lightbulb,
-  ArrowUpRight, ArrowDownRight, Refrigerator, Tv, Flame, Fan, Wifi, Power
+  Zap, TrendingDown, IndianRupee, Leaf, ArrowUpRight, ArrowDownRight, Power
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
@@ -11,24 +10,26 @@ import {
   BarChart, Bar
 } from "recharts";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import SceneBar from "@/components/dashboard/SceneBar";
+import AlertsInbox from "@/components/dashboard/AlertsInbox";
+import ConnectivityBadge from "@/components/dashboard/ConnectivityBadge";
 import { useState, useEffect } from "react";
 import { analyticsService, DashboardStats } from "@/services/analytics.service";
 import { energyService, HourlyData, WeeklyData } from "@/services/energy.service";
 import { deviceService, Device } from "@/services/device.service";
 import { billingService } from "@/services/billing.service";
+import { alertService, UsageAlert } from "@/services/alert.service";
 import { socketService } from "@/services/socket.service";
+import { iconMap } from "@/lib/devices";
 import { toast } from "@/hooks/use-toast";
 
-const iconMap: Record<string, React.ElementType> = {
-  Thermometer, Lightbulb, Refrigerator, Tv, Flame, Fan, Wifi,
-};
-
 const DashboardPage = () => {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [hourlyData, setHourlyData] = useState<HourlyData[]>([]);
   const [weeklyData, setWeeklyData] = useState<WeeklyData[]>([]);
   const [devices, setDevices] = useState<Device[]>([]);
   const [budgetPercentage, setBudgetPercentage] = useState(0);
+  const [alerts, setAlerts] = useState<UsageAlert[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Fetch all dashboard data
@@ -64,6 +65,17 @@ const DashboardPage = () => {
     fetchDashboardData();
   }, []);
 
+  // Alerts load on their own so a failure doesn't hold up the dashboard
+  useEffect(() => {
+    alertService.getAlerts({ limit: 20 }).then((data) => setAlerts(data.alerts)).catch(() => {
+      toast({
+        title: "Error",
+        description: "Failed to load alerts",
+        variant: "destructive",
+      });
+    });
+  }, []);
+
   // Connect to WebSocket for real-time updates
   useEffect(() => {
     socketService.connect();
@@ -90,13 +102,39 @@ const DashboardPage = () => {
       );
     });
 
+    socketService.onDeviceConnectivity((data) => {
+      setDevices((prev) =>
+        prev.map((d) =>
+          d._id === data.deviceId
+            ? { ...d, connectivity: data.connectivity, lastSeenAt: data.lastSeenAt }
+            : d
+        )
+      );
+    });
+
+    socketService.onAlert((data) => {
+      toast({
+        title: data.alert?.severity === "critical" ? "Usage alert" : "Heads up",
+        description: data.message,
+        variant: data.alert?.severity === "critical" ? "destructive" : "default",
+      });
+      const { alert } = data;
+      if (alert) setAlerts((prev) => [alert, ...prev.filter((a) => a._id !== alert._id)]);
+    });
+
     return () => {
       socketService.unsubscribeEnergy();
       socketService.offEnergyUpdate();
       socketService.offDeviceStatus();
+      socketService.offDeviceConnectivity();
+      socketService.offAlert();
     };
   }, []);
 
+  const applySceneDevices = (changed: Device[]) => {
+    setDevices((prev) => prev.map((d) => changed.find((c) => c._id === d._id) || d));
+  };
+
   const toggleDevice = async (id: string) => {
     const device = devices.find((d) => d._id === id);
     if (!device) return;
@@ -234,6 +272,7 @@ const DashboardPage = () => {
               <p className="text-xs text-muted-foreground">{activeDevices.length} active · {totalPower.toFixed(2)} kW</p>
             </CardHeader>
             <CardContent className="space-y-3">
+              <SceneBar devices={devices} onActivated={applySceneDevices} />
               {devices.slice(0, 5).map((d) => {
                 const Icon = iconMap[d.icon] || Power;
                 return (
@@ -243,7 +282,10 @@ const DashboardPage = () => {
                         <Icon className="w-4 h-4" />
                       </div>
                       <div>
-                        <p className="text-sm font-medium">{d.name}</p>
+                        <p className="text-sm font-medium flex items-center gap-1.5">
+                          {d.name}
+                          {d.isSmart && <ConnectivityBadge device={d} showLabel={false} />}
+                        </p>
                         <p className="text-xs text-muted-foreground">{d.room}</p>
                       </div>
                     </div>
@@ -304,6 +346,9 @@ const DashboardPage = () => {
             </CardContent>
           </Card>
         </div>
+
+        {/* Alerts */}
+        <AlertsInbox alerts={alerts} onChange={setAlerts} />
       </div>
     </DashboardLayout>
   );
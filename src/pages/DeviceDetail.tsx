@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { ArrowLeft, Zap, IndianRupee, Clock, Calendar } from "lucide-react";
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import ConnectivityBadge from "@/components/dashboard/ConnectivityBadge";
+import { deviceService, Device, DeviceStats } from "@/services/device.service";
+import { energyService, EnergyReading } from "@/services/energy.service";
+import { getApiErrorMessage } from "@/services/api";
+import { iconMap } from "@/lib/devices";
+import { toast } from "@/hooks/use-toast";
+
+const ranges = [
+  { label: "Today", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+];
+
+// Readings summed per hour for a single day, per day for longer ranges
+const bucketReadings = (readings: EnergyReading[], days: number) => {
+  const buckets = new Map<string, { time: string; usage: number; cost: number }>();
+  [...readings].reverse().forEach((r) => {
+    const date = new Date(r.timestamp);
+    const time = days === 1
+      ? date.toLocaleTimeString([], { hour: "2-digit" })
+      : date.toLocaleDateString([], { day: "numeric", month: "short" });
+    const bucket = buckets.get(time) || { time, usage: 0, cost: 0 };
+    bucket.usage = Number((bucket.usage + r.usage).toFixed(3));
+    bucket.cost = Number((bucket.cost + r.cost).toFixed(2));
+    buckets.set(time, bucket);
+  });
+  return [...buckets.values()];
+};
+
+const formatSpan = (start: string, end: string, days: number) => {
+  const options: Intl.DateTimeFormatOptions = days === 1
+    ? { hour: "2-digit", minute: "2-digit" }
+    : { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" };
+  return `${new Date(start).toLocaleString([], options)} – ${new Date(end).toLocaleString([], options)}`;
+};
+
+const DeviceDetailPage = () => {
+  const { id = "" } = useParams();
+  const [device, setDevice] = useState<Device | null>(null);
+  const [stats, setStats] = useState<DeviceStats | null>(null);
+  const [readings, setReadings] = useState<EnergyReading[]>([]);
+  const [days, setDays] = useState(7);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    deviceService.getDevice(id)
+      .then(setDevice)
+      .catch((error) => {
+        toast({
+          title: "Error",
+          description: getApiErrorMessage(error, "Failed to load device"),
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      try {
+        // The stats define the range so the chart covers the same local days
+        const deviceStats = await deviceService.getDeviceStats(id, days);
+        setStats(deviceStats);
+        setReadings(await energyService.getRange(deviceStats.from, deviceStats.to, id));
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: getApiErrorMessage(error, "Failed to load device usage"),
+          variant: "destructive",
+        });
+      }
+    };
+
+    fetchUsage();
+  }, [id, days]);
+
+  const toggleDevice = async (status: boolean) => {
+    if (!device) return;
+    try {
+      setDevice(await deviceService.toggleDevice(device._id, status));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to control device",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-96">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!device) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-24 space-y-2">
+          <p className="text-muted-foreground">This device doesn't exist or has been deleted.</p>
+          <Link to="/dashboard/devices" className="text-sm text-primary hover:underline">Back to devices</Link>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const Icon = iconMap[device.icon] || Zap;
+  const chartData = bucketReadings(readings, days);
+  const rangeMs = stats ? new Date(stats.to).getTime() - new Date(stats.from).getTime() : 0;
+
+  const statCards = stats
+    ? [
+        { icon: Zap, label: "Energy Used", value: `${stats.totalUsage.toFixed(2)} kWh`, sub: `${stats.avgDailyUsage.toFixed(2)} kWh per day` },
+        { icon: IndianRupee, label: "Cost", value: `₹${stats.totalCost.toFixed(2)}`, sub: `₹${stats.avgDailyCost.toFixed(2)} per day` },
+        { icon: Clock, label: "On-Hours", value: `${stats.onHours} h`, sub: `${(stats.onHours / stats.days).toFixed(1)} h per day` },
+        {
+          icon: Calendar,
+          label: "Last Used",
+          value: device.lastUsed ? new Date(device.lastUsed).toLocaleDateString([], { day: "numeric", month: "short" }) : "Never",
+          sub: device.lastUsed ? new Date(device.lastUsed).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "",
+        },
+      ]
+    : [];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <Link to="/dashboard/devices" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Devices
+          </Link>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className={`p-2.5 rounded-xl ${device.status ? "bg-primary/10 text-primary" : "bg-secondary text-muted-foreground"}`}>
+                <Icon className="w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="font-display text-2xl font-bold">{device.name}</h1>
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  {device.room} · {device.powerRating} kW
+                  {device.isSmart && <ConnectivityBadge device={device} />}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Badge variant={device.status ? "default" : "secondary"}>
+                {device.status ? `Active · ${device.intensity}%` : "Off"}
+              </Badge>
+              <Switch checked={device.status} onCheckedChange={toggleDevice} />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {ranges.map((r) => (
+            <button
+              key={r.days}
+              onClick={() => setDays(r.days)}
+              className={`px-4 py-1.5 rounded-full text-sm transition-colors ${
+                days === r.days ? "bg-primary text-primary-foreground" : "bg-secondary text-secondary-foreground hover:bg-accent"
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {statCards.map((s, i) => (
+            <motion.div key={s.label} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.05 }}>
+              <Card className="glass-card">
+                <CardContent className="p-5">
+                  <s.icon className="w-5 h-5 text-primary mb-3" />
+                  <p className="font-display text-2xl font-bold">{s.value}</p>
+                  <p className="text-xs text-muted-foreground mt-1">{s.label}</p>
+                  <p className="text-xs text-muted-foreground">{s.sub}</p>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+
+        <Card className="glass-card">
+          <CardHeader><CardTitle className="font-display text-lg">Consumption</CardTitle></CardHeader>
+          <CardContent>
+            {chartData.length ? (
+              <ResponsiveContainer width="100%" height={250}>
+                <AreaChart data={chartData}>
+                  <defs>
+                    <linearGradient id="deviceUsage" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="hsl(152,60%,42%)" stopOpacity={0.3} />
+                      <stop offset="95%" stopColor="hsl(152,60%,42%)" stopOpacity={0} />
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(220,13%,91%)" />
+                  <XAxis dataKey="time" tick={{ fontSize: 11 }} stroke="hsl(220,10%,50%)" />
+                  <YAxis tick={{ fontSize: 11 }} stroke="hsl(220,10%,50%)" />
+                  <Tooltip />
+                  <Area type="monotone" dataKey="usage" stroke="hsl(152,60%,42%)" fill="url(#deviceUsage)" strokeWidth={2} />
+                </AreaChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-16">No readings for this device in this range</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {stats && (
+          <Card className="glass-card">
+            <CardHeader><CardTitle className="font-display text-lg">On/Off Timeline</CardTitle></CardHeader>
+            <CardContent className="space-y-2">
+              <div className="flex h-6 rounded-md overflow-hidden bg-secondary">
+                {stats.timeline.map((span) => (
+                  <div
+                    key={span.start}
+                    title={`${span.status ? "On" : "Off"} · ${formatSpan(span.start, span.end, days)}`}
+                    className={span.status ? "bg-primary" : "bg-secondary"}
+                    style={{ width: `${((new Date(span.end).getTime() - new Date(span.start).getTime()) / rangeMs) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{new Date(stats.from).toLocaleString([], { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })}</span>
+                <span>Now</span>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default DeviceDetailPage;
@@ -1,38 +1,42 @@
 import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { motion } from "framer-motion";
-import {
-  Thermometer, Lightbulb, Refrigerator, Tv, Flame, Fan, Wifi, WashingMachine,
-  Power, Plus, Trash2
-} from "lucide-react";
+import { Power, PowerOff, Plus, Trash2, CalendarClock, ListChecks, Pencil } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ToastAction } from "@/components/ui/toast";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
-import { deviceService, Device, CreateDeviceData } from "@/services/device.service";
+import DeviceScheduleDialog from "@/components/dashboard/DeviceScheduleDialog";
+import SceneBar from "@/components/dashboard/SceneBar";
+import DeviceBulkBar from "@/components/dashboard/DeviceBulkBar";
+import DeviceEditDialog from "@/components/dashboard/DeviceEditDialog";
+import ConnectivityBadge from "@/components/dashboard/ConnectivityBadge";
+import { deviceService, Device, CreateDeviceData, BulkTarget, BulkResult } from "@/services/device.service";
+import { scheduleService, Schedule } from "@/services/schedule.service";
 import { socketService } from "@/services/socket.service";
+import { getApiErrorMessage } from "@/services/api";
+import { iconMap, deviceTypes } from "@/lib/devices";
 import { toast } from "@/hooks/use-toast";
 
-const iconMap: Record<string, React.ElementType> = {
-  Thermometer, Lightbulb, Refrigerator, WashingMachine, Tv, Flame, Fan, Wifi,
-};
+const deviceCount = (count: number) => `${count} device${count === 1 ? "" : "s"}`;
 
-const deviceTypes = [
-  { value: "AC", label: "Air Conditioner" },
-  { value: "Light", label: "Light" },
-  { value: "Fan", label: "Fan" },
-  { value: "Refrigerator", label: "Refrigerator" },
-  { value: "TV", label: "TV" },
-  { value: "Heater", label: "Heater" },
-  { value: "WashingMachine", label: "Washing Machine" },
-  { value: "Router", label: "Router" },
-  { value: "Other", label: "Other" },
-];
+const describeFailures = (result: BulkResult) =>
+  result.results
+    .filter((r) => !r.success)
+    .map((r) => `${r.name || "Unknown device"} (${r.message})`)
+    .join(", ");
 
 const DevicesPage = () => {
   const [devices, setDevices] = useState<Device[]>([]);
@@ -40,6 +44,13 @@ const DevicesPage = () => {
   const [selectedRoom, setSelectedRoom] = useState("All");
   const [loading, setLoading] = useState(true);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [scheduleDevice, setScheduleDevice] = useState<Device | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [editDevice, setEditDevice] = useState<Device | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Device[] | null>(null);
   const [newDevice, setNewDevice] = useState<Partial<CreateDeviceData>>({
     name: "",
     room: "",
@@ -55,12 +66,14 @@ const DevicesPage = () => {
   const fetchDevices = async () => {
     try {
       setLoading(true);
-      const [devicesData, roomsData] = await Promise.all([
+      const [devicesData, roomsData, schedulesData] = await Promise.all([
         deviceService.getDevices(),
         deviceService.getRooms(),
+        scheduleService.getSchedules(),
       ]);
       setDevices(devicesData);
       setRooms(roomsData);
+      setSchedules(schedulesData);
     } catch (error) {
       toast({
         title: "Error",
@@ -84,11 +97,26 @@ const DevicesPage = () => {
       );
     });
 
+    socketService.onDeviceConnectivity((data) => {
+      setDevices((prev) =>
+        prev.map((d) =>
+          d._id === data.deviceId
+            ? { ...d, connectivity: data.connectivity, lastSeenAt: data.lastSeenAt }
+            : d
+        )
+      );
+    });
+
     return () => {
       socketService.offDeviceStatus();
+      socketService.offDeviceConnectivity();
     };
   }, []);
 
+  const applySceneDevices = (changed: Device[]) => {
+    setDevices((prev) => prev.map((d) => changed.find((c) => c._id === d._id) || d));
+  };
+
   const toggleDevice = async (id: string) => {
     const device = devices.find((d) => d._id === id);
     if (!device) return;
@@ -126,13 +154,58 @@ const DevicesPage = () => {
     }
   };
 
-  const deleteDevice = async (id: string) => {
+  // Deleted devices are kept on the server for a while, so they can be
+  // put back from the toast
+  const restoreDevices = async (removed: Device[]) => {
+    try {
+      let restored = removed;
+      if (removed.length === 1) {
+        restored = [await deviceService.restoreDevice(removed[0]._id)];
+      } else {
+        const result = await deviceService.bulkRestore(removed.map((d) => d._id));
+        const ids = new Set(result.results.filter((r) => r.success).map((r) => r.deviceId));
+        restored = removed.filter((d) => ids.has(d._id));
+        if (result.failed) {
+          toast({
+            title: "Error",
+            description: `${deviceCount(restored.length)} restored; ${result.failed} failed: ${describeFailures(result)}`,
+            variant: "destructive",
+          });
+        }
+      }
+      setDevices((prev) => [...prev, ...restored]);
+      refreshRooms();
+      if (restored.length === removed.length) {
+        toast({
+          title: "Success",
+          description: `${deviceCount(restored.length)} restored`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to restore device"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const undoAction = (removed: Device[]) => (
+    <ToastAction altText="Undo delete" onClick={() => restoreDevices(removed)}>
+      Undo
+    </ToastAction>
+  );
+
+  const deleteDevice = async (device: Device) => {
     try {
-      await deviceService.deleteDevice(id);
-      setDevices((prev) => prev.filter((d) => d._id !== id));
+      await deviceService.deleteDevice(device._id);
+      setDevices((prev) => prev.filter((d) => d._id !== device._id));
+      setSelectedIds((prev) => prev.filter((id) => id !== device._id));
+      refreshRooms();
       toast({
         title: "Success",
-        description: "Device deleted successfully",
+        description: `${device.name} deleted`,
+        action: undoAction([device]),
       });
     } catch (error) {
       toast({
@@ -143,6 +216,106 @@ const DevicesPage = () => {
     }
   };
 
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((prev) => (selected ? [...prev, id] : prev.filter((s) => s !== id)));
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const refreshRooms = async () => {
+    try {
+      setRooms(await deviceService.getRooms());
+    } catch (error) {
+      // Room chips catch up on the next full load
+    }
+  };
+
+  // Run a bulk operation, apply it locally to the devices that succeeded and
+  // list any that failed
+  const runBulk = async (
+    operation: () => Promise<BulkResult>,
+    onSucceeded: (ids: Set<string>) => void,
+    describe: (count: number) => string,
+    undo?: (ids: Set<string>) => React.ReactElement<typeof ToastAction>
+  ) => {
+    setBulkBusy(true);
+    try {
+      const result = await operation();
+      const succeededIds = new Set(result.results.filter((r) => r.success).map((r) => r.deviceId));
+      onSucceeded(succeededIds);
+      const action = undo && succeededIds.size ? undo(succeededIds) : undefined;
+
+      if (result.failed) {
+        toast({
+          title: "Error",
+          description: `${describe(result.succeeded)}; ${result.failed} failed: ${describeFailures(result)}`,
+          variant: "destructive",
+          action,
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: describe(result.succeeded),
+          action,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update devices"),
+        variant: "destructive",
+      });
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const bulkToggle = (target: BulkTarget, status: boolean) =>
+    runBulk(
+      () => deviceService.bulkToggle(target, status),
+      (ids) => setDevices((prev) => prev.map((d) => (ids.has(d._id) ? { ...d, status } : d))),
+      (count) => `${deviceCount(count)} turned ${status ? "on" : "off"}`
+    );
+
+  const bulkSetIntensity = (intensity: number) =>
+    runBulk(
+      () => deviceService.bulkSetIntensity({ ids: selectedIds }, intensity),
+      (ids) => setDevices((prev) => prev.map((d) => (ids.has(d._id) ? { ...d, intensity } : d))),
+      (count) => `Intensity set to ${intensity}% on ${deviceCount(count)}`
+    );
+
+  const bulkMove = (room: string) =>
+    runBulk(
+      () => deviceService.bulkMove({ ids: selectedIds }, room),
+      (ids) => {
+        setDevices((prev) => prev.map((d) => (ids.has(d._id) ? { ...d, room } : d)));
+        refreshRooms();
+      },
+      (count) => `${deviceCount(count)} moved to ${room}`
+    );
+
+  const bulkDelete = (targets: Device[]) =>
+    runBulk(
+      () => deviceService.bulkDelete({ ids: targets.map((d) => d._id) }),
+      (ids) => {
+        setDevices((prev) => prev.filter((d) => !ids.has(d._id)));
+        setSelectedIds((prev) => prev.filter((id) => !ids.has(id)));
+        refreshRooms();
+      },
+      (count) => `${deviceCount(count)} deleted`,
+      (ids) => undoAction(targets.filter((d) => ids.has(d._id)))
+    );
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    if (pendingDelete.length === 1) deleteDevice(pendingDelete[0]);
+    else bulkDelete(pendingDelete);
+    setPendingDelete(null);
+  };
+
   const addDevice = async () => {
     if (!newDevice.name || !newDevice.room || !newDevice.powerRating) {
       toast({
@@ -192,71 +365,84 @@ const DevicesPage = () => {
             <h1 className="font-display text-2xl font-bold">Devices</h1>
             <p className="text-sm text-muted-foreground">{activeCount} active devices</p>
           </div>
-          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="sm" className="gap-2">
-                <Plus className="w-4 h-4" />
-                Add Device
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Add New Device</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4 pt-4">
-                <div className="space-y-2">
-                  <Label>Device Name</Label>
-                  <Input
-                    value={newDevice.name}
-                    onChange={(e) => setNewDevice({ ...newDevice, name: e.target.value })}
-                    placeholder="e.g., Living Room AC"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label>Room</Label>
-                  <Input
-                    value={newDevice.room}
-                    onChange={(e) => setNewDevice({ ...newDevice, room: e.target.value })}
-                    placeholder="e.g., Living Room"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label>Device Type</Label>
-                  <Select
-                    value={newDevice.type}
-                    onValueChange={(value) => setNewDevice({ ...newDevice, type: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {deviceTypes.map((type) => (
-                        <SelectItem key={type.value} value={type.value}>
-                          {type.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label>Power Rating (kW)</Label>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    value={newDevice.powerRating}
-                    onChange={(e) => setNewDevice({ ...newDevice, powerRating: parseFloat(e.target.value) })}
-                    placeholder="e.g., 1.5"
-                  />
-                </div>
-                <Button onClick={addDevice} className="w-full">
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant={selecting ? "secondary" : "outline"}
+              className="gap-2"
+              onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+            >
+              <ListChecks className="w-4 h-4" />
+              Select
+            </Button>
+            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" className="gap-2">
+                  <Plus className="w-4 h-4" />
                   Add Device
                 </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add New Device</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 pt-4">
+                  <div className="space-y-2">
+                    <Label>Device Name</Label>
+                    <Input
+                      value={newDevice.name}
+                      onChange={(e) => setNewDevice({ ...newDevice, name: e.target.value })}
+                      placeholder="e.g., Living Room AC"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Room</Label>
+                    <Input
+                      value={newDevice.room}
+                      onChange={(e) => setNewDevice({ ...newDevice, room: e.target.value })}
+                      placeholder="e.g., Living Room"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Device Type</Label>
+                    <Select
+                      value={newDevice.type}
+                      onValueChange={(value) => setNewDevice({ ...newDevice, type: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {deviceTypes.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Power Rating (kW)</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={newDevice.powerRating}
+                      onChange={(e) => setNewDevice({ ...newDevice, powerRating: parseFloat(e.target.value) })}
+                      placeholder="e.g., 1.5"
+                    />
+                  </div>
+                  <Button onClick={addDevice} className="w-full">
+                    Add Device
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
-        <div className="flex gap-2 flex-wrap">
+        <SceneBar devices={devices} onActivated={applySceneDevices} />
+
+        <div className="flex gap-2 flex-wrap items-center">
           {rooms.map((r) => (
             <button
               key={r}
@@ -268,11 +454,51 @@ const DevicesPage = () => {
               {r}
             </button>
           ))}
+          {selectedRoom !== "All" && (
+            <div className="flex gap-2 ml-auto">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                disabled={bulkBusy}
+                onClick={() => bulkToggle({ room: selectedRoom }, true)}
+              >
+                <Power className="w-3.5 h-3.5" />
+                Room On
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                disabled={bulkBusy}
+                onClick={() => bulkToggle({ room: selectedRoom }, false)}
+              >
+                <PowerOff className="w-3.5 h-3.5" />
+                Room Off
+              </Button>
+            </div>
+          )}
         </div>
 
+        {selecting && (
+          <DeviceBulkBar
+            selectedCount={selectedIds.length}
+            visibleCount={filtered.length}
+            rooms={rooms}
+            busy={bulkBusy}
+            onSelectAll={() => setSelectedIds(filtered.map((d) => d._id))}
+            onClear={stopSelecting}
+            onToggle={(status) => bulkToggle({ ids: selectedIds }, status)}
+            onIntensity={bulkSetIntensity}
+            onMove={bulkMove}
+            onDelete={() => setPendingDelete(devices.filter((d) => selectedIds.includes(d._id)))}
+          />
+        )}
+
         <div className="grid sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
           {filtered.map((d, i) => {
             const Icon = iconMap[d.icon] || Power;
+            const hasSchedules = schedules.some((s) => s.deviceId === d._id && s.isActive);
             return (
               <motion.div
                 key={d._id}
@@ -280,16 +506,42 @@ const DevicesPage = () => {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: i * 0.03 }}
               >
-                <Card className={`glass-card transition-all ${d.status ? "energy-glow" : "opacity-70"}`}>
+                <Card
+                  className={`glass-card transition-all ${d.status ? "energy-glow" : "opacity-70"} ${
+                    selectedIds.includes(d._id) ? "ring-2 ring-primary" : ""
+                  }`}
+                >
                   <CardContent className="p-5 space-y-4">
                     <div className="flex items-center justify-between">
-                      <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${d.status ? "bg-accent text-accent-foreground" : "bg-secondary text-muted-foreground"}`}>
-                        <Icon className="w-5 h-5" />
+                      <div className="flex items-center gap-3">
+                        {selecting && (
+                          <Checkbox
+                            checked={selectedIds.includes(d._id)}
+                            onCheckedChange={(checked) => toggleSelected(d._id, checked === true)}
+                          />
+                        )}
+                        <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${d.status ? "bg-accent text-accent-foreground" : "bg-secondary text-muted-foreground"}`}>
+                          <Icon className="w-5 h-5" />
+                        </div>
                       </div>
                       <div className="flex items-center gap-2">
                         <Switch checked={d.status} onCheckedChange={() => toggleDevice(d._id)} />
                         <button
-                          onClick={() => deleteDevice(d._id)}
+                          onClick={() => setScheduleDevice(d)}
+                          className={`p-1.5 transition-colors ${hasSchedules ? "text-primary" : "text-muted-foreground hover:text-foreground"}`}
+                          title="Schedules"
+                        >
+                          <CalendarClock className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setEditDevice(d)}
+                          className="p-1.5 text-muted-foreground hover:text-foreground transition-colors"
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setPendingDelete([d])}
                           className="p-1.5 text-muted-foreground hover:text-destructive transition-colors"
                         >
                           <Trash2 className="w-4 h-4" />
@@ -297,8 +549,13 @@ const DevicesPage = () => {
                       </div>
                     </div>
                     <div>
-                      <h3 className="font-medium">{d.name}</h3>
-                      <p className="text-xs text-muted-foreground">{d.room}</p>
+                      <Link to={`/dashboard/devices/${d._id}`} className="font-medium hover:text-primary hover:underline">
+                        {d.name}
+                      </Link>
+                      <div className="flex items-center justify-between">
+                        <p className="text-xs text-muted-foreground">{d.room}</p>
+                        {d.isSmart && <ConnectivityBadge device={d} />}
+                      </div>
                     </div>
                     <div className="flex items-center justify-between">
                       <Badge variant={d.status ? "default" : "secondary"} className="text-xs">
@@ -327,6 +584,45 @@ const DevicesPage = () => {
           })}
         </div>
       </div>
+
+      <DeviceEditDialog
+        device={editDevice}
+        rooms={rooms}
+        onOpenChange={(open) => !open && setEditDevice(null)}
+        onSaved={(updated) => {
+          setDevices((prev) => prev.map((d) => (d._id === updated._id ? updated : d)));
+          refreshRooms();
+        }}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {pendingDelete?.length === 1 ? pendingDelete[0].name : deviceCount(pendingDelete?.length || 0)}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Deleted devices stop running their schedules and scenes. You can undo this right after deleting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <DeviceScheduleDialog
+        device={scheduleDevice}
+        schedules={schedules.filter((s) => s.deviceId === scheduleDevice?._id)}
+        onOpenChange={(open) => !open && setScheduleDevice(null)}
+        onSchedulesChange={setSchedules}
+      />
     </DashboardLayout>
   );
 };
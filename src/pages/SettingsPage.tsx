@@ -4,15 +4,38 @@ import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import IngestKeysCard from "@/components/dashboard/IngestKeysCard";
 import { userService, UserSettings } from "@/services/user.service";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "@/hooks/use-toast";
 
+const commonTimezones = [
+  "Asia/Kolkata",
+  "Asia/Dubai",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "UTC",
+];
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// "50, 80, 100" -> [50, 80, 100]; anything that isn't a percentage from 1 to 200 is dropped
+const parseThresholds = (value: string) =>
+  [...new Set(value.split(",").map((v) => Number(v.trim())).filter((v) => v >= 1 && v <= 200))].sort((a, b) => a - b);
+
 const SettingsPage = () => {
   const { user } = useAuth();
   const [settings, setSettings] = useState<UserSettings | null>(null);
   const [profile, setProfile] = useState({ fullName: "", email: "" });
+  const [thresholds, setThresholds] = useState("");
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -24,6 +47,7 @@ const SettingsPage = () => {
           userService.getSettings(),
         ]);
         setSettings(settingsData);
+        setThresholds((settingsData.budgetThresholds || []).join(", "));
         setProfile({
           fullName: user?.fullName || "",
           email: user?.email || "",
@@ -70,6 +94,9 @@ const SettingsPage = () => {
       await userService.updateSettings({
         monthlyBudget: settings.monthlyBudget,
         alertThreshold: settings.alertThreshold,
+        budgetThresholds: parseThresholds(thresholds),
+        meterReadDay: settings.meterReadDay,
+        timezone: settings.timezone,
       });
       toast({
         title: "Success",
@@ -111,6 +138,11 @@ const SettingsPage = () => {
     );
   }
 
+  // Always offer the browser's zone and the saved one alongside the common list
+  const timezoneOptions = Array.from(
+    new Set([...commonTimezones, browserTimezone, settings?.timezone].filter(Boolean) as string[])
+  );
+
   const notificationLabels: Record<string, string> = {
     energyAlerts: "Energy usage alerts",
     costWarnings: "Cost threshold warnings",
@@ -184,11 +216,64 @@ const SettingsPage = () => {
                 onChange={(e) => setSettings(settings ? { ...settings, alertThreshold: parseInt(e.target.value) } : null)}
               />
             </div>
+            <div className="space-y-2">
+              <Label>Cost Warnings At (%)</Label>
+              <Input
+                value={thresholds}
+                placeholder="50, 80, 100"
+                onChange={(e) => setThresholds(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                You're notified once per billing period as spending passes each of these percentages of your budget
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Meter Read Day</Label>
+              <Input
+                type="number"
+                min={1}
+                max={28}
+                value={settings?.meterReadDay || 1}
+                onChange={(e) => setSettings(settings ? { ...settings, meterReadDay: parseInt(e.target.value) } : null)}
+              />
+              <p className="text-xs text-muted-foreground">Day of the month your billing period starts (1–28)</p>
+            </div>
             <Button size="sm" onClick={handleUpdateSettings} disabled={saving}>
               {saving ? "Updating..." : "Update Budget"}
             </Button>
           </CardContent>
         </Card>
+
+        <Card className="glass-card">
+          <CardHeader><CardTitle className="font-display text-lg">Time Zone</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Time Zone</Label>
+              <Select
+                value={settings?.timezone || "Asia/Kolkata"}
+                onValueChange={(value) => setSettings(settings ? { ...settings, timezone: value } : null)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timezoneOptions.map((tz) => (
+                    <SelectItem key={tz} value={tz}>
+                      {tz.replace(/_/g, " ")}
+                      {tz === browserTimezone && " (this device)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Daily and hourly charts and billing periods follow this time zone</p>
+            </div>
+            <Button size="sm" onClick={handleUpdateSettings} disabled={saving}>
+              {saving ? "Updating..." : "Update Time Zone"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <IngestKeysCard />
       </div>
     </DashboardLayout>
   );
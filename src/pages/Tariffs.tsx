@@ -0,0 +1,413 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Clock, Plus, Trash2, CheckCircle2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import {
+  tariffService, TariffSchedule, TariffSlab, TariffBlock, TariffPeriod, TariffType, Weekday
+} from "@/services/tariff.service";
+import { toast } from "@/hooks/use-toast";
+
+const periodColors: Record<TariffPeriod, string> = {
+  "Off-Peak": "bg-energy-green",
+  "Mid-Peak": "bg-energy-yellow",
+  "Peak": "bg-energy-red",
+};
+
+const allDays: Weekday[] = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const emptySlab = (): TariffSlab => ({
+  name: "Off-Peak",
+  timeRange: { start: "22:00", end: "06:00" },
+  rate: 0,
+  days: [...allDays],
+});
+
+const emptyBlock = (): TariffBlock => ({ upTo: null, rate: 0 });
+
+const blockLabel = (blocks: TariffBlock[], index: number) => {
+  const from = index > 0 ? blocks[index - 1].upTo ?? 0 : 0;
+  const upTo = blocks[index].upTo;
+  if (upTo === null || index === blocks.length - 1) return `Above ${from} units`;
+  return from === 0 ? `First ${upTo} units` : `Next ${upTo - from} units`;
+};
+
+const formatDays = (days: Weekday[]) =>
+  !days.length || days.length === allDays.length ? "Every day" : days.join(", ");
+
+const TariffsPage = () => {
+  const [tariffs, setTariffs] = useState<TariffSchedule[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [currentSlab, setCurrentSlab] = useState<TariffSlab | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<TariffType>("time_of_use");
+  const [newSlabs, setNewSlabs] = useState<TariffSlab[]>([emptySlab()]);
+  const [newBlocks, setNewBlocks] = useState<TariffBlock[]>([emptyBlock()]);
+  const [newFixedCharge, setNewFixedCharge] = useState(0);
+
+  useEffect(() => {
+    fetchTariffs();
+  }, []);
+
+  const fetchTariffs = async () => {
+    try {
+      setLoading(true);
+      const [tariffsData, activeData] = await Promise.all([
+        tariffService.getTariffs(),
+        tariffService.getActiveTariff(),
+      ]);
+      setTariffs(tariffsData);
+      setActiveId(activeData.tariff?._id || null);
+      setCurrentSlab(activeData.currentSlab);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load tariffs",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const activateTariff = async (id: string) => {
+    try {
+      await tariffService.activateTariff(id);
+      await fetchTariffs();
+      toast({
+        title: "Success",
+        description: "Tariff activated",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to activate tariff",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteTariff = async (id: string) => {
+    try {
+      await tariffService.deleteTariff(id);
+      await fetchTariffs();
+      toast({
+        title: "Success",
+        description: "Tariff deleted successfully",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete tariff",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateSlab = (index: number, changes: Partial<TariffSlab>) => {
+    setNewSlabs((prev) => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const updateBlock = (index: number, changes: Partial<TariffBlock>) => {
+    setNewBlocks((prev) => prev.map((b, i) => (i === index ? { ...b, ...changes } : b)));
+  };
+
+  const resetForm = () => {
+    setNewName("");
+    setNewType("time_of_use");
+    setNewSlabs([emptySlab()]);
+    setNewBlocks([emptyBlock()]);
+    setNewFixedCharge(0);
+  };
+
+  const addTariff = async () => {
+    const invalid = newType === "block"
+      ? newBlocks.slice(0, -1).some((b) => b.upTo === null)
+      : newSlabs.some((s) => !s.timeRange.start || !s.timeRange.end);
+
+    if (!newName || invalid) {
+      toast({
+        title: "Error",
+        description: "Please fill all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await tariffService.createTariff({
+        name: newName,
+        type: newType,
+        ...(newType === "block" ? { blocks: newBlocks } : { slabs: newSlabs }),
+        fixedCharge: newFixedCharge,
+        isActive: true,
+      });
+      setIsAddDialogOpen(false);
+      resetForm();
+      await fetchTariffs();
+      toast({
+        title: "Success",
+        description: "Tariff added successfully",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add tariff",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-96">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="font-display text-2xl font-bold">Tariffs</h1>
+            <p className="text-sm text-muted-foreground">
+              {currentSlab
+                ? `Now: ${currentSlab.name} at ₹${currentSlab.rate}/kWh`
+                : activeId
+                ? "Billed by monthly consumption blocks"
+                : "No tariff configured"}
+            </p>
+          </div>
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="gap-2">
+                <Plus className="w-4 h-4" />
+                Add Tariff
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg">
+              <DialogHeader>
+                <DialogTitle>Add New Tariff</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 pt-4">
+                <div className="space-y-2">
+                  <Label>Tariff Name</Label>
+                  <Input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="e.g., Maharashtra Residential"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Tariff Type</Label>
+                  <Select value={newType} onValueChange={(value) => setNewType(value as TariffType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="time_of_use">Time of use</SelectItem>
+                      <SelectItem value="block">Consumption blocks</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {newType === "time_of_use" && newSlabs.map((slab, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_auto_auto_5rem_auto] gap-2 items-end">
+                    <div className="space-y-2">
+                      <Label>Period</Label>
+                      <Select
+                        value={slab.name}
+                        onValueChange={(value) => updateSlab(index, { name: value as TariffPeriod })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.keys(periodColors).map((period) => (
+                            <SelectItem key={period} value={period}>
+                              {period}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>From</Label>
+                      <Input
+                        type="time"
+                        value={slab.timeRange.start}
+                        onChange={(e) => updateSlab(index, { timeRange: { ...slab.timeRange, start: e.target.value } })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>To</Label>
+                      <Input
+                        type="time"
+                        value={slab.timeRange.end}
+                        onChange={(e) => updateSlab(index, { timeRange: { ...slab.timeRange, end: e.target.value } })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>₹/kWh</Label>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        value={slab.rate}
+                        onChange={(e) => updateSlab(index, { rate: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <button
+                      onClick={() => setNewSlabs((prev) => prev.filter((_, i) => i !== index))}
+                      disabled={newSlabs.length === 1}
+                      className="p-2 text-muted-foreground hover:text-destructive transition-colors disabled:opacity-30"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                {newType === "block" && newBlocks.map((block, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_5rem_auto] gap-2 items-end">
+                    <div className="space-y-2">
+                      <Label>Up to (units/month)</Label>
+                      <Input
+                        type="number"
+                        value={block.upTo ?? ""}
+                        placeholder={index === newBlocks.length - 1 ? "No limit" : ""}
+                        onChange={(e) => updateBlock(index, { upTo: e.target.value ? parseFloat(e.target.value) : null })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>₹/kWh</Label>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        value={block.rate}
+                        onChange={(e) => updateBlock(index, { rate: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <button
+                      onClick={() => setNewBlocks((prev) => prev.filter((_, i) => i !== index))}
+                      disabled={newBlocks.length === 1}
+                      className="p-2 text-muted-foreground hover:text-destructive transition-colors disabled:opacity-30"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    newType === "block"
+                      ? setNewBlocks((prev) => [...prev, emptyBlock()])
+                      : setNewSlabs((prev) => [...prev, emptySlab()])
+                  }
+                >
+                  {newType === "block" ? "Add Block" : "Add Slab"}
+                </Button>
+                <div className="space-y-2">
+                  <Label>Fixed Charge (₹/month)</Label>
+                  <Input
+                    type="number"
+                    value={newFixedCharge}
+                    onChange={(e) => setNewFixedCharge(parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+                <Button onClick={addTariff} className="w-full">
+                  Add Tariff
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          {tariffs.map((t, i) => (
+            <motion.div key={t._id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.05 }}>
+              <Card className={`glass-card ${t._id === activeId ? "energy-glow" : ""}`}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div>
+                    <CardTitle className="font-display text-lg">{t.name}</CardTitle>
+                    <p className="text-xs text-muted-foreground">{t.userId ? "Custom tariff" : "Default tariff"}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {t._id === activeId ? (
+                      <Badge className="gap-1 text-xs">
+                        <CheckCircle2 className="w-3 h-3" />
+                        Active
+                      </Badge>
+                    ) : (
+                      t.userId && (
+                        <Button variant="outline" size="sm" onClick={() => activateTariff(t._id)}>
+                          Activate
+                        </Button>
+                      )
+                    )}
+                    {t.userId && (
+                      <button
+                        onClick={() => deleteTariff(t._id)}
+                        className="p-1.5 text-muted-foreground hover:text-destructive transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {t.type === "block"
+                    ? t.blocks.map((block, index) => (
+                        <div key={index} className="flex items-center justify-between py-2 border-b last:border-0">
+                          <p className="text-sm font-medium">{blockLabel(t.blocks, index)}</p>
+                          <span className="font-medium text-sm">₹{block.rate.toFixed(2)}/kWh</span>
+                        </div>
+                      ))
+                    : t.slabs.map((slab, index) => (
+                        <div key={index} className="flex items-center justify-between py-2 border-b last:border-0">
+                          <div className="flex items-center gap-3">
+                            <div className={`w-3 h-3 rounded-full ${periodColors[slab.name]}`} />
+                            <div>
+                              <p className="text-sm font-medium">{slab.name}</p>
+                              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                                <Clock className="w-3 h-3" />
+                                {slab.timeRange.start} - {slab.timeRange.end} · {formatDays(slab.days)}
+                              </p>
+                            </div>
+                          </div>
+                          <span className="font-medium text-sm">₹{slab.rate.toFixed(2)}/kWh</span>
+                        </div>
+                      ))}
+                  {(t.fixedCharge > 0 || t.surcharges?.length > 0 || t.taxes?.length > 0) && (
+                    <div className="pt-2 space-y-1 text-xs text-muted-foreground">
+                      {t.fixedCharge > 0 && <p>Fixed charge: ₹{t.fixedCharge}/month</p>}
+                      {t.surcharges?.map((sc) => (
+                        <p key={sc.name}>
+                          {sc.name}: ₹{sc.value}{sc.basis === "per_unit" ? "/kWh" : "/month"}
+                        </p>
+                      ))}
+                      {t.taxes?.map((tax) => (
+                        <p key={tax.name}>{tax.name}: {tax.percentage}%</p>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default TariffsPage;
@@ -0,0 +1,40 @@
+import api from './api';
+
+export type AlertType = 'spike' | 'baseload' | 'overnight' | 'budget' | 'offline';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface UsageAlert {
+  _id: string;
+  type: AlertType;
+  severity: AlertSeverity;
+  message: string;
+  deviceId: string | null;
+  observed: number | null;
+  expected: number | null;
+  acknowledgedAt: string | null;
+  createdAt: string;
+}
+
+export const alertService = {
+  // Get recent alerts with the number still unacknowledged
+  getAlerts: async (params?: { unacknowledged?: boolean; limit?: number }): Promise<{ alerts: UsageAlert[]; unacknowledged: number }> => {
+    const response = await api.get('/alerts', { params });
+    return response.data.data;
+  },
+
+  // Acknowledge an alert
+  acknowledgeAlert: async (id: string): Promise<UsageAlert> => {
+    const response = await api.post(`/alerts/${id}/acknowledge`);
+    return response.data.data.alert;
+  },
+
+  // Acknowledge every open alert
+  acknowledgeAll: async (): Promise<void> => {
+    await api.post('/alerts/acknowledge-all');
+  },
+
+  // Delete an alert
+  deleteAlert: async (id: string): Promise<void> => {
+    await api.delete(`/alerts/${id}`);
+  },
+};
@@ -16,12 +16,62 @@ export interface UsageTrend {
 }
 
 export interface DeviceBreakdownItem {
+  // null for the "Unattributed / Other" slice
+  deviceId: string | null;
   name: string;
   type: string;
   usage: number;
+  cost: number;
+  // Usage estimated from runtime rather than metered
+  estimated: boolean;
   percentage: string;
 }
 
+export type BreakdownPeriod = 'day' | 'week' | 'month' | 'custom';
+
+export interface AnalyticsPeriodParams {
+  period: BreakdownPeriod;
+  // Local dates (YYYY-MM-DD) for custom periods, `to` inclusive
+  from?: string;
+  to?: string;
+}
+
+export interface DeviceBreakdown {
+  period: { period: BreakdownPeriod; from: string; to: string };
+  breakdown: DeviceBreakdownItem[];
+  totalUsage: number;
+  totalCost: number;
+  wholeHome: { usage: number; cost: number };
+  unattributed: { usage: number; cost: number };
+}
+
+// An appliance run inferred from the whole-home meter
+export interface ApplianceEvent {
+  deviceId: string;
+  name: string;
+  type: string;
+  start: string;
+  // null while the appliance still appears to be running
+  end: string | null;
+  power: number;
+  energy: number;
+  confidence: number;
+}
+
+export interface Disaggregation {
+  period: { period: BreakdownPeriod; from: string; to: string };
+  readings: number;
+  events: ApplianceEvent[];
+  devices: {
+    deviceId: string;
+    name: string;
+    type: string;
+    events: number;
+    energy: number;
+    confidence: number;
+  }[];
+}
+
 export interface CarbonData {
   month: string;
   emissions: number;
@@ -47,9 +97,15 @@ export const analyticsService = {
     return response.data.data;
   },
 
-  // Get device breakdown
-  getDeviceBreakdown: async (): Promise<{ breakdown: DeviceBreakdownItem[]; totalUsage: number }> => {
-    const response = await api.get('/analytics/device-breakdown');
+  // Get device breakdown reconciled with the whole-home meter
+  getDeviceBreakdown: async (params: AnalyticsPeriodParams = { period: 'week' }): Promise<DeviceBreakdown> => {
+    const response = await api.get('/analytics/device-breakdown', { params });
+    return response.data.data;
+  },
+
+  // Get appliance activity inferred from the whole-home meter
+  getDisaggregation: async (params: AnalyticsPeriodParams = { period: 'day' }): Promise<Disaggregation> => {
+    const response = await api.get('/analytics/disaggregation', { params });
     return response.data.data;
   },
 
@@ -68,4 +68,12 @@ api.interceptors.response.use(
   }
 );
 
+// Message sent by the API for a failed request, if any
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error) && typeof error.response?.data?.message === 'string') {
+    return error.response.data.message;
+  }
+  return fallback;
+};
+
 export default api;
@@ -23,6 +23,9 @@ export interface AuthResponse {
       settings: {
         monthlyBudget: number;
         alertThreshold: number;
+        budgetThresholds: number[];
+        meterReadDay: number;
+        timezone: string;
         notifications: {
           energyAlerts: boolean;
           costWarnings: boolean;
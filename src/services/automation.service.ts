@@ -0,0 +1,95 @@
+import api from './api';
+
+export type ComparisonOperator = 'gt' | 'gte' | 'lt' | 'lte';
+export type DeviceState = 'on' | 'off';
+
+export type AutomationTrigger =
+  | { type: 'usage' | 'cost' | 'solar'; operator?: ComparisonOperator; value: number }
+  | { type: 'budget'; operator?: ComparisonOperator; value?: number | null }
+  | { type: 'time'; time: string; daysOfWeek?: number[] }
+  | { type: 'device_state'; deviceId: string; state: DeviceState };
+
+export type AutomationCondition =
+  | { type: 'time_window'; start: string; end: string }
+  | { type: 'days_of_week'; daysOfWeek: number[] }
+  | { type: 'device_state'; deviceId: string; state: DeviceState };
+
+export type AutomationAction =
+  | { type: 'toggle'; deviceId: string; status: boolean }
+  | { type: 'intensity'; deviceId: string; intensity: number }
+  | { type: 'notify'; message: string };
+
+export interface AutomationRule {
+  _id: string;
+  name: string;
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  isEnabled: boolean;
+  lastTriggeredAt: string | null;
+  runCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AutomationRun {
+  _id: string;
+  ruleId: string;
+  ruleName: string;
+  triggeredBy: string;
+  observed: number | null;
+  status: 'success' | 'partial' | 'failed';
+  results: {
+    type: AutomationAction['type'];
+    deviceId: string | null;
+    success: boolean;
+    message: string;
+  }[];
+  createdAt: string;
+}
+
+export interface AutomationRuleData {
+  name: string;
+  trigger: AutomationTrigger;
+  conditions?: AutomationCondition[];
+  actions: AutomationAction[];
+  isEnabled?: boolean;
+}
+
+export const automationService = {
+  // Get all automation rules
+  getRules: async (): Promise<AutomationRule[]> => {
+    const response = await api.get('/automations');
+    return response.data.data.rules;
+  },
+
+  // Create rule
+  createRule: async (data: AutomationRuleData): Promise<AutomationRule> => {
+    const response = await api.post('/automations', data);
+    return response.data.data.rule;
+  },
+
+  // Update rule (also used to enable/disable)
+  updateRule: async (id: string, data: Partial<AutomationRuleData>): Promise<AutomationRule> => {
+    const response = await api.put(`/automations/${id}`, data);
+    return response.data.data.rule;
+  },
+
+  // Delete rule
+  deleteRule: async (id: string): Promise<void> => {
+    await api.delete(`/automations/${id}`);
+  },
+
+  // Run a rule's actions now
+  runRule: async (id: string): Promise<{ run: AutomationRun; rule: AutomationRule }> => {
+    const response = await api.post(`/automations/${id}/run`);
+    return response.data.data;
+  },
+
+  // Get the run log, across all rules or for one rule
+  getRuns: async (ruleId?: string, limit = 50): Promise<AutomationRun[]> => {
+    const url = ruleId ? `/automations/${ruleId}/runs` : '/automations/runs';
+    const response = await api.get(url, { params: { limit } });
+    return response.data.data.runs;
+  },
+};
@@ -1,9 +1,53 @@
 import api from './api';
 
+export interface BillLineItem {
+  category: 'energy' | 'fixed' | 'surcharge' | 'tax' | 'credit';
+  label: string;
+  units: number | null;
+  rate: number | null;
+  amount: number;
+}
+
+export interface BillDeviceUsage {
+  deviceId: string;
+  name: string;
+  units: number;
+  cost: number;
+}
+
+export type PaymentMethod = 'upi' | 'card' | 'netbanking' | 'cash' | 'cheque' | 'other';
+
+export interface BillPayment {
+  _id: string;
+  amount: number;
+  method: PaymentMethod;
+  reference: string | null;
+  paidAt: string;
+}
+
+export interface RecordPaymentData {
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  paidAt?: string;
+}
+
+export interface BillingPeriod {
+  start: string;
+  end: string;
+  month: string;
+  year: number;
+  days: number;
+  readDay: number;
+  timeZone: string;
+}
+
 export interface Bill {
   _id: string;
   month: string;
   year: number;
+  periodStart?: string;
+  periodEnd?: string;
   amount: number;
   unitsConsumed: number;
   solarCredits: number;
@@ -11,6 +55,11 @@ export interface Bill {
   dueDate: string;
   paidDate?: string;
   savings: number;
+  tariffName?: string | null;
+  lineItems: BillLineItem[];
+  deviceBreakdown: BillDeviceUsage[];
+  payments?: BillPayment[];
+  amountPaid?: number;
 }
 
 export interface BudgetStatus {
@@ -20,9 +69,13 @@ export interface BudgetStatus {
   percentage: string;
   threshold: number;
   alertTriggered: boolean;
+  thresholds: number[];
+  crossedThresholds: number[];
   projectedMonthly: string;
+  projectedOverspend: string;
   daysElapsed: number;
   daysInMonth: number;
+  period: BillingPeriod;
 }
 
 export interface SavingsData {
@@ -37,10 +90,13 @@ export interface SavingsData {
   savings: string;
   savingsPercentage: number;
   isSaving: boolean;
+  period: BillingPeriod;
+  previousPeriod: BillingPeriod;
 }
 
 export interface CurrentBillData {
   bill: Bill;
+  period: BillingPeriod;
   budget: {
     limit: number;
     used: number;
@@ -62,6 +118,24 @@ export const billingService = {
     return response.data.data.bills;
   },
 
+  // Get a single bill with its line items and device breakdown
+  getBill: async (id: string): Promise<Bill> => {
+    const response = await api.get(`/billing/${id}`);
+    return response.data.data.bill;
+  },
+
+  // Get payment history for a bill
+  getPayments: async (id: string): Promise<{ payments: BillPayment[]; amountPaid: number; balance: number }> => {
+    const response = await api.get(`/billing/${id}/payments`);
+    return response.data.data;
+  },
+
+  // Record a payment against a bill
+  recordPayment: async (id: string, data: RecordPaymentData): Promise<Bill> => {
+    const response = await api.post(`/billing/${id}/payments`, data);
+    return response.data.data.bill;
+  },
+
   // Get budget status
   getBudgetStatus: async (): Promise<BudgetStatus> => {
     const response = await api.get('/billing/budget-status');
@@ -74,7 +148,7 @@ export const billingService = {
     return response.data.data;
   },
 
-  // Generate bill (admin function)
+  // Generate a month's bill on demand (closed months are also billed automatically)
   generateBill: async (month: string, year: number): Promise<Bill> => {
     const response = await api.post('/billing/generate', { month, year });
     return response.data.data.bill;
@@ -1,5 +1,8 @@
+import axios from 'axios';
 import api from './api';
 
+export type DeviceConnectivity = 'unknown' | 'online' | 'offline';
+
 export interface Device {
   _id: string;
   name: string;
@@ -10,7 +13,11 @@ export interface Device {
   status: boolean;
   intensity: number;
   isSmart: boolean;
+  metered: boolean;
   lastUsed?: string;
+  lastSeenAt?: string | null;
+  connectivity: DeviceConnectivity;
+  offlineAfterMinutes: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -31,6 +38,64 @@ export interface UpdateDeviceData {
   powerRating?: number;
   icon?: string;
   isSmart?: boolean;
+  metered?: boolean;
+  offlineAfterMinutes?: number;
+}
+
+// Bulk operations target a list of devices or a whole room
+export type BulkTarget = { ids: string[] } | { room: string };
+
+export interface BulkResult {
+  results: {
+    deviceId: string;
+    name: string | null;
+    success: boolean;
+    message?: string;
+  }[];
+  succeeded: number;
+  failed: number;
+}
+
+// Bulk endpoints answer 400 when every device failed; the per-device results
+// still come back, so they are returned rather than thrown
+const postBulk = async (url: string, body: object): Promise<BulkResult> => {
+  try {
+    const response = await api.post(url, body);
+    return response.data.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.data?.data?.results) {
+      return error.response.data.data;
+    }
+    throw error;
+  }
+};
+
+export interface DeviceDailyUsage {
+  date: string;
+  usage: number;
+  cost: number;
+  onHours: number;
+}
+
+export interface DeviceTimelineSpan {
+  status: boolean;
+  start: string;
+  end: string;
+}
+
+export interface DeviceStats {
+  deviceId: string;
+  days: number;
+  from: string;
+  to: string;
+  totalUsage: number;
+  totalCost: number;
+  readings: number;
+  onHours: number;
+  avgDailyUsage: number;
+  avgDailyCost: number;
+  daily: DeviceDailyUsage[];
+  timeline: DeviceTimelineSpan[];
 }
 
 export const deviceService = {
@@ -58,11 +123,17 @@ export const deviceService = {
     return response.data.data.device;
   },
 
-  // Delete device
+  // Delete device (soft delete, can be restored)
   deleteDevice: async (id: string): Promise<void> => {
     await api.delete(`/devices/${id}`);
   },
 
+  // Undo a device deletion
+  restoreDevice: async (id: string): Promise<Device> => {
+    const response = await api.post(`/devices/${id}/restore`);
+    return response.data.data.device;
+  },
+
   // Toggle device on/off
   toggleDevice: async (id: string, status: boolean): Promise<Device> => {
     const response = await api.post(`/devices/${id}/toggle`, { status });
@@ -75,14 +146,39 @@ export const deviceService = {
     return response.data.data.device;
   },
 
+  // Turn several devices on/off
+  bulkToggle: async (target: BulkTarget, status: boolean): Promise<BulkResult> => {
+    return postBulk('/devices/bulk/toggle', { ...target, status });
+  },
+
+  // Set intensity on several devices
+  bulkSetIntensity: async (target: BulkTarget, intensity: number): Promise<BulkResult> => {
+    return postBulk('/devices/bulk/intensity', { ...target, intensity });
+  },
+
+  // Delete several devices
+  bulkDelete: async (target: BulkTarget): Promise<BulkResult> => {
+    return postBulk('/devices/bulk/delete', target);
+  },
+
+  // Move several devices to another room
+  bulkMove: async (target: BulkTarget, targetRoom: string): Promise<BulkResult> => {
+    return postBulk('/devices/bulk/move', { ...target, targetRoom });
+  },
+
+  // Undo a bulk deletion
+  bulkRestore: async (ids: string[]): Promise<BulkResult> => {
+    return postBulk('/devices/bulk/restore', { ids });
+  },
+
   // Get all rooms
   getRooms: async (): Promise<string[]> => {
     const response = await api.get('/devices/rooms');
     return response.data.data.rooms;
   },
 
-  // Get device stats
-  getDeviceStats: async (id: string, days: number = 7): Promise<any> => {
+  // Get device usage, cost and on/off history for the last `days` local days
+  getDeviceStats: async (id: string, days: number = 7): Promise<DeviceStats> => {
     const response = await api.get(`/devices/${id}/stats`, { params: { days } });
     return response.data.data.stats;
   },
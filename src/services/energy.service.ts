@@ -74,12 +74,10 @@ export const energyService = {
     return response.data.data.readings;
   },
 
-  // Add reading (for simulation/testing)
+  // Add reading (for simulation/testing); cost and rate are set by the server
   addReading: async (data: {
     deviceId?: string;
     usage: number;
-    cost: number;
-    rate: number;
     solarGeneration?: number;
   }): Promise<EnergyReading> => {
     const response = await api.post('/energy/reading', data);
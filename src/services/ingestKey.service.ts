@@ -0,0 +1,41 @@
+import api from './api';
+
+export interface IngestKey {
+  _id: string;
+  name: string;
+  deviceId: string | null;
+  prefix: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+// The secret key is only returned when a key is created or rotated
+export interface IngestKeySecret {
+  key: string;
+  ingestKey: IngestKey;
+}
+
+export const ingestKeyService = {
+  // Get active ingest keys
+  getKeys: async (): Promise<IngestKey[]> => {
+    const response = await api.get('/ingest-keys');
+    return response.data.data.keys;
+  },
+
+  // Create a key for a device, or for the whole-home meter without one
+  createKey: async (data: { name: string; deviceId?: string | null }): Promise<IngestKeySecret> => {
+    const response = await api.post('/ingest-keys', data);
+    return response.data.data;
+  },
+
+  // Replace a key's secret
+  rotateKey: async (id: string): Promise<IngestKeySecret> => {
+    const response = await api.post(`/ingest-keys/${id}/rotate`);
+    return response.data.data;
+  },
+
+  // Revoke a key
+  revokeKey: async (id: string): Promise<void> => {
+    await api.delete(`/ingest-keys/${id}`);
+  },
+};
@@ -0,0 +1,37 @@
+import api from './api';
+
+export type NotificationCategory = 'energyAlerts' | 'costWarnings' | 'deviceOffline' | 'weeklyReports' | 'general';
+
+export interface AppNotification {
+  _id: string;
+  category: NotificationCategory;
+  type: string;
+  message: string;
+  data: Record<string, string>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export const notificationService = {
+  // Get recent notifications with the number still unread
+  getNotifications: async (params?: { unread?: boolean; limit?: number }): Promise<{ notifications: AppNotification[]; unread: number }> => {
+    const response = await api.get('/notifications', { params });
+    return response.data.data;
+  },
+
+  // Mark a notification as read
+  markRead: async (id: string): Promise<AppNotification> => {
+    const response = await api.post(`/notifications/${id}/read`);
+    return response.data.data.notification;
+  },
+
+  // Mark every notification as read
+  markAllRead: async (): Promise<void> => {
+    await api.post('/notifications/read-all');
+  },
+
+  // Delete a notification
+  deleteNotification: async (id: string): Promise<void> => {
+    await api.delete(`/notifications/${id}`);
+  },
+};
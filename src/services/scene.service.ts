@@ -0,0 +1,55 @@
+import api from './api';
+import { Device } from './device.service';
+
+export interface SceneDevice {
+  deviceId: string;
+  status: boolean;
+  intensity?: number | null;
+}
+
+export interface Scene {
+  _id: string;
+  name: string;
+  icon: string;
+  devices: SceneDevice[];
+  lastActivatedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SceneData {
+  name: string;
+  icon?: string;
+  devices: SceneDevice[];
+}
+
+export const sceneService = {
+  // Get all scenes
+  getScenes: async (): Promise<Scene[]> => {
+    const response = await api.get('/scenes');
+    return response.data.data.scenes;
+  },
+
+  // Create scene
+  createScene: async (data: SceneData): Promise<Scene> => {
+    const response = await api.post('/scenes', data);
+    return response.data.data.scene;
+  },
+
+  // Update scene
+  updateScene: async (id: string, data: Partial<SceneData>): Promise<Scene> => {
+    const response = await api.put(`/scenes/${id}`, data);
+    return response.data.data.scene;
+  },
+
+  // Delete scene
+  deleteScene: async (id: string): Promise<void> => {
+    await api.delete(`/scenes/${id}`);
+  },
+
+  // Activate scene; returns the devices whose state changed
+  activateScene: async (id: string): Promise<{ scene: Scene; devices: Device[] }> => {
+    const response = await api.post(`/scenes/${id}/activate`);
+    return response.data.data;
+  },
+};
@@ -0,0 +1,127 @@
+import api from './api';
+
+export type ScheduleType = 'recurring' | 'timer' | 'window';
+export type ScheduleAction = 'on' | 'off';
+
+export interface Schedule {
+  _id: string;
+  deviceId: string;
+  name?: string | null;
+  type: ScheduleType;
+  daysOfWeek?: number[];
+  startTime?: string;
+  endTime?: string | null;
+  action?: ScheduleAction;
+  runAt?: string;
+  endAt?: string;
+  plan?: {
+    cost: number;
+    costNow: number;
+    saving: number;
+    solarUnits: number;
+  };
+  intensity: number;
+  isActive: boolean;
+  lastTriggeredAt?: string;
+  lastAction?: ScheduleAction | null;
+  completedAt?: string | null;
+  nextRunAt: string | null;
+  nextAction: ScheduleAction | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateRecurringScheduleData {
+  deviceId: string;
+  type: 'recurring';
+  name?: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime?: string | null;
+  intensity?: number;
+}
+
+export interface CreateTimerData {
+  deviceId: string;
+  type: 'timer';
+  name?: string;
+  action: ScheduleAction;
+  runAt?: string;
+  delayMinutes?: number;
+  intensity?: number;
+}
+
+export type CreateScheduleData = CreateRecurringScheduleData | CreateTimerData;
+
+export interface UpdateScheduleData {
+  name?: string;
+  daysOfWeek?: number[];
+  startTime?: string;
+  endTime?: string | null;
+  intensity?: number;
+  action?: ScheduleAction;
+  runAt?: string;
+  isActive?: boolean;
+}
+
+export interface CheapestRunRequest {
+  deviceId: string;
+  durationMinutes: number;
+  deadline: string;
+  intensity?: number;
+  name?: string;
+}
+
+export interface CheapestRunPlan {
+  deviceId: string;
+  start: string;
+  end: string;
+  durationMinutes: number;
+  deadline: string;
+  intensity: number;
+  units: number;
+  solarUnits: number;
+  cost: number;
+  costNow: number;
+  saving: number;
+  savingPercentage: number;
+  averageRate: number;
+  tariffName: string | null;
+}
+
+export const scheduleService = {
+  // Get schedules, optionally for one device
+  getSchedules: async (deviceId?: string): Promise<Schedule[]> => {
+    const response = await api.get('/schedules', { params: { deviceId } });
+    return response.data.data.schedules;
+  },
+
+  // Create a recurring rule or one-shot timer
+  createSchedule: async (data: CreateScheduleData): Promise<Schedule> => {
+    const response = await api.post('/schedules', data);
+    return response.data.data.schedule;
+  },
+
+  // Update schedule (also used to pause/resume)
+  updateSchedule: async (id: string, data: UpdateScheduleData): Promise<Schedule> => {
+    const response = await api.put(`/schedules/${id}`, data);
+    return response.data.data.schedule;
+  },
+
+  // Find the cheapest window for a deferrable run without scheduling it
+  previewCheapestRun: async (data: CheapestRunRequest): Promise<CheapestRunPlan> => {
+    const response = await api.post('/schedules/cheapest/preview', data);
+    return response.data.data.plan;
+  },
+
+  // Schedule a run in its cheapest window
+  scheduleCheapestRun: async (data: CheapestRunRequest): Promise<{ schedule: Schedule; plan: CheapestRunPlan }> => {
+    const response = await api.post('/schedules/cheapest', data);
+    return response.data.data;
+  },
+
+  // Delete schedule
+  deleteSchedule: async (id: string): Promise<void> => {
+    await api.delete(`/schedules/${id}`);
+  },
+};
@@ -1,6 +1,9 @@
 import { io, Socket } from 'socket.io-client';
 import { SOCKET_URL } from './api.config';
 import { authService } from './auth.service';
+import { UsageAlert } from './alert.service';
+import { AppNotification } from './notification.service';
+import { DeviceConnectivity } from './device.service';
 
 class SocketService {
   private socket: Socket | null = null;
@@ -65,12 +68,17 @@ class SocketService {
   }
 
   // Listen for device status updates
-  onDeviceStatus(callback: (data: { deviceId: string; status: boolean; intensity: number }) => void): void {
+  onDeviceStatus(callback: (data: { deviceId: string; status: boolean; intensity: number; source?: string }) => void): void {
     this.socket?.on('device:status', callback);
   }
 
-  // Listen for alerts
-  onAlert(callback: (data: { type: string; message: string }) => void): void {
+  // Listen for devices going online or offline
+  onDeviceConnectivity(callback: (data: { deviceId: string; connectivity: DeviceConnectivity; lastSeenAt: string | null }) => void): void {
+    this.socket?.on('device:connectivity', callback);
+  }
+
+  // Listen for alerts; each carries the stored notification, anomaly alerts also the stored alert
+  onAlert(callback: (data: { type: string; message: string; notification?: AppNotification; alert?: UsageAlert }) => void): void {
     this.socket?.on('alert', callback);
   }
 
@@ -83,6 +91,10 @@ class SocketService {
     this.socket?.off('device:status');
   }
 
+  offDeviceConnectivity(): void {
+    this.socket?.off('device:connectivity');
+  }
+
   offAlert(): void {
     this.socket?.off('alert');
   }
@@ -0,0 +1,107 @@
+import api from './api';
+
+export type TariffPeriod = 'Off-Peak' | 'Mid-Peak' | 'Peak';
+
+export type Weekday = 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat' | 'Sun';
+
+export interface TariffSlab {
+  name: TariffPeriod;
+  timeRange: {
+    start: string;
+    end: string;
+  };
+  rate: number;
+  days: Weekday[];
+}
+
+export interface TariffBlock {
+  upTo: number | null;
+  rate: number;
+}
+
+export interface TariffSurcharge {
+  name: string;
+  basis: 'per_unit' | 'fixed';
+  value: number;
+}
+
+export interface TariffTax {
+  name: string;
+  percentage: number;
+}
+
+export type TariffType = 'time_of_use' | 'block';
+
+export interface TariffSchedule {
+  _id: string;
+  userId: string | null;
+  name: string;
+  type: TariffType;
+  slabs: TariffSlab[];
+  blocks: TariffBlock[];
+  fixedCharge: number;
+  surcharges: TariffSurcharge[];
+  taxes: TariffTax[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ActiveTariffData {
+  tariff: TariffSchedule | null;
+  currentSlab: TariffSlab | null;
+}
+
+export interface TariffData {
+  name: string;
+  type?: TariffType;
+  slabs?: TariffSlab[];
+  blocks?: TariffBlock[];
+  fixedCharge?: number;
+  surcharges?: TariffSurcharge[];
+  taxes?: TariffTax[];
+  isActive?: boolean;
+}
+
+export const tariffService = {
+  // Get own and shared tariff schedules
+  getTariffs: async (): Promise<TariffSchedule[]> => {
+    const response = await api.get('/tariffs');
+    return response.data.data.tariffs;
+  },
+
+  // Get the tariff currently used for pricing readings
+  getActiveTariff: async (): Promise<ActiveTariffData> => {
+    const response = await api.get('/tariffs/active');
+    return response.data.data;
+  },
+
+  // Get single tariff
+  getTariff: async (id: string): Promise<TariffSchedule> => {
+    const response = await api.get(`/tariffs/${id}`);
+    return response.data.data.tariff;
+  },
+
+  // Create tariff
+  createTariff: async (data: TariffData): Promise<TariffSchedule> => {
+    const response = await api.post('/tariffs', data);
+    return response.data.data.tariff;
+  },
+
+  // Update tariff
+  updateTariff: async (id: string, data: Partial<TariffData>): Promise<TariffSchedule> => {
+    const response = await api.put(`/tariffs/${id}`, data);
+    return response.data.data.tariff;
+  },
+
+  // Make tariff the active one
+  activateTariff: async (id: string): Promise<TariffSchedule> => {
+    const response = await api.post(`/tariffs/${id}/activate`);
+    return response.data.data.tariff;
+  },
+
+  // Delete tariff
+  deleteTariff: async (id: string): Promise<void> => {
+    await api.delete(`/tariffs/${id}`);
+  },
+};
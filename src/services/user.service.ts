@@ -3,6 +3,9 @@ import api from './api';
 export interface UserSettings {
   monthlyBudget: number;
   alertThreshold: number;
+  budgetThresholds: number[];
+  meterReadDay: number;
+  timezone: string;
   notifications: {
     energyAlerts: boolean;
     costWarnings: boolean;